@@ -0,0 +1,129 @@
+/**
+ * Load `mojo doc` output for API comparisons, either from a saved JSON file
+ * or by running `mojo doc` on a git ref checked out into a temporary worktree.
+ */
+
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, relative, resolve } from 'path';
+import { execFileSync } from 'child_process';
+
+import { parseJson, type MojoDocOutput } from '@mojodoc/parser';
+import { runMojoDoc } from './mojo-doc.js';
+import { readDeclaredVersion, findProjectRoot } from './config.js';
+
+export interface ApiSnapshot {
+  /** File path or git ref the snapshot came from */
+  label: string;
+  doc: MojoDocOutput;
+  /** Content of the package's __init__.mojo, when known */
+  initFileContent?: string;
+  /** Package version from pixi.toml / mojodoc.toml, when known */
+  version?: string;
+}
+
+export interface SnapshotOptions {
+  /** Package directory to document when the source is a git ref */
+  packagePath: string;
+  cwd?: string;
+}
+
+/**
+ * Load a snapshot from a `mojo doc` JSON file, or from a git ref when no file
+ * with that name exists.
+ */
+export async function loadApiSnapshot(
+  source: string,
+  options: SnapshotOptions
+): Promise<ApiSnapshot> {
+  const cwd = options.cwd || process.cwd();
+  const filePath = resolve(cwd, source);
+
+  if (existsSync(filePath)) {
+    return { label: source, doc: parseJson(await readFile(filePath, 'utf-8')) };
+  }
+
+  return snapshotGitRef(source, options.packagePath, cwd);
+}
+
+/**
+ * Run `mojo doc` on the package as it is in the working tree. Its version
+ * comes from `configPath` when given, and an invalid config is an error.
+ */
+export async function snapshotWorkingTree(
+  packagePath: string,
+  cwd: string = process.cwd(),
+  configPath?: string
+): Promise<ApiSnapshot> {
+  const { json } = await runMojoDoc({ path: packagePath, diagnose: false, cwd });
+  return {
+    label: 'working tree',
+    doc: parseJson(json),
+    initFileContent: readInitFile(packagePath),
+    version: await readDeclaredVersion(configPath, await findProjectRoot(packagePath)),
+  };
+}
+
+/**
+ * Run `mojo doc` on `packagePath` as it was at `ref`.
+ */
+async function snapshotGitRef(ref: string, packagePath: string, cwd: string): Promise<ApiSnapshot> {
+  let topLevel: string;
+  try {
+    topLevel = git(['rev-parse', '--show-toplevel'], cwd);
+    git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], cwd);
+  } catch {
+    throw new Error(`"${ref}" is neither a mojo doc JSON file nor a git ref`);
+  }
+
+  const worktree = mkdtempSync(join(tmpdir(), 'mojodoc-ref-'));
+  try {
+    git(['worktree', 'add', '--detach', worktree, ref], topLevel);
+
+    // Same package and project layout inside the checkout.
+    const checkoutPackage = join(worktree, relative(topLevel, resolve(cwd, packagePath)));
+    const checkoutCwd = join(worktree, relative(topLevel, cwd));
+
+    const { json } = await runMojoDoc({
+      path: checkoutPackage,
+      diagnose: false,
+      cwd: checkoutCwd,
+    });
+    return {
+      label: ref,
+      doc: parseJson(json),
+      initFileContent: readInitFile(checkoutPackage),
+      version: await readVersion(checkoutPackage),
+    };
+  } finally {
+    try {
+      git(['worktree', 'remove', '--force', worktree], topLevel);
+    } catch {
+      // Worktree was never created
+    }
+    rmSync(worktree, { recursive: true, force: true });
+  }
+}
+
+function readInitFile(packagePath: string): string | undefined {
+  const initPath = join(packagePath, '__init__.mojo');
+  return existsSync(initPath) ? readFileSync(initPath, 'utf-8') : undefined;
+}
+
+async function readVersion(packagePath: string): Promise<string | undefined> {
+  try {
+    return await readDeclaredVersion(undefined, await findProjectRoot(packagePath));
+  } catch {
+    // An invalid config at this version leaves the version unknown
+    return undefined;
+  }
+}
+
+function git(args: string[], cwd: string): string {
+  return execFileSync('git', args, {
+    cwd,
+    encoding: 'utf-8',
+    stdio: ['ignore', 'pipe', 'ignore'],
+  }).trim();
+}
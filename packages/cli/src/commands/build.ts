@@ -2,18 +2,16 @@
  * Build command - generates documentation.
  */
 
-import { resolve, extname, dirname, join, relative } from 'path';
+import { resolve, extname, isAbsolute } from 'path';
 import { createServer, type IncomingMessage, type ServerResponse } from 'http';
 import { readFile, stat, watch } from 'fs/promises';
 import chalk from 'chalk';
 import ora from 'ora';
 import open from 'open';
 
-import { parseJson } from '@mojodoc/parser';
+import { parseJson, parseJsonWithWarnings, type MojoDocOutput } from '@mojodoc/parser';
 import { transform } from '@mojodoc/transform';
-import { render } from '@mojodoc/renderer';
-
-import { existsSync, readFileSync, readdirSync, statSync } from 'fs';
+import { render, renderMarkdownSite, renderJsonSite } from '@mojodoc/renderer';
 
 const MIME_TYPES: Record<string, string> = {
   '.html': 'text/html',
@@ -44,64 +42,15 @@ const LIVERELOAD_SCRIPT = `
 </script>
 `;
 
-import { runMojoDoc, checkMojoAvailable } from '../mojo-doc.js';
-import { loadConfig, findPackagePath } from '../config.js';
-
-/**
- * Recursively scan a directory for all .mojo files and read their contents.
- * Returns a Map of relative paths to file contents.
- */
-function scanMojoFiles(dir: string, baseDir: string = dir): Map<string, string> {
-  const files = new Map<string, string>();
-
-  try {
-    const entries = readdirSync(dir);
-
-    for (const entry of entries) {
-      const fullPath = join(dir, entry);
-
-      try {
-        const stats = statSync(fullPath);
-
-        if (stats.isDirectory()) {
-          if (!entry.startsWith('.') && entry !== 'node_modules' && entry !== '__pycache__') {
-            const subFiles = scanMojoFiles(fullPath, baseDir);
-            for (const [path, content] of subFiles) {
-              files.set(path, content);
-            }
-          }
-        } else if (entry.endsWith('.mojo')) {
-          const relativePath = relative(baseDir, fullPath);
-          const content = readFileSync(fullPath, 'utf-8');
-          files.set(relativePath, content);
-        }
-      } catch {
-        // Skip files we can't read
-      }
-    }
-  } catch {
-    // Skip directories we can't read
-  }
-
-  return files;
-}
-
-/**
- * Find the project root by looking for pixi.toml.
- * Walks up from the given path until it finds pixi.toml or reaches root.
- */
-async function findProjectRoot(startPath: string): Promise<string> {
-  let current = resolve(startPath);
-
-  while (current !== dirname(current)) {
-    if (existsSync(join(current, 'pixi.toml'))) {
-      return current;
-    }
-    current = dirname(current);
-  }
-
-  return resolve(startPath);
-}
+import { runMojoDoc, checkMojoAvailable, readMojoDocJson, scanMojoFiles } from '../mojo-doc.js';
+import {
+  loadConfig,
+  applyCliOverrides,
+  findPackagePath,
+  findProjectRoot,
+  sourceLinkOptions,
+  type ModocConfig,
+} from '../config.js';
 
 export interface BuildOptions {
   path?: string;
@@ -112,34 +61,61 @@ export interface BuildOptions {
   verbose?: boolean;
   port?: number;
   repository?: string;
+  /** Git ref source links point at */
+  sourceRef?: string;
+  /** Link to the rendered source pages even when a repository is configured */
+  localSource?: boolean;
   baseUrl?: string;
+  format?: string;
+  includeHtml?: boolean;
+  /** Split the search index into per-letter shards */
+  searchShards?: boolean;
+  /** Saved `mojo doc` JSON to build from instead of running mojo doc ("-" for stdin) */
+  fromJson?: string;
+  /** Package sources to scan for docstrings and re-exports (default: the package path) */
+  sourceDir?: string;
+  /** Fail on mojo doc JSON schema mismatches instead of filling defaults */
+  strict?: boolean;
+  /** Saved mojo doc JSON (e.g. of the stdlib) to inherit trait method docs from */
+  inheritDocs?: string[];
 }
 
 export async function build(options: BuildOptions): Promise<void> {
   const startTime = Date.now();
   const cwd = process.cwd();
 
-  const spinner = ora('Checking mojo installation...').start();
+  const spinner = ora(
+    options.fromJson ? 'Loading configuration...' : 'Checking mojo installation...'
+  ).start();
 
-  const mojoAvailable = await checkMojoAvailable(cwd);
-  if (!mojoAvailable) {
-    spinner.fail(chalk.red('Mojo is not available. Make sure mojo is installed.'));
-    process.exit(1);
+  if (!options.fromJson) {
+    const mojoAvailable = await checkMojoAvailable(cwd);
+    if (!mojoAvailable) {
+      spinner.fail(chalk.red('Mojo is not available. Make sure mojo is installed.'));
+      process.exit(1);
+    }
   }
 
   spinner.text = 'Loading configuration...';
 
-  const packagePath = findPackagePath(cwd, options.path);
-  const projectRoot = await findProjectRoot(packagePath);
-  const config = await loadConfig(options.config, projectRoot);
+  try {
+    const projectRoot = await findProjectRoot(findPackagePath(cwd, options.path));
+    const config = applyCliOverrides(await loadConfig(options.config, projectRoot), options);
 
-  spinner.text = `Extracting documentation from ${chalk.cyan(packagePath)}...`;
+    // A package path set in a config file is absolute; otherwise keep the
+    // CLI argument / current directory behaviour.
+    const packagePath =
+      !options.path && isAbsolute(config.package.path)
+        ? config.package.path
+        : findPackagePath(cwd, options.path);
+    const outDir = resolve(cwd, config.output.dir);
+    const sourceDir = options.sourceDir ? resolve(cwd, options.sourceDir) : packagePath;
 
-  try {
-    const outDir = resolve(cwd, options.outDir || config.output.dir);
+    spinner.text = `Extracting documentation from ${chalk.cyan(packagePath)}...`;
 
     await runBuildPipeline({
       packagePath,
+      sourceDir,
       outDir,
       options,
       config,
@@ -149,7 +125,9 @@ export async function build(options: BuildOptions): Promise<void> {
     const elapsed = ((Date.now() - startTime) / 1000).toFixed(2);
     spinner.succeed(chalk.green(`Documentation built in ${elapsed}s`) + chalk.dim(` → ${outDir}`));
 
-    if (options.open) {
+    if (options.open && config.output.format !== 'html') {
+      console.log(chalk.yellow(`  --open is only supported for HTML output; skipping server.`));
+    } else if (options.open) {
       const port = options.port || 3000;
       const pkgName = resolvePkgName(packagePath, config);
 
@@ -158,8 +136,8 @@ export async function build(options: BuildOptions): Promise<void> {
         port,
         rootPkgName: pkgName,
         watch: true,
-        watchPath: packagePath,
-        rebuildOptions: { packagePath, outDir, options, config },
+        watchPath: sourceDir,
+        rebuildOptions: { packagePath, sourceDir, outDir, options, config },
       });
     }
   } catch (error) {
@@ -182,64 +160,133 @@ export async function build(options: BuildOptions): Promise<void> {
 
 interface PipelineParams {
   packagePath: string;
+  sourceDir: string;
   outDir: string;
   options: BuildOptions;
-  config: Awaited<ReturnType<typeof loadConfig>>;
+  config: ModocConfig;
   spinner?: ReturnType<typeof ora>;
 }
 
 async function runBuildPipeline({
   packagePath,
+  sourceDir,
   outDir,
   options,
   config,
   spinner,
 }: PipelineParams): Promise<string> {
-  if (spinner) spinner.text = `Extracting documentation from ${chalk.cyan(packagePath)}...`;
-
-  const { json, warnings } = await runMojoDoc({
-    path: packagePath,
-    diagnose: options.diagnose ?? true,
-    basePath: config.site.baseUrl,
-    cwd: process.cwd(),
-  });
+  let json: string;
+  if (options.fromJson) {
+    const source = options.fromJson === '-' ? 'stdin' : options.fromJson;
+    if (spinner) spinner.text = `Reading documentation from ${chalk.cyan(source)}...`;
+    json = await readMojoDocJson(options.fromJson);
+  } else {
+    if (spinner) spinner.text = `Extracting documentation from ${chalk.cyan(packagePath)}...`;
+    const result = await runMojoDoc({
+      path: packagePath,
+      diagnose: options.diagnose ?? true,
+      basePath: config.site.baseUrl,
+      cwd: process.cwd(),
+    });
+    json = result.json;
 
-  if (warnings.length > 0 && options.verbose) {
-    spinner?.info(chalk.yellow(`${warnings.length} documentation warning(s)`));
-    for (const warning of warnings) {
-      console.log(chalk.dim(`  ${warning}`));
+    if (result.warnings.length > 0 && options.verbose) {
+      spinner?.info(chalk.yellow(`${result.warnings.length} documentation warning(s)`));
+      for (const warning of result.warnings) {
+        console.log(chalk.dim(`  ${warning}`));
+      }
     }
   }
 
   if (spinner) spinner.text = 'Parsing documentation...';
-  const parsed = parseJson(json);
+  const {
+    output: parsed,
+    warnings: schemaWarnings,
+    adapters,
+  } = parseJsonWithWarnings(json, { mode: options.strict ? 'strict' : 'lenient' });
+
+  if (options.verbose && adapters.length > 0) {
+    spinner?.info(chalk.dim(`Schema adapters: ${adapters.join(', ')}`));
+  }
+
+  // Version warnings always show; field-level ones only with --verbose.
+  const versionWarnings = schemaWarnings.filter((w) => w.path === 'version');
+  const fieldWarnings = schemaWarnings.filter((w) => w.path !== 'version');
+  for (const warning of versionWarnings) {
+    spinner?.warn(chalk.yellow(warning.message));
+  }
+  if (fieldWarnings.length > 0) {
+    spinner?.info(
+      chalk.yellow(`${fieldWarnings.length} mojo doc JSON schema mismatch(es) filled with defaults`)
+    );
+    if (options.verbose) {
+      for (const warning of fieldWarnings) {
+        console.log(chalk.dim(`  ${warning.path}: ${warning.message}`));
+      }
+    }
+  }
 
   if (spinner) spinner.text = 'Scanning source files for docstrings...';
-  const moduleFiles = scanMojoFiles(packagePath);
+  const moduleFiles = scanMojoFiles(sourceDir);
   const initFileContent = moduleFiles.get('__init__.mojo');
 
+  const traitDocs: MojoDocOutput[] = [];
+  for (const file of options.inheritDocs ?? []) {
+    if (spinner) spinner.text = `Reading trait docs from ${chalk.cyan(file)}...`;
+    traitDocs.push(parseJson(await readMojoDocJson(file)));
+  }
+
   if (spinner) spinner.text = 'Transforming documentation...';
   const site = transform(parsed, {
     name: config.package.name,
     version: config.package.version,
     description: config.site.description,
-    baseUrl: options.baseUrl || config.site.baseUrl,
-    repository: options.repository || config.site.repository,
+    baseUrl: config.site.baseUrl,
+    repository: config.site.repository,
     editLink: config.site.editLink,
     initFileContent,
     moduleFiles,
+    traitDocs,
+    sourceLinks: sourceLinkOptions(config, sourceDir),
   });
 
-  if (spinner) spinner.text = 'Rendering HTML...';
-  await render(site, outDir);
+  if (site.warnings.length > 0) {
+    spinner?.warn(chalk.yellow(`${site.warnings.length} cross-reference warning(s)`));
+    for (const warning of site.warnings) {
+      console.log(chalk.dim(`  ${warning}`));
+    }
+  }
+
+  switch (config.output.format) {
+    case 'markdown':
+    case 'mdx':
+      if (spinner) spinner.text = 'Rendering Markdown...';
+      await renderMarkdownSite(site, outDir, { mdx: config.output.format === 'mdx' });
+      break;
+    case 'json':
+      if (spinner) spinner.text = 'Writing JSON...';
+      await renderJsonSite(site, outDir, { includeHtml: config.output.includeHtml });
+      break;
+    default: {
+      if (spinner) spinner.text = 'Rendering HTML...';
+      const report = await render(site, outDir, {
+        sourceFiles: moduleFiles,
+        shardSearchIndex: config.output.searchShards,
+      });
+      const { items, bytes, shards } = report.searchIndex;
+      spinner?.info(
+        chalk.dim(
+          `Search index: ${items} items, ${(bytes / 1024).toFixed(1)} kB` +
+            (shards > 0 ? ` in ${shards} shards` : '')
+        )
+      );
+    }
+  }
 
   return site.rootPackage.name;
 }
 
-function resolvePkgName(
-  packagePath: string,
-  config: Awaited<ReturnType<typeof loadConfig>>
-): string {
+function resolvePkgName(packagePath: string, config: ModocConfig): string {
   return config.package.name || packagePath.split('/').pop() || 'docs';
 }
 
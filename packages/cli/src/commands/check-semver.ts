@@ -0,0 +1,153 @@
+/**
+ * Check-semver command - fail when the package version bump is too small for
+ * the public API changes since a baseline.
+ *
+ * Exit codes: 0 when the bump is sufficient, 1 when it is too small, 2 when
+ * the check could not run.
+ */
+
+import chalk from 'chalk';
+
+import {
+  transform,
+  diffApi,
+  classifyApiChanges,
+  publicApiIndex,
+  requiredBump,
+  checkVersionBump,
+  type ClassifiedChange,
+  type SemverLevel,
+  type VersionCheck,
+} from '@mojodoc/transform';
+import { loadApiSnapshot, snapshotWorkingTree, type ApiSnapshot } from '../api-snapshot.js';
+import { findPackagePath } from '../config.js';
+
+export interface CheckSemverOptions {
+  baseline: string;
+  path?: string;
+  config?: string;
+  /** Version of the baseline when it is a JSON file rather than a git ref */
+  baselineVersion?: string;
+  format?: string;
+}
+
+export const SEMVER_FORMATS = ['text', 'json'] as const;
+export type SemverFormat = (typeof SEMVER_FORMATS)[number];
+
+export const EXIT_OK = 0;
+export const EXIT_BUMP_TOO_SMALL = 1;
+export const EXIT_ERROR = 2;
+
+const LEVEL_COLORS: Record<SemverLevel, (text: string) => string> = {
+  major: chalk.red,
+  minor: chalk.yellow,
+  patch: chalk.dim,
+};
+
+export async function checkSemver(options: CheckSemverOptions): Promise<void> {
+  const cwd = process.cwd();
+  const format = (options.format || 'text') as SemverFormat;
+
+  try {
+    if (!SEMVER_FORMATS.includes(format)) {
+      throw new Error(`Invalid --format "${format}": expected one of ${SEMVER_FORMATS.join(', ')}`);
+    }
+
+    const packagePath = findPackagePath(cwd, options.path);
+    const baseline = await loadApiSnapshot(options.baseline, { packagePath, cwd });
+    const current = await snapshotWorkingTree(packagePath, cwd, options.config);
+
+    const baselineVersion = options.baselineVersion || baseline.version;
+    if (!baselineVersion) {
+      throw new Error(
+        `Cannot tell the version of baseline "${options.baseline}"; pass --baseline-version`
+      );
+    }
+    const version = current.version;
+    if (!version) {
+      throw new Error(
+        'Cannot tell the version of the working tree; declare it in pixi.toml or mojodoc.toml'
+      );
+    }
+
+    // A JSON baseline carries no __init__.mojo; assume the exports did not change.
+    const changes = classifyApiChanges(
+      diffApi(baseline.doc, current.doc),
+      publicIndex(baseline, current.initFileContent),
+      publicIndex(current, current.initFileContent)
+    );
+    const check = checkVersionBump(baselineVersion, version, requiredBump(changes));
+
+    if (format === 'json') {
+      console.log(
+        JSON.stringify(
+          {
+            baseline: options.baseline,
+            baselineVersion,
+            version,
+            ...check,
+            changes,
+          },
+          null,
+          2
+        )
+      );
+    } else {
+      console.log(formatSemverReport(changes, check, baselineVersion, version));
+    }
+
+    process.exit(check.ok ? EXIT_OK : EXIT_BUMP_TOO_SMALL);
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(EXIT_ERROR);
+  }
+}
+
+/**
+ * Format the classified changes and the verdict for the terminal.
+ */
+export function formatSemverReport(
+  changes: ClassifiedChange[],
+  check: VersionCheck,
+  baselineVersion: string,
+  version: string
+): string {
+  const lines: string[] = [];
+
+  for (const level of ['major', 'minor', 'patch'] as const) {
+    const group = changes.filter((c) => c.level === level);
+    if (group.length === 0) continue;
+
+    lines.push(LEVEL_COLORS[level](chalk.bold(`${level} (${group.length})`)));
+    for (const c of group) {
+      const scope = c.public ? '' : chalk.dim(' (internal)');
+      lines.push(`  ${c.kind.padEnd(10)} ${chalk.dim(c.itemKind.padEnd(8))} ${c.path}${scope}`);
+      for (const d of c.details) {
+        lines.push(chalk.dim(`      • ${d.message.replace(/`/g, '')}`));
+      }
+    }
+    lines.push('');
+  }
+
+  if (!check.required) {
+    lines.push(chalk.green('No API changes since the baseline.'));
+  } else if (check.ok) {
+    lines.push(
+      chalk.green(`✓ ${baselineVersion} → ${version} is a ${check.actual} bump `) +
+        chalk.green(`(${check.required} required)`)
+    );
+  } else {
+    lines.push(
+      chalk.red(`✗ ${baselineVersion} → ${version} is not enough: `) +
+        chalk.red(`changes require a ${check.required} bump (at least ${check.minimum})`)
+    );
+  }
+
+  return lines.join('\n');
+}
+
+function publicIndex(snapshot: ApiSnapshot, fallbackInit: string | undefined) {
+  const initFileContent = snapshot.initFileContent ?? fallbackInit;
+  const site = transform(snapshot.doc, { initFileContent });
+  return publicApiIndex(site.rootPackage);
+}
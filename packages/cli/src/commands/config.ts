@@ -0,0 +1,53 @@
+/**
+ * Config command - inspect the resolved configuration.
+ */
+
+import { relative } from 'path';
+import chalk from 'chalk';
+
+import {
+  loadConfig,
+  applyCliOverrides,
+  findConfigFiles,
+  findPackagePath,
+  findProjectRoot,
+  stringifyConfig,
+} from '../config.js';
+
+export interface ConfigCommandOptions {
+  path?: string;
+  config?: string;
+  show?: boolean;
+  outDir?: string;
+  format?: string;
+  includeHtml?: boolean;
+  searchShards?: boolean;
+  baseUrl?: string;
+  repository?: string;
+  sourceRef?: string;
+  localSource?: boolean;
+}
+
+export async function config(options: ConfigCommandOptions): Promise<void> {
+  if (!options.show) {
+    console.log(
+      chalk.yellow('Nothing to do. Run `mojodoc config --show` to print the merged configuration.')
+    );
+    return;
+  }
+
+  const cwd = process.cwd();
+
+  try {
+    const projectRoot = await findProjectRoot(findPackagePath(cwd, options.path));
+    const files = findConfigFiles(options.config, projectRoot);
+    const resolved = applyCliOverrides(await loadConfig(options.config, projectRoot), options);
+
+    const sources = files.length > 0 ? files.map((f) => relative(cwd, f) || f).join(', ') : 'none';
+    console.log(chalk.dim(`# Config files: ${sources}`));
+    console.log(stringifyConfig(resolved));
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Coverage command - report documentation coverage and enforce a minimum.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import chalk from 'chalk';
+
+import { measureCoverage, type CoverageReport, type CoverageStats } from '@mojodoc/transform';
+import { loadMojoDocOutput } from '../mojo-doc.js';
+import { findPackagePath } from '../config.js';
+
+export const COVERAGE_FORMATS = ['text', 'json', 'junit'] as const;
+export type CoverageFormat = (typeof COVERAGE_FORMATS)[number];
+
+export interface CoverageCommandOptions {
+  path?: string;
+  /** Read saved `mojo doc` JSON instead of running mojo doc */
+  fromJson?: string;
+  /** Minimum total coverage percentage */
+  min?: string;
+  format?: string;
+}
+
+export async function coverage(options: CoverageCommandOptions): Promise<void> {
+  const cwd = process.cwd();
+  const format = (options.format || 'text') as CoverageFormat;
+
+  try {
+    if (!COVERAGE_FORMATS.includes(format)) {
+      throw new Error(
+        `Invalid --format "${format}": expected one of ${COVERAGE_FORMATS.join(', ')}`
+      );
+    }
+    const min = options.min !== undefined ? Number(options.min) : undefined;
+    if (min !== undefined && (Number.isNaN(min) || min < 0 || min > 100)) {
+      throw new Error(`Invalid --min "${options.min}": expected a percentage between 0 and 100`);
+    }
+
+    const packagePath = findPackagePath(cwd, options.path);
+    const doc = await loadMojoDocOutput(packagePath, options.fromJson, cwd);
+    const initPath = join(packagePath, '__init__.mojo');
+    const report = measureCoverage(doc, {
+      initFileContent: existsSync(initPath) ? readFileSync(initPath, 'utf-8') : undefined,
+    });
+
+    switch (format) {
+      case 'json':
+        console.log(JSON.stringify({ min: min ?? null, ...report }, null, 2));
+        break;
+      case 'junit':
+        console.log(formatCoverageJunit(report));
+        break;
+      default:
+        console.log(formatCoverageText(report, min));
+    }
+
+    if (min !== undefined && report.total.percent < min) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(2);
+  }
+}
+
+// ============================================================================
+// Formatters
+// ============================================================================
+
+/**
+ * Format a coverage report for the terminal.
+ */
+export function formatCoverageText(report: CoverageReport, min?: number): string {
+  const width = Math.max(6, ...report.modules.map((m) => m.module.length));
+  const lines = [chalk.bold(`${'Module'.padEnd(width)}  Documented  Coverage`)];
+
+  for (const m of report.modules) {
+    lines.push(`${m.module.padEnd(width)}  ${ratio(m).padStart(10)}  ${percent(m, min)}`);
+  }
+
+  lines.push(
+    '',
+    `${'Total'.padEnd(width)}  ${ratio(report.total).padStart(10)}  ${percent(report.total, min)}`,
+    chalk.dim(`${'  public'.padEnd(width)}  ${ratio(report.public).padStart(10)}  `) +
+      percent(report.public, min),
+    chalk.dim(`${'  internal'.padEnd(width)}  ${ratio(report.internal).padStart(10)}  `) +
+      percent(report.internal, min)
+  );
+
+  const undocumented = report.items.filter((i) => i.missing.length > 0);
+  if (undocumented.length > 0) {
+    lines.push('', chalk.bold(`Undocumented (${undocumented.length})`));
+    for (const item of undocumented) {
+      const scope = item.public ? '' : chalk.dim(' (internal)');
+      const missing = item.missing.map((m) => m.replace(/`/g, '')).join(', ');
+      lines.push(`  ${chalk.cyan(item.path)}${scope} ${chalk.dim('—')} ${missing}`);
+    }
+  }
+
+  if (min !== undefined) {
+    lines.push(
+      '',
+      report.total.percent >= min
+        ? chalk.green(`✓ Coverage ${report.total.percent}% meets the ${min}% minimum`)
+        : chalk.red(`✗ Coverage ${report.total.percent}% is below the ${min}% minimum`)
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a coverage report as JUnit XML: one test suite per module, one test
+ * case per item, failing when the item is missing documentation.
+ */
+export function formatCoverageJunit(report: CoverageReport): string {
+  const failures = report.total.total - report.total.documented;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="mojodoc coverage" tests="${report.total.total}" failures="${failures}">`,
+  ];
+
+  for (const m of report.modules) {
+    const items = report.items.filter((i) => i.module === m.module);
+    lines.push(
+      `  <testsuite name="${xml(m.module)}" tests="${m.total}" failures="${m.total - m.documented}">`
+    );
+    for (const item of items) {
+      const name = item.signature && item.kind !== 'field' ? item.signature : item.path;
+      const open = `    <testcase classname="${xml(item.path)}" name="${xml(name)}"`;
+      if (item.missing.length === 0) {
+        lines.push(`${open}/>`);
+      } else {
+        const message = `missing ${item.missing.join(', ')}`;
+        lines.push(
+          `${open}>`,
+          `      <failure message="${xml(message)}" type="undocumented"/>`,
+          '    </testcase>'
+        );
+      }
+    }
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n');
+}
+
+function ratio(stats: CoverageStats): string {
+  return `${stats.documented}/${stats.total}`;
+}
+
+function percent(stats: CoverageStats, min?: number): string {
+  const text = `${stats.percent.toFixed(1)}%`.padStart(8);
+  if (min !== undefined) return stats.percent >= min ? chalk.green(text) : chalk.red(text);
+  return stats.percent >= 80 ? chalk.green(text) : chalk.yellow(text);
+}
+
+function xml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,159 @@
+/**
+ * Diff command - report API changes between two versions of a package.
+ */
+
+import chalk from 'chalk';
+
+import {
+  diffApi,
+  summarizeApiDiff,
+  type ApiChange,
+  type ApiChangeKind,
+  type ApiDiff,
+} from '@mojodoc/transform';
+import { loadApiSnapshot } from '../api-snapshot.js';
+import { findPackagePath } from '../config.js';
+
+export const DIFF_FORMATS = ['text', 'markdown', 'json'] as const;
+export type DiffFormat = (typeof DIFF_FORMATS)[number];
+
+export interface DiffOptions {
+  old: string;
+  new: string;
+  /** Package directory, used when comparing git refs */
+  path?: string;
+  format?: string;
+}
+
+/** Order in which change groups are reported, most severe first. */
+const GROUPS: Array<{ kind: ApiChangeKind; title: string }> = [
+  { kind: 'removed', title: 'Removed' },
+  { kind: 'changed', title: 'Changed' },
+  { kind: 'deprecated', title: 'Deprecated' },
+  { kind: 'added', title: 'Added' },
+];
+
+export async function diff(options: DiffOptions): Promise<void> {
+  const format = (options.format || 'text') as DiffFormat;
+
+  try {
+    if (!DIFF_FORMATS.includes(format)) {
+      throw new Error(`Invalid --format "${format}": expected one of ${DIFF_FORMATS.join(', ')}`);
+    }
+
+    const cwd = process.cwd();
+    const packagePath = findPackagePath(cwd, options.path);
+    const oldSnap = await loadApiSnapshot(options.old, { packagePath, cwd });
+    const newSnap = await loadApiSnapshot(options.new, { packagePath, cwd });
+    const result = diffApi(oldSnap.doc, newSnap.doc);
+
+    switch (format) {
+      case 'json':
+        console.log(JSON.stringify({ old: oldSnap.label, new: newSnap.label, ...result }, null, 2));
+        break;
+      case 'markdown':
+        console.log(formatApiDiffMarkdown(result, oldSnap.label, newSnap.label));
+        break;
+      default:
+        console.log(formatApiDiffText(result, oldSnap.label, newSnap.label));
+    }
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+}
+
+// ============================================================================
+// Formatters
+// ============================================================================
+
+/**
+ * Format a diff for the terminal.
+ */
+export function formatApiDiffText(result: ApiDiff, oldLabel: string, newLabel: string): string {
+  const lines = [chalk.bold(`API changes: ${oldLabel} → ${newLabel}`)];
+
+  if (result.changes.length === 0) {
+    lines.push(chalk.green('  No API changes.'));
+    return lines.join('\n');
+  }
+
+  lines.push(chalk.dim(`  ${summaryLine(result)}`));
+
+  const marks: Record<ApiChangeKind, string> = {
+    removed: chalk.red('-'),
+    changed: chalk.yellow('~'),
+    deprecated: chalk.magenta('!'),
+    added: chalk.green('+'),
+  };
+
+  for (const { kind, title } of GROUPS) {
+    const changes = result.changes.filter((c) => c.kind === kind);
+    if (changes.length === 0) continue;
+
+    lines.push('', chalk.bold(title));
+    for (const c of changes) {
+      lines.push(`  ${marks[kind]} ${chalk.dim(c.itemKind.padEnd(8))} ${chalk.cyan(c.path)}`);
+      if (c.kind === 'changed' && c.before !== c.after) {
+        if (c.before) lines.push(chalk.red(`      - ${c.before}`));
+        if (c.after) lines.push(chalk.green(`      + ${c.after}`));
+      } else if (c.before || c.after) {
+        lines.push(chalk.dim(`      ${c.after ?? c.before}`));
+      }
+      for (const d of c.details) {
+        lines.push(`      • ${d.message.replace(/`/g, '')}`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a diff as Markdown, e.g. for a PR comment.
+ */
+export function formatApiDiffMarkdown(result: ApiDiff, oldLabel: string, newLabel: string): string {
+  const lines = [`## API changes`, '', `\`${oldLabel}\` → \`${newLabel}\``, ''];
+
+  if (result.changes.length === 0) {
+    lines.push('No API changes.');
+    return lines.join('\n');
+  }
+
+  lines.push(summaryLine(result));
+
+  for (const { kind, title } of GROUPS) {
+    const changes = result.changes.filter((c) => c.kind === kind);
+    if (changes.length === 0) continue;
+
+    lines.push('', `### ${title}`, '');
+    for (const c of changes) {
+      lines.push(...markdownChange(c));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function markdownChange(c: ApiChange): string[] {
+  const lines = [`- **\`${c.path}\`** (${c.itemKind})`];
+
+  if (c.kind === 'changed' && c.before && c.after && c.before !== c.after) {
+    lines.push('  ```diff', `  - ${c.before}`, `  + ${c.after}`, '  ```');
+  } else if (c.before || c.after) {
+    const signature = (c.after ?? c.before)!;
+    lines.push('  ```mojo', ...signature.split('\n').map((l) => `  ${l}`), '  ```');
+  }
+
+  for (const d of c.details) {
+    lines.push(`  - ${d.message}`);
+  }
+  return lines;
+}
+
+function summaryLine(result: ApiDiff): string {
+  const counts = summarizeApiDiff(result);
+  return GROUPS.filter(({ kind }) => counts[kind] > 0)
+    .map(({ kind }) => `${counts[kind]} ${kind}`)
+    .join(', ');
+}
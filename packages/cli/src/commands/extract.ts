@@ -0,0 +1,78 @@
+/**
+ * Extract command - run `mojo doc` and save its JSON, for building later with
+ * `mojodoc build --from-json` on a machine without Mojo.
+ */
+
+import { resolve, isAbsolute, dirname } from 'path';
+import { mkdir, writeFile } from 'fs/promises';
+import chalk from 'chalk';
+import ora from 'ora';
+
+import { parseJson } from '@mojodoc/parser';
+import { runMojoDoc, checkMojoAvailable } from '../mojo-doc.js';
+import { loadConfig, findPackagePath, findProjectRoot } from '../config.js';
+
+export interface ExtractOptions {
+  path?: string;
+  /** File to write the JSON to; stdout when omitted or "-" */
+  output?: string;
+  config?: string;
+  diagnose?: boolean;
+  verbose?: boolean;
+  /** Fail on mojo doc JSON schema mismatches instead of filling defaults */
+  strict?: boolean;
+}
+
+export async function extract(options: ExtractOptions): Promise<void> {
+  const cwd = process.cwd();
+  const toStdout = !options.output || options.output === '-';
+  // Progress goes to stderr so stdout carries only the JSON.
+  const spinner = ora({ text: 'Checking mojo installation...', stream: process.stderr }).start();
+
+  if (!(await checkMojoAvailable(cwd))) {
+    spinner.fail(chalk.red('Mojo is not available. Make sure mojo is installed.'));
+    process.exit(1);
+  }
+
+  try {
+    const projectRoot = await findProjectRoot(findPackagePath(cwd, options.path));
+    const config = await loadConfig(options.config, projectRoot);
+    const packagePath =
+      !options.path && isAbsolute(config.package.path)
+        ? config.package.path
+        : findPackagePath(cwd, options.path);
+
+    spinner.text = `Extracting documentation from ${chalk.cyan(packagePath)}...`;
+    const { json, warnings } = await runMojoDoc({
+      path: packagePath,
+      diagnose: options.diagnose ?? false,
+      basePath: config.site.baseUrl,
+      cwd,
+    });
+
+    // Fail here rather than in a later build if mojo doc produced bad output.
+    parseJson(json, { mode: options.strict ? 'strict' : 'lenient' });
+
+    if (warnings.length > 0 && options.verbose) {
+      spinner.info(chalk.yellow(`${warnings.length} documentation warning(s)`));
+      for (const warning of warnings) {
+        console.error(chalk.dim(`  ${warning}`));
+      }
+    }
+
+    if (toStdout) {
+      spinner.stop();
+      process.stdout.write(json.endsWith('\n') ? json : `${json}\n`);
+      return;
+    }
+
+    const outFile = resolve(cwd, options.output!);
+    await mkdir(dirname(outFile), { recursive: true });
+    await writeFile(outFile, json);
+    spinner.succeed(chalk.green('Documentation JSON saved') + chalk.dim(` → ${outFile}`));
+  } catch (error) {
+    spinner.fail(chalk.red('Extract failed'));
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+  }
+}
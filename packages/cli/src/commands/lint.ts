@@ -0,0 +1,130 @@
+/**
+ * Lint command - check docstrings against function signatures.
+ */
+
+import { relative } from 'path';
+import chalk from 'chalk';
+
+import { lintDocstrings, LINT_RULES, type LintDiagnostic, type LintRule } from '@mojodoc/transform';
+import { loadMojoDocOutput, scanMojoFiles } from '../mojo-doc.js';
+import { findPackagePath } from '../config.js';
+
+export const LINT_FORMATS = ['text', 'sarif'] as const;
+export type LintFormat = (typeof LINT_FORMATS)[number];
+
+export interface LintCommandOptions {
+  path?: string;
+  /** Read saved `mojo doc` JSON instead of running mojo doc */
+  fromJson?: string;
+  format?: string;
+}
+
+export async function lint(options: LintCommandOptions): Promise<void> {
+  const cwd = process.cwd();
+  const format = (options.format || 'text') as LintFormat;
+
+  try {
+    if (!LINT_FORMATS.includes(format)) {
+      throw new Error(`Invalid --format "${format}": expected one of ${LINT_FORMATS.join(', ')}`);
+    }
+
+    const packagePath = findPackagePath(cwd, options.path);
+    const doc = await loadMojoDocOutput(packagePath, options.fromJson, cwd);
+    const diagnostics = lintDocstrings(doc, { moduleFiles: scanMojoFiles(packagePath) });
+
+    if (format === 'sarif') {
+      const srcRoot = relative(cwd, packagePath).split('\\').join('/');
+      console.log(JSON.stringify(formatLintSarif(diagnostics, srcRoot), null, 2));
+    } else {
+      console.log(formatLintText(diagnostics));
+    }
+
+    if (diagnostics.some((d) => d.severity === 'error')) {
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(2);
+  }
+}
+
+// ============================================================================
+// Formatters
+// ============================================================================
+
+/**
+ * Format diagnostics for the terminal, grouped by file.
+ */
+export function formatLintText(diagnostics: LintDiagnostic[]): string {
+  if (diagnostics.length === 0) {
+    return chalk.green('✓ No docstring problems found.');
+  }
+
+  const lines: string[] = [];
+  const byFile = new Map<string, LintDiagnostic[]>();
+  for (const d of diagnostics) {
+    byFile.set(d.file, [...(byFile.get(d.file) ?? []), d]);
+  }
+
+  for (const [file, list] of byFile) {
+    lines.push(chalk.underline(file));
+    for (const d of list) {
+      const where = d.line ? `${d.line}`.padStart(5) : '    -';
+      const severity = d.severity === 'error' ? chalk.red('error  ') : chalk.yellow('warning');
+      lines.push(
+        `${chalk.dim(where)}  ${severity}  ${d.message.replace(/`/g, '')}  ` +
+          chalk.dim(`${d.path}  ${d.rule}`)
+      );
+    }
+    lines.push('');
+  }
+
+  const errors = diagnostics.filter((d) => d.severity === 'error').length;
+  const warnings = diagnostics.length - errors;
+  const summary = `${errors} error(s), ${warnings} warning(s)`;
+  lines.push(errors > 0 ? chalk.red(`✗ ${summary}`) : chalk.yellow(`! ${summary}`));
+  return lines.join('\n');
+}
+
+/**
+ * Format diagnostics as a SARIF 2.1.0 log (e.g. for GitHub code scanning).
+ * File URIs are relative to the repository root via `srcRoot`.
+ */
+export function formatLintSarif(diagnostics: LintDiagnostic[], srcRoot: string = ''): object {
+  const rules = Object.keys(LINT_RULES) as LintRule[];
+  const prefix = srcRoot && srcRoot !== '.' ? `${srcRoot.replace(/\/$/, '')}/` : '';
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'mojodoc',
+            rules: rules.map((id) => ({
+              id,
+              shortDescription: { text: LINT_RULES[id].description },
+              defaultConfiguration: { level: LINT_RULES[id].severity },
+            })),
+          },
+        },
+        results: diagnostics.map((d) => ({
+          ruleId: d.rule,
+          ruleIndex: rules.indexOf(d.rule),
+          level: d.severity,
+          message: { text: `${d.path}: ${d.message}` },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: `${prefix}${d.file}` },
+                ...(d.line ? { region: { startLine: d.line } } : {}),
+              },
+              logicalLocations: [{ fullyQualifiedName: d.path, kind: 'function' }],
+            },
+          ],
+        })),
+      },
+    ],
+  };
+}
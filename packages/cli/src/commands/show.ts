@@ -0,0 +1,580 @@
+/**
+ * Show command - print the documentation of a package, module or item in the
+ * terminal, `go doc` style.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join, relative, resolve } from 'path';
+import chalk from 'chalk';
+
+import { parseJson } from '@mojodoc/parser';
+import {
+  transform,
+  aliasReExports,
+  editDistance,
+  type DocSite,
+  type Package,
+  type Module,
+  type FunctionItem,
+  type StructItem,
+  type TraitItem,
+  type AliasItem,
+  type ProcessedField,
+  type ProcessedOverload,
+  type ParsedDocstring,
+} from '@mojodoc/transform';
+import { runMojoDoc, readMojoDocJson, scanMojoFiles } from '../mojo-doc.js';
+import { loadConfig, findPackagePath, findProjectRoot, sourceLinkOptions } from '../config.js';
+
+export interface ShowCommandOptions {
+  /** Dotted path or partial name of the item (default: the root package) */
+  name?: string;
+  path?: string;
+  config?: string;
+  /** List the members of a package, module, struct or trait */
+  list?: boolean;
+  /** Read saved `mojo doc` JSON instead of running mojo doc */
+  fromJson?: string;
+  /** Reuse the `mojo doc` JSON of unchanged sources (default: true) */
+  cache?: boolean;
+}
+
+/**
+ * Anything `mojodoc show` can print.
+ */
+export type ShowTarget =
+  | { kind: 'package'; path: string; pkg: Package }
+  | { kind: 'module'; path: string; module: Module }
+  | { kind: 'function'; path: string; module: Module; item: FunctionItem }
+  | { kind: 'struct'; path: string; module: Module; item: StructItem }
+  | { kind: 'trait'; path: string; module: Module; item: TraitItem }
+  | { kind: 'alias'; path: string; module: Module; item: AliasItem }
+  | {
+      kind: 'method';
+      path: string;
+      module: Module;
+      owner: StructItem | TraitItem;
+      item: FunctionItem;
+    }
+  | { kind: 'field'; path: string; module: Module; owner: StructItem; item: ProcessedField };
+
+export interface ShowResolution {
+  target: ShowTarget | null;
+  /** Paths an ambiguous or misspelled name could mean, best first */
+  candidates: string[];
+}
+
+export interface ShowFormatOptions {
+  /** Documentation URL of an item's page and anchor, if the site is available */
+  docsUrl?: (urlPath: string, anchor: string) => string | null;
+}
+
+export async function show(options: ShowCommandOptions): Promise<void> {
+  const cwd = process.cwd();
+
+  try {
+    const packagePath = findPackagePath(cwd, options.path);
+    const projectRoot = await findProjectRoot(packagePath);
+    const config = await loadConfig(options.config, projectRoot);
+    const moduleFiles = scanMojoFiles(packagePath);
+
+    let json: string;
+    if (options.fromJson) {
+      json = await readMojoDocJson(options.fromJson, cwd);
+    } else {
+      const cacheDir = join(projectRoot, 'target', '.mojodoc');
+      json = await loadCachedMojoDoc(packagePath, moduleFiles, cacheDir, options.cache ?? true);
+    }
+
+    const { repository } = config.site;
+    const site = transform(parseJson(json), {
+      name: config.package.name,
+      baseUrl: config.site.baseUrl,
+      repository,
+      initFileContent: moduleFiles.get('__init__.mojo'),
+      moduleFiles,
+      sourceLinks: repository
+        ? sourceLinkOptions(
+            { ...config, site: { ...config.site, localSource: false } },
+            packagePath
+          )
+        : undefined,
+    });
+
+    const name = options.name || site.rootPackage.fullPath;
+    const { target, candidates } = resolveShowTarget(collectShowTargets(site), name);
+    if (!target) {
+      console.error(formatNotFound(name, candidates));
+      process.exit(1);
+    }
+
+    const outDir = resolve(projectRoot, config.output.dir);
+    const docsUrl = (urlPath: string, anchor: string): string | null => {
+      const page = `${urlPath}/index.html${anchor ? `#${anchor}` : ''}`;
+      if (/^https?:\/\//.test(config.site.baseUrl)) return `${config.site.baseUrl}${page}`;
+      return existsSync(join(outDir, urlPath, 'index.html'))
+        ? relative(cwd, join(outDir, page))
+        : null;
+    };
+
+    console.log(options.list ? formatShowList(target) : formatShowTarget(target, { docsUrl }));
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(2);
+  }
+}
+
+/**
+ * Register every package, module and item of a site under its dotted path,
+ * plus the `pkg.Item` paths of items re-exported from `__init__.mojo`.
+ */
+export function collectShowTargets(site: DocSite): Map<string, ShowTarget> {
+  const targets = new Map<string, ShowTarget>();
+  const addPackage = (pkg: Package) => {
+    targets.set(pkg.fullPath, { kind: 'package', path: pkg.fullPath, pkg });
+    pkg.subpackages.forEach(addPackage);
+  };
+  addPackage(site.rootPackage);
+
+  for (const module of site.allModules) {
+    const at = (name: string) => `${module.fullPath}.${name}`;
+    targets.set(module.fullPath, { kind: 'module', path: module.fullPath, module });
+
+    for (const item of module.functions) {
+      targets.set(at(item.name), { kind: 'function', path: at(item.name), module, item });
+    }
+    for (const item of module.structs) {
+      targets.set(at(item.name), { kind: 'struct', path: at(item.name), module, item });
+      for (const method of item.methods) {
+        const path = `${at(item.name)}.${method.name}`;
+        targets.set(path, { kind: 'method', path, module, owner: item, item: method });
+      }
+      for (const field of item.fields) {
+        const path = `${at(item.name)}.${field.name}`;
+        targets.set(path, { kind: 'field', path, module, owner: item, item: field });
+      }
+    }
+    for (const item of module.traits) {
+      targets.set(at(item.name), { kind: 'trait', path: at(item.name), module, item });
+      for (const method of item.methods) {
+        const path = `${at(item.name)}.${method.name}`;
+        targets.set(path, { kind: 'method', path, module, owner: item, item: method });
+      }
+    }
+    for (const item of module.aliases) {
+      targets.set(at(item.name), { kind: 'alias', path: at(item.name), module, item });
+    }
+  }
+
+  const reExports = site.rootPackage.publicApi.flatMap((section) => section.items);
+  aliasReExports(targets, site.rootPackage.fullPath, reExports);
+  return targets;
+}
+
+/**
+ * Find what a name refers to: its exact path, else the paths ending in it
+ * (`TcpStream.connect`, `connect`) in any letter case, else the closest
+ * spellings of its last segments. Ambiguous names resolve to candidates.
+ */
+export function resolveShowTarget(targets: Map<string, ShowTarget>, name: string): ShowResolution {
+  const exact = targets.get(name);
+  if (exact) return { target: exact, candidates: [] };
+
+  const query = name.toLowerCase();
+  for (const fold of [false, true]) {
+    const wanted = fold ? query : name;
+    const matches = uniqueTargets(
+      [...targets].filter(([path]) => {
+        const p = fold ? path.toLowerCase() : path;
+        return p === wanted || p.endsWith(`.${wanted}`);
+      })
+    );
+    if (matches.length === 1) return { target: matches[0], candidates: [] };
+    if (matches.length > 1) return { target: null, candidates: matches.map((t) => t.path) };
+  }
+
+  // Partial or misspelled: compare with as many trailing segments as given
+  const depth = name.split('.').length;
+  const maxEdits = Math.max(1, Math.floor(query.length / 4));
+  const close = uniqueTargets([...targets])
+    .map((target) => {
+      const tail = target.path.toLowerCase().split('.').slice(-depth).join('.');
+      return { target, distance: tail.includes(query) ? 0 : editDistance(query, tail, maxEdits) };
+    })
+    .filter((c) => c.distance <= maxEdits)
+    .sort((a, b) => a.distance - b.distance || a.target.path.length - b.target.path.length);
+
+  if (close.length === 1) return { target: close[0].target, candidates: [] };
+  return { target: null, candidates: close.slice(0, MAX_CANDIDATES).map((c) => c.target.path) };
+}
+
+// ============================================================================
+// Formatters
+// ============================================================================
+
+/**
+ * Format the documentation of a target for the terminal.
+ */
+export function formatShowTarget(target: ShowTarget, options: ShowFormatOptions = {}): string {
+  const lines = [`${chalk.dim(KIND_LABELS[target.kind])} ${chalk.bold(target.path)}`, ''];
+
+  switch (target.kind) {
+    case 'package':
+      lines.push(...indent(prose(target.pkg.description || target.pkg.summary)), '');
+      lines.push(...listPackage(target.pkg));
+      break;
+    case 'module':
+      lines.push(...indent(prose(target.module.description || target.module.summary)), '');
+      lines.push(...listModule(target.module));
+      break;
+    case 'function':
+    case 'method':
+      for (const overload of target.item.overloads) {
+        lines.push(...formatOverload(overload), '');
+      }
+      break;
+    case 'struct':
+      lines.push(...indent([signature(target.item.signature)]), '');
+      lines.push(...deprecation(target.item.deprecated));
+      lines.push(...formatDocstring(target.item.docstring, target.item.summary));
+      lines.push(...listStruct(target.item));
+      if (target.item.traitImpls.length > 0) {
+        lines.push(...sectionTitle('Implements'));
+        lines.push(
+          ...indent([target.item.traitImpls.map((t) => chalk.cyan(t.name)).join(', ')], 6)
+        );
+        lines.push('');
+      }
+      break;
+    case 'trait':
+      lines.push(...indent([signature(target.item.signature)]), '');
+      lines.push(...deprecation(target.item.deprecated));
+      lines.push(...formatDocstring(target.item.docstring, target.item.summary));
+      lines.push(...listMembers('Methods', target.item.methods.map(methodLine)));
+      lines.push(
+        ...listMembers(
+          'Implemented by',
+          target.item.implementors.map((s) => [chalk.cyan(s.fullPath), s.summary])
+        )
+      );
+      break;
+    case 'alias':
+      lines.push(...indent([signature(target.item.signature)]), '');
+      lines.push(...deprecation(target.item.deprecated));
+      lines.push(...formatDocstring(target.item.docstring, target.item.summary));
+      break;
+    case 'field':
+      lines.push(...indent([signature(`${target.item.name}: ${target.item.type}`)]), '');
+      lines.push(...indent(prose(target.item.description || target.item.summary)), '');
+      break;
+  }
+
+  lines.push(...formatLinks(target, options));
+  return lines
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trimEnd();
+}
+
+/**
+ * Format the members of a package, module, struct or trait as a listing; other
+ * targets print their documentation.
+ */
+export function formatShowList(target: ShowTarget): string {
+  const header = `${chalk.dim(KIND_LABELS[target.kind])} ${chalk.bold(target.path)}`;
+  let lines: string[];
+  switch (target.kind) {
+    case 'package':
+      lines = listPackage(target.pkg);
+      break;
+    case 'module':
+      lines = listModule(target.module);
+      break;
+    case 'struct':
+      lines = listStruct(target.item);
+      break;
+    case 'trait':
+      lines = listMembers('Methods', target.item.methods.map(methodLine));
+      break;
+    default:
+      return formatShowTarget(target);
+  }
+  return [header, '', ...lines].join('\n').trimEnd();
+}
+
+/**
+ * Message for a name that resolves to nothing, or to several items.
+ */
+export function formatNotFound(name: string, candidates: string[]): string {
+  if (candidates.length === 0) return chalk.red(`No documentation found for "${name}"`);
+  const lines = [chalk.yellow(`"${name}" is ambiguous or unknown. Did you mean:`)];
+  for (const path of candidates) lines.push(`  ${chalk.cyan(path)}`);
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+const MAX_CANDIDATES = 10;
+
+const KIND_LABELS: Record<ShowTarget['kind'], string> = {
+  package: 'package',
+  module: 'module',
+  function: 'fn',
+  method: 'method',
+  struct: 'struct',
+  trait: 'trait',
+  alias: 'alias',
+  field: 'field',
+};
+
+/** Sections shown from structured fields (tables, notices) instead. */
+const STRUCTURED_SECTIONS = new Set(['args', 'parameters', 'returns', 'raises', 'deprecated']);
+
+/**
+ * The `mojo doc` JSON of a package, run once per version of its sources and
+ * cached under `cacheDir` keyed by a hash of their contents.
+ */
+async function loadCachedMojoDoc(
+  packagePath: string,
+  moduleFiles: Map<string, string>,
+  cacheDir: string,
+  useCache: boolean
+): Promise<string> {
+  const hash = createHash('sha1');
+  for (const [file, content] of [...moduleFiles].sort(([a], [b]) => a.localeCompare(b))) {
+    hash.update(file).update('\0').update(content).update('\0');
+  }
+  const key = createHash('sha1').update(packagePath).digest('hex').slice(0, 8);
+  const cacheFile = join(cacheDir, `${key}-${hash.digest('hex').slice(0, 12)}.json`);
+  if (useCache && existsSync(cacheFile)) return readFileSync(cacheFile, 'utf-8');
+
+  const { json } = await runMojoDoc({ path: packagePath, diagnose: false, cwd: process.cwd() });
+  mkdirSync(cacheDir, { recursive: true });
+  for (const stale of readdirSync(cacheDir).filter((f) => f.startsWith(`${key}-`))) {
+    rmSync(join(cacheDir, stale), { force: true });
+  }
+  writeFileSync(cacheFile, json);
+  return json;
+}
+
+/** Targets in order of first appearance, each once (re-exports share targets). */
+function uniqueTargets(entries: Array<[string, ShowTarget]>): ShowTarget[] {
+  return [...new Set(entries.map(([, target]) => target))];
+}
+
+function formatOverload(overload: ProcessedOverload): string[] {
+  const keyword = overload.isDef ? 'def' : 'fn';
+  const lines = [...indent([signature(`${keyword} ${overload.signature}`)]), ''];
+  lines.push(...deprecation(overload.deprecated));
+  lines.push(...formatDocstring(overload.docstring, overload.summary));
+
+  const args = overload.args.filter((a) => a.name !== 'self');
+  if (args.length > 0) {
+    lines.push(...sectionTitle('Args'));
+    lines.push(...table(args.map((a) => [a.name, a.type, inline(a.description)])), '');
+  }
+  const params = overload.typeParams.filter((p) => p.description);
+  if (params.length > 0) {
+    lines.push(...sectionTitle('Parameters'));
+    lines.push(...table(params.map((p) => [p.name, p.type, inline(p.description)])), '');
+  }
+  if (overload.returns && (overload.returns.description || overload.returns.type)) {
+    lines.push(...sectionTitle('Returns'));
+    lines.push(...table([[overload.returns.type, inline(overload.returns.description)]]), '');
+  }
+  if (overload.raises) {
+    lines.push(...sectionTitle('Raises'));
+    lines.push(...indent(prose(overload.raises.description), 6), '');
+  }
+  if (overload.constraints) {
+    lines.push(...sectionTitle('Constraints'));
+    lines.push(...indent([chalk.cyan(overload.constraints)], 6), '');
+  }
+  return lines;
+}
+
+/**
+ * Summary, body and free-form sections (Examples, Notes, See Also, ...).
+ */
+function formatDocstring(docstring: ParsedDocstring, summary: string): string[] {
+  const lines: string[] = [];
+  if (summary) lines.push(...indent(prose(summary)), '');
+  if (docstring.body) lines.push(...indent(prose(docstring.body)), '');
+
+  for (const section of docstring.sections) {
+    if (STRUCTURED_SECTIONS.has(section.kind)) continue;
+    lines.push(...sectionTitle(section.title));
+    if (section.entries.length > 0) {
+      lines.push(...table(section.entries.map((e) => [e.name, inline(e.description)])));
+    } else {
+      lines.push(...indent(prose(section.content), 6));
+    }
+    lines.push('');
+  }
+  return lines;
+}
+
+function formatLinks(target: ShowTarget, options: ShowFormatOptions): string[] {
+  const links: Array<[string, string]> = [];
+  const source =
+    target.kind === 'package' || target.kind === 'field'
+      ? null
+      : target.kind === 'module'
+        ? target.module.sourceUrl
+        : target.item.sourceUrl;
+  if (source) links.push(['Source', source]);
+
+  const page = docsPage(target);
+  const docs = page && options.docsUrl?.(page.urlPath, page.anchor);
+  if (docs) links.push(['Docs', docs]);
+
+  return links.length > 0
+    ? [...links.map(([label, url]) => `${chalk.dim(`${label}:`.padEnd(8))}${chalk.underline(url)}`)]
+    : [];
+}
+
+function docsPage(target: ShowTarget): { urlPath: string; anchor: string } | null {
+  switch (target.kind) {
+    case 'package':
+      return { urlPath: target.pkg.fullPath.replace(/\./g, '/'), anchor: '' };
+    case 'module':
+      return { urlPath: target.module.urlPath, anchor: '' };
+    case 'method':
+      return {
+        urlPath: target.module.urlPath,
+        anchor: `${target.owner.anchor}-${target.item.anchor}`,
+      };
+    case 'field':
+      return {
+        urlPath: target.module.urlPath,
+        anchor: `${target.owner.anchor}-${target.item.name}`,
+      };
+    default:
+      return { urlPath: target.module.urlPath, anchor: target.item.anchor };
+  }
+}
+
+function listPackage(pkg: Package): string[] {
+  const prefix = `${pkg.fullPath}.`;
+  return [
+    ...listMembers(
+      'Public API',
+      pkg.publicApi.flatMap((s) => s.items).map((i) => [chalk.cyan(i.name), i.summary])
+    ),
+    ...listMembers(
+      'Modules',
+      pkg.modules
+        .filter((m) => m.name !== '__init__')
+        .map((m) => [chalk.cyan(m.fullPath.replace(prefix, '')), m.summary])
+    ),
+    ...listMembers(
+      'Packages',
+      pkg.subpackages.map((p) => [chalk.cyan(p.fullPath.replace(prefix, '')), p.summary])
+    ),
+  ];
+}
+
+function listModule(mod: Module): string[] {
+  return [
+    ...listMembers('Functions', mod.functions.map(methodLine)),
+    ...listMembers(
+      'Structs',
+      mod.structs.map((s) => [signature(s.signature), s.summary])
+    ),
+    ...listMembers(
+      'Traits',
+      mod.traits.map((t) => [signature(t.signature), t.summary])
+    ),
+    ...listMembers(
+      'Aliases',
+      mod.aliases.map((a) => [signature(a.signature), a.summary])
+    ),
+  ];
+}
+
+function listStruct(struct: StructItem): string[] {
+  return [
+    ...listMembers(
+      'Fields',
+      struct.fields.map((f) => [signature(`${f.name}: ${f.type}`), f.summary])
+    ),
+    ...listMembers('Methods', struct.methods.map(methodLine)),
+  ];
+}
+
+/** First overload's signature and summary, noting any other overloads. */
+function methodLine(fn: FunctionItem): [string, string] {
+  const [first] = fn.overloads;
+  const more = fn.overloads.length > 1 ? chalk.dim(` (+${fn.overloads.length - 1} overloads)`) : '';
+  return [signature(`${first.isDef ? 'def' : 'fn'} ${first.signature}`) + more, first.summary];
+}
+
+/** A titled list of `[label, summary]` lines, with the summary underneath. */
+function listMembers(title: string, rows: Array<[string, string]>): string[] {
+  if (rows.length === 0) return [];
+  const lines = sectionTitle(title);
+  for (const [label, summary] of rows) {
+    lines.push(`      ${label}`);
+    if (summary) lines.push(`          ${chalk.dim(inline(summary))}`);
+  }
+  lines.push('');
+  return lines;
+}
+
+function sectionTitle(title: string): string[] {
+  return [`    ${chalk.bold(title)}`];
+}
+
+function deprecation(message: string | null): string[] {
+  return message ? [...indent([chalk.yellow(`Deprecated: ${inline(message)}`)]), ''] : [];
+}
+
+function signature(text: string): string {
+  return chalk.cyan(text);
+}
+
+/**
+ * Rows of columns, all but the last padded to the widest cell; the first
+ * column is bold.
+ */
+function table(rows: string[][]): string[] {
+  const widths = rows[0].map((_, col) => Math.max(...rows.map((row) => (row[col] || '').length)));
+  return rows.map((row) => {
+    const cells = row.map((cell, col) => (col < row.length - 1 ? cell.padEnd(widths[col]) : cell));
+    return `      ${chalk.bold(cells[0])}  ${cells.slice(1).join('  ')}`.trimEnd();
+  });
+}
+
+function indent(lines: string[], width = 4): string[] {
+  return lines.map((line) => (line ? `${' '.repeat(width)}${line}` : line));
+}
+
+/**
+ * Markdown as terminal lines: fenced code kept verbatim in color, inline
+ * markup replaced by ANSI styles.
+ */
+function prose(markdown: string): string[] {
+  const lines: string[] = [];
+  let inCode = false;
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCode = !inCode;
+      continue;
+    }
+    lines.push(inCode ? chalk.yellow(`  ${line}`) : inline(line));
+  }
+  return lines;
+}
+
+function inline(text: string): string {
+  return text
+    .replace(/\[`?([^\]`]+)`?\]\(([^)]+)\)/g, (_, label: string, url: string) =>
+      url.startsWith('http') ? `${label} ${chalk.dim(`<${url}>`)}` : label
+    )
+    .replace(/\[`([^`\]]+)`\]/g, (_, name: string) => chalk.cyan(name))
+    .replace(/`([^`]+)`/g, (_, code: string) => chalk.cyan(code))
+    .replace(/\*\*([^*]+)\*\*/g, (_, bold: string) => chalk.bold(bold));
+}
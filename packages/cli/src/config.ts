@@ -2,25 +2,52 @@
  * Configuration loading and defaults.
  */
 
-import { existsSync } from 'fs';
+import { existsSync, realpathSync } from 'fs';
 import { readFile } from 'fs/promises';
-import { resolve, join, basename } from 'path';
+import { resolve, join, basename, dirname, relative, sep } from 'path';
 import { execSync } from 'child_process';
+import { parse as parseToml, stringify as stringifyToml } from 'smol-toml';
+import {
+  SOURCE_FORGES,
+  SOURCE_URL_TEMPLATES,
+  editDistance,
+  localSourceLinks,
+  type SourceForge,
+  type SourceLinkOptions,
+} from '@mojodoc/transform';
+
+/** Output backends selectable with `--format`. */
+export const OUTPUT_FORMATS = ['html', 'markdown', 'mdx', 'json'] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
 
 export interface ModocConfig {
   package: {
     name: string;
     version: string;
+    /** Relative to the project root when detected, absolute when set in a config file. */
     path: string;
   };
   output: {
     dir: string;
+    format: OutputFormat;
+    /** Keep pre-rendered HTML strings in JSON output. */
+    includeHtml: boolean;
+    /** Split the HTML search index into per-letter shards. */
+    searchShards: boolean;
   };
   site: {
     title: string;
     description: string;
     baseUrl: string;
     repository?: string;
+    /** Git ref source links point at (default: the tag or commit at HEAD) */
+    sourceRef?: string;
+    /** Forge whose URL scheme source links use (default: detected from the repository) */
+    sourceForge?: SourceForge;
+    /** Custom source link template with {repo}, {ref}, {path}, {start} and {end} */
+    sourceUrl?: string;
+    /** Link `[src]` to the site's own source pages instead of the repository */
+    localSource: boolean;
     editLink: boolean;
   };
   theme: {
@@ -36,11 +63,15 @@ const DEFAULT_CONFIG: ModocConfig = {
   },
   output: {
     dir: 'target/doc',
+    format: 'html',
+    includeHtml: false,
+    searchShards: false,
   },
   site: {
     title: 'API Documentation',
     description: '',
     baseUrl: '/',
+    localSource: false,
     editLink: false,
   },
   theme: {
@@ -48,85 +79,476 @@ const DEFAULT_CONFIG: ModocConfig = {
   },
 };
 
+/** Standalone config file looked up in the project root. */
+export const CONFIG_FILE_NAME = 'mojodoc.toml';
+
+/**
+ * Error raised when a config file cannot be read or fails validation.
+ * `issues` holds one line per problem so all of them can be reported at once.
+ */
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    public source: string,
+    public issues: string[] = []
+  ) {
+    super(issues.length > 0 ? `${message}\n${issues.map((i) => `  - ${i}`).join('\n')}` : message);
+    this.name = 'ConfigError';
+  }
+}
+
+// ============================================================================
+// Config file schema
+// ============================================================================
+
+type KeySpec = 'string' | 'boolean' | readonly string[];
+
+/**
+ * Accepted keys per section, spelled the way they appear in TOML (kebab-case,
+ * like pixi.toml). Each key maps onto the camelCase field of `ModocConfig`.
+ */
+const CONFIG_SCHEMA: Record<keyof ModocConfig, Record<string, KeySpec>> = {
+  package: { name: 'string', version: 'string', path: 'string' },
+  output: {
+    dir: 'string',
+    format: OUTPUT_FORMATS,
+    'include-html': 'boolean',
+    'search-shards': 'boolean',
+  },
+  site: {
+    title: 'string',
+    description: 'string',
+    'base-url': 'string',
+    repository: 'string',
+    'source-ref': 'string',
+    'source-forge': SOURCE_FORGES,
+    'source-url': 'string',
+    'local-source': 'boolean',
+    'edit-link': 'boolean',
+  },
+  theme: { preset: ['default', 'minimal'] },
+};
+
+/** A config with every field optional, as read from a single file. */
+export type PartialModocConfig = {
+  [S in keyof ModocConfig]?: Partial<ModocConfig[S]>;
+};
+
+/**
+ * Validate a `[tool.mojodoc]` / mojodoc.toml table against the schema.
+ * Collects every problem and throws a single ConfigError listing them.
+ */
+export function validateConfigTable(table: unknown, source: string): PartialModocConfig {
+  if (!isTable(table)) {
+    throw new ConfigError(`Invalid mojodoc config in ${source}`, source, [
+      'expected a table of sections (package, output, site, theme)',
+    ]);
+  }
+
+  const issues: string[] = [];
+  const result: Record<string, Record<string, unknown>> = {};
+  const sections = Object.keys(CONFIG_SCHEMA);
+
+  for (const [sectionName, sectionValue] of Object.entries(table)) {
+    if (!(sectionName in CONFIG_SCHEMA)) {
+      issues.push(`unknown section "${sectionName}"${suggest(sectionName, sections)}`);
+      continue;
+    }
+    if (!isTable(sectionValue)) {
+      issues.push(`"${sectionName}" must be a table, got ${describe(sectionValue)}`);
+      continue;
+    }
+
+    const schema = CONFIG_SCHEMA[sectionName as keyof ModocConfig];
+    const fields: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(sectionValue)) {
+      const spec = schema[key];
+      const keyPath = `${sectionName}.${key}`;
+      if (!spec) {
+        issues.push(`unknown key "${keyPath}"${suggest(key, Object.keys(schema))}`);
+        continue;
+      }
+
+      if (Array.isArray(spec)) {
+        if (typeof value !== 'string' || !spec.includes(value)) {
+          issues.push(
+            `"${keyPath}" must be one of ${spec.map((v) => `"${v}"`).join(', ')}, got ${describe(value)}`
+          );
+          continue;
+        }
+      } else if (typeof value !== spec) {
+        issues.push(`"${keyPath}" must be a ${spec}, got ${describe(value)}`);
+        continue;
+      }
+
+      if (keyPath === 'site.base-url' && !(value as string).endsWith('/')) {
+        issues.push(`"${keyPath}" must end with "/" (e.g. "/mypkg/"), got ${describe(value)}`);
+        continue;
+      }
+
+      fields[toCamelCase(key)] = value;
+    }
+
+    result[sectionName] = fields;
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(`Invalid mojodoc config in ${source}`, source, issues);
+  }
+
+  return result as PartialModocConfig;
+}
+
+/**
+ * List the config files that apply to a project, lowest precedence first.
+ *
+ * An explicit `--config` path replaces discovery. Otherwise `[tool.mojodoc]`
+ * in pixi.toml is read first and a standalone mojodoc.toml overrides it.
+ */
+export function findConfigFiles(configPath: string | undefined, cwd: string): string[] {
+  if (configPath) {
+    return [resolve(process.cwd(), configPath)];
+  }
+
+  const files: string[] = [];
+  const pixiPath = resolve(cwd, 'pixi.toml');
+  if (existsSync(pixiPath)) files.push(pixiPath);
+  const standalonePath = resolve(cwd, CONFIG_FILE_NAME);
+  if (existsSync(standalonePath)) files.push(standalonePath);
+  return files;
+}
+
+/**
+ * Read a single config file and return its validated mojodoc settings.
+ *
+ * For pixi.toml only the `[tool.mojodoc]` table is considered; any other file
+ * is treated as a standalone mojodoc.toml. Relative `package.path` and
+ * `output.dir` values are resolved against the file's directory.
+ */
+export async function loadConfigFile(filePath: string): Promise<PartialModocConfig> {
+  if (!/\.toml$/i.test(filePath)) {
+    throw new ConfigError(
+      `Unsupported config file ${filePath}: only TOML files (mojodoc.toml, pixi.toml) are supported`,
+      filePath
+    );
+  }
+  if (!existsSync(filePath)) {
+    throw new ConfigError(`Config file not found: ${filePath}`, filePath);
+  }
+
+  const document = await readToml(filePath);
+  const isPixi = basename(filePath) === 'pixi.toml';
+  const table = isPixi ? getPath(document, ['tool', 'mojodoc']) : document;
+
+  if (table === undefined) return {};
+
+  const config = validateConfigTable(table, filePath);
+
+  const fileDir = dirname(filePath);
+  if (config.package?.path) config.package.path = resolve(fileDir, config.package.path);
+  if (config.output?.dir) config.output.dir = resolve(fileDir, config.output.dir);
+
+  return config;
+}
+
 /**
  * Load configuration from various sources.
+ *
+ * Precedence (lowest to highest): built-in defaults, metadata detected from
+ * pixi.toml and git, `[tool.mojodoc]` in pixi.toml, mojodoc.toml (or the file
+ * passed with `--config`). CLI flags are applied afterwards with
+ * `applyCliOverrides`.
  */
 export async function loadConfig(
-  _configPath?: string,
+  configPath?: string,
   cwd: string = process.cwd()
 ): Promise<ModocConfig> {
-  const config = { ...DEFAULT_CONFIG };
+  const config = structuredClone(DEFAULT_CONFIG);
 
   // Try to load from pixi.toml for package info
-  const pixiPath = resolve(cwd, 'pixi.toml');
-  if (existsSync(pixiPath)) {
-    try {
-      const pixiContent = await readFile(pixiPath, 'utf-8');
-      const nameMatch = pixiContent.match(/name\s*=\s*"([^"]+)"/);
-      const versionMatch = pixiContent.match(/version\s*=\s*"([^"]+)"/);
+  const { name, version } = await readPixiMetadata(cwd);
+  if (name) {
+    config.package.name = name;
+  }
+  if (version) {
+    config.package.version = version;
+  }
 
-      if (nameMatch) {
-        config.package.name = nameMatch[1];
-        config.site.title = `${nameMatch[1]} - API Documentation`;
-      }
-      if (versionMatch) {
-        config.package.version = versionMatch[1];
-      }
-    } catch {
-      // Ignore errors reading pixi.toml
-    }
+  // Merge config files in precedence order
+  const fileConfig: PartialModocConfig = {};
+  for (const file of findConfigFiles(configPath, cwd)) {
+    mergeConfig(fileConfig, await loadConfigFile(file));
   }
 
+  Object.assign(config.package, fileConfig.package);
+
   // If no name found, use directory name
   if (!config.package.name) {
     config.package.name = basename(cwd);
   }
+  config.site.title = `${config.package.name} - API Documentation`;
 
   // Try to detect package path
-  const possiblePaths = [
-    config.package.name, // Same as package name
-    'src',
-    '.',
-  ];
+  if (!fileConfig.package?.path) {
+    const possiblePaths = [
+      config.package.name, // Same as package name
+      'src',
+      '.',
+    ];
 
-  for (const p of possiblePaths) {
-    const fullPath = resolve(cwd, p);
-    if (existsSync(fullPath) && existsSync(join(fullPath, '__init__.mojo'))) {
-      config.package.path = p;
-      break;
+    for (const p of possiblePaths) {
+      const fullPath = resolve(cwd, p);
+      if (existsSync(fullPath) && existsSync(join(fullPath, '__init__.mojo'))) {
+        config.package.path = p;
+        break;
+      }
     }
   }
 
+  Object.assign(config.output, fileConfig.output);
+  Object.assign(config.site, fileConfig.site);
+  Object.assign(config.theme, fileConfig.theme);
+
   // Try to detect repository URL from git remote
   if (!config.site.repository) {
+    config.site.repository = detectRepository(cwd);
+  }
+
+  return config;
+}
+
+/**
+ * The package version pixi.toml or a config file declares, without the
+ * built-in default; undefined when none does.
+ */
+export async function readDeclaredVersion(
+  configPath?: string,
+  cwd: string = process.cwd()
+): Promise<string | undefined> {
+  let { version } = await readPixiMetadata(cwd);
+  for (const file of findConfigFiles(configPath, cwd)) {
+    version = (await loadConfigFile(file)).package?.version ?? version;
+  }
+  return version;
+}
+
+/**
+ * CLI flags that override values from config files.
+ */
+export interface ConfigOverrides {
+  outDir?: string;
+  format?: string;
+  includeHtml?: boolean;
+  searchShards?: boolean;
+  baseUrl?: string;
+  repository?: string;
+  sourceRef?: string;
+  localSource?: boolean;
+}
+
+/**
+ * Apply CLI flag overrides on top of a loaded config.
+ */
+export function applyCliOverrides(config: ModocConfig, overrides: ConfigOverrides): ModocConfig {
+  const merged = structuredClone(config);
+  if (overrides.outDir) merged.output.dir = overrides.outDir;
+  if (overrides.format) {
+    if (!(OUTPUT_FORMATS as readonly string[]).includes(overrides.format)) {
+      throw new ConfigError(
+        `Invalid --format "${overrides.format}": expected one of ${OUTPUT_FORMATS.join(', ')}`,
+        'command line'
+      );
+    }
+    merged.output.format = overrides.format as OutputFormat;
+  }
+  if (overrides.includeHtml) merged.output.includeHtml = true;
+  if (overrides.searchShards) merged.output.searchShards = true;
+  if (overrides.baseUrl) merged.site.baseUrl = overrides.baseUrl;
+  if (overrides.repository) merged.site.repository = overrides.repository;
+  if (overrides.sourceRef) merged.site.sourceRef = overrides.sourceRef;
+  if (overrides.localSource) merged.site.localSource = true;
+  return merged;
+}
+
+/**
+ * Serialize a config back to the mojodoc.toml format (kebab-case keys).
+ */
+export function stringifyConfig(config: ModocConfig): string {
+  const table: Record<string, Record<string, unknown>> = {};
+
+  for (const section of Object.keys(CONFIG_SCHEMA) as Array<keyof ModocConfig>) {
+    const values = config[section] as Record<string, unknown>;
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(CONFIG_SCHEMA[section])) {
+      const value = values[toCamelCase(key)];
+      if (value !== undefined) out[key] = value;
+    }
+    table[section] = out;
+  }
+
+  return stringifyToml(table);
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+async function readToml(filePath: string): Promise<Record<string, unknown>> {
+  const content = await readFile(filePath, 'utf-8');
+  try {
+    return parseToml(content);
+  } catch (e) {
+    throw new ConfigError(`Invalid TOML in ${filePath}: ${(e as Error).message}`, filePath);
+  }
+}
+
+function detectRepository(cwd: string): string | undefined {
+  try {
+    const gitRemote = execSync('git remote get-url origin', {
+      cwd,
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'ignore'],
+    }).trim();
+
+    // Convert SSH URLs to HTTPS
+    // git@github.com:user/repo.git -> https://github.com/user/repo
+    let repoUrl = gitRemote;
+    if (repoUrl.startsWith('git@')) {
+      repoUrl = repoUrl
+        .replace('git@', 'https://')
+        .replace(':', '/')
+        .replace(/\.git$/, '');
+    } else if (repoUrl.endsWith('.git')) {
+      repoUrl = repoUrl.replace(/\.git$/, '');
+    }
+
+    return repoUrl;
+  } catch {
+    // Not a git repo or no remote, ignore
+    return undefined;
+  }
+}
+
+/**
+ * Git ref for source links: the tag at HEAD when there is one, else the
+ * commit SHA.
+ */
+export function detectSourceRef(cwd: string): string | undefined {
+  for (const command of ['git describe --tags --exact-match HEAD', 'git rev-parse HEAD']) {
     try {
-      const gitRemote = execSync('git remote get-url origin', {
+      return execSync(command, {
         cwd,
         encoding: 'utf-8',
         stdio: ['pipe', 'pipe', 'ignore'],
       }).trim();
-
-      // Convert SSH URLs to HTTPS
-      // git@github.com:user/repo.git -> https://github.com/user/repo
-      let repoUrl = gitRemote;
-      if (repoUrl.startsWith('git@')) {
-        repoUrl = repoUrl
-          .replace('git@', 'https://')
-          .replace(':', '/')
-          .replace(/\.git$/, '');
-      } else if (repoUrl.endsWith('.git')) {
-        repoUrl = repoUrl.replace(/\.git$/, '');
-      }
-
-      config.site.repository = repoUrl;
     } catch {
-      // Not a git repo or no remote, ignore
+      // No tag at HEAD (or not a git repo); try the next command
     }
   }
+  return undefined;
+}
 
-  // TODO: Load from mojodoc.config.ts if configPath provided
+/**
+ * Path of `dir` inside its git checkout ('' at the root), with `/` separators.
+ */
+export function detectRepoPrefix(dir: string): string | undefined {
+  try {
+    const root = execSync('git rev-parse --show-toplevel', {
+      cwd: dir,
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'ignore'],
+    }).trim();
+    return relative(realpathSync(root), realpathSync(dir)).split(sep).join('/');
+  } catch {
+    // Not a git repo, ignore
+    return undefined;
+  }
+}
 
-  return config;
+/**
+ * Where `[src]` links point: the configured ref and template, falling back to
+ * the ref at HEAD and the sources' directory inside the git checkout. HTML
+ * sites without a repository (or with `local-source`) link to their own
+ * rendered source pages.
+ */
+export function sourceLinkOptions(
+  config: ModocConfig,
+  sourceDir: string
+): SourceLinkOptions | undefined {
+  const { repository, sourceRef, sourceForge, sourceUrl, localSource } = config.site;
+  if (config.output.format === 'html' && (localSource || !repository)) {
+    return localSourceLinks(config.site.baseUrl);
+  }
+  if (!repository) return undefined;
+  return {
+    repository,
+    ref: sourceRef || detectSourceRef(sourceDir) || 'main',
+    prefix: detectRepoPrefix(sourceDir) ?? config.package.name,
+    template: sourceUrl || (sourceForge && SOURCE_URL_TEMPLATES[sourceForge]),
+  };
+}
+
+/**
+ * Project name and version from the `[workspace]`, `[project]` or `[package]`
+ * table of pixi.toml.
+ */
+async function readPixiMetadata(cwd: string): Promise<{ name?: string; version?: string }> {
+  const pixiPath = resolve(cwd, 'pixi.toml');
+  if (!existsSync(pixiPath)) return {};
+  try {
+    const pixi = await readToml(pixiPath);
+    const field = (key: string) =>
+      ['workspace', 'project', 'package']
+        .map((section) => getPath(pixi, [section, key]))
+        .find((value): value is string => typeof value === 'string');
+    return { name: field('name'), version: field('version') };
+  } catch {
+    // Ignore errors reading pixi.toml; they are reported when it carries a
+    // [tool.mojodoc] table we need.
+    return {};
+  }
+}
+
+function mergeConfig(target: PartialModocConfig, source: PartialModocConfig): void {
+  for (const section of Object.keys(source) as Array<keyof ModocConfig>) {
+    target[section] = { ...target[section], ...source[section] } as never;
+  }
+}
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getPath(value: unknown, keys: string[]): unknown {
+  let current = value;
+  for (const key of keys) {
+    if (!isTable(current)) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `"${value}"`;
+  if (isTable(value)) return 'table';
+  return typeof value === 'object' ? String(value) : `${typeof value} ${String(value)}`;
+}
+
+function toCamelCase(key: string): string {
+  return key.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+/**
+ * Suggest the closest valid key for a typo, e.g. "baseUrl" → "base-url".
+ */
+function suggest(key: string, candidates: string[]): string {
+  const normalize = (s: string) => s.toLowerCase().replace(/[-_]/g, '');
+  const match =
+    candidates.find((c) => normalize(c) === normalize(key)) ??
+    candidates.find((c) => editDistance(normalize(c), normalize(key), 2) <= 2);
+  return match ? ` (did you mean "${match}"?)` : '';
 }
 
 /**
@@ -159,3 +581,20 @@ export function findPackagePath(cwd: string, specified?: string): string {
   // Default to current directory
   return cwd;
 }
+
+/**
+ * Find the project root by looking for pixi.toml.
+ * Walks up from the given path until it finds pixi.toml or reaches root.
+ */
+export async function findProjectRoot(startPath: string): Promise<string> {
+  let current = resolve(startPath);
+
+  while (current !== dirname(current)) {
+    if (existsSync(join(current, 'pixi.toml'))) {
+      return current;
+    }
+    current = dirname(current);
+  }
+
+  return resolve(startPath);
+}
@@ -7,6 +7,13 @@
 import { Command } from 'commander';
 import { build } from './commands/build.js';
 import { serve } from './commands/serve.js';
+import { config } from './commands/config.js';
+import { diff } from './commands/diff.js';
+import { checkSemver } from './commands/check-semver.js';
+import { coverage } from './commands/coverage.js';
+import { lint } from './commands/lint.js';
+import { extract } from './commands/extract.js';
+import { show } from './commands/show.js';
 
 const program = new Command();
 
@@ -21,13 +28,28 @@ program
   .argument('[path]', 'Path to package or module to document')
   .option('-o, --open', 'Open in browser after build (starts local server)')
   .option('-p, --port <port>', 'Port for local server (with --open)', '3000')
-  .option('--out-dir <path>', 'Output directory', 'target/doc')
+  .option('--out-dir <path>', 'Output directory (default: target/doc)')
   .option(
     '-r, --repository <url>',
     'Repository URL for source links (e.g., https://github.com/user/repo)'
   )
-  .option('-c, --config <path>', 'Config file path')
+  .option('--source-ref <ref>', 'Git ref source links point at (default: tag or commit at HEAD)')
+  .option('--local-source', 'Link [src] to the rendered source pages instead of the repository')
+  .option('-c, --config <path>', 'Config file path (mojodoc.toml)')
   .option('-b, --base-url <url>', 'Base URL for assets and links (e.g., /pprint/ for GitHub Pages)')
+  .option('-f, --format <format>', 'Output format: html, markdown, mdx or json (default: html)')
+  .option('--include-html', 'Keep pre-rendered HTML strings in JSON output')
+  .option('--search-shards', 'Split the search index into per-letter shards loaded on demand')
+  .option(
+    '--from-json <file>',
+    'Build from saved mojo doc JSON instead of running mojo ("-" for stdin)'
+  )
+  .option('--source-dir <path>', 'Package sources to read docstrings and re-exports from')
+  .option('--strict', 'Fail on mojo doc JSON schema mismatches instead of filling defaults')
+  .option(
+    '--inherit-docs <files...>',
+    'Saved mojo doc JSON (e.g. of the stdlib) to inherit trait method docs from'
+  )
   .option('--diagnose', 'Show missing docstring warnings', true)
   .option('-v, --verbose', 'Verbose output')
   .action(async (path, options) => {
@@ -40,11 +62,107 @@ program
   .argument('[path]', 'Path to package or module to document')
   .option('-p, --port <port>', 'Port to serve on', '3000')
   .option('-o, --open', 'Open in browser')
-  .option('--out-dir <path>', 'Output directory', 'target/doc')
-  .option('-c, --config <path>', 'Config file path')
+  .option('--out-dir <path>', 'Output directory (default: target/doc)')
+  .option('-c, --config <path>', 'Config file path (mojodoc.toml)')
+  .option('--from-json <file>', 'Serve docs built from saved mojo doc JSON instead of running mojo')
+  .option('--source-dir <path>', 'Package sources to read docstrings and re-exports from')
+  .option(
+    '--inherit-docs <files...>',
+    'Saved mojo doc JSON (e.g. of the stdlib) to inherit trait method docs from'
+  )
   .option('-v, --verbose', 'Verbose output')
   .action(async (path, options) => {
     await serve({ ...options, path, port: parseInt(options.port, 10) });
   });
 
+program
+  .command('extract')
+  .description('Run mojo doc and save its JSON for a later `build --from-json`')
+  .argument('[path]', 'Path to package or module to document')
+  .option('-o, --output <file>', 'Write the JSON to a file instead of stdout')
+  .option('-c, --config <path>', 'Config file path (mojodoc.toml)')
+  .option('--diagnose', 'Show missing docstring warnings')
+  .option('--strict', 'Fail on mojo doc JSON schema mismatches instead of filling defaults')
+  .option('-v, --verbose', 'Verbose output')
+  .action(async (path, options) => {
+    await extract({ ...options, path });
+  });
+
+program
+  .command('config')
+  .description('Inspect the configuration merged from pixi.toml, mojodoc.toml and CLI flags')
+  .argument('[path]', 'Path to package or module to document')
+  .option('--show', 'Print the merged configuration as TOML')
+  .option('-c, --config <path>', 'Config file path (mojodoc.toml)')
+  .option('--out-dir <path>', 'Output directory')
+  .option('-r, --repository <url>', 'Repository URL for source links')
+  .option('--source-ref <ref>', 'Git ref source links point at')
+  .option('--local-source', 'Link [src] to the rendered source pages instead of the repository')
+  .option('-b, --base-url <url>', 'Base URL for assets and links')
+  .option('-f, --format <format>', 'Output format: html, markdown, mdx or json')
+  .option('--include-html', 'Keep pre-rendered HTML strings in JSON output')
+  .option('--search-shards', 'Split the search index into per-letter shards loaded on demand')
+  .action(async (path, options) => {
+    await config({ ...options, path });
+  });
+
+program
+  .command('diff')
+  .description('Report API changes between two mojo doc JSON files or git refs')
+  .argument('<old>', 'Old version: mojo doc JSON file or git ref')
+  .argument('<new>', 'New version: mojo doc JSON file or git ref')
+  .option('--path <path>', 'Package to document when comparing git refs')
+  .option('-f, --format <format>', 'Output format: text, markdown or json', 'text')
+  .action(async (oldSource, newSource, options) => {
+    await diff({ ...options, old: oldSource, new: newSource });
+  });
+
+program
+  .command('check-semver')
+  .description(
+    'Fail if the pixi.toml version bump is too small for the API changes since a baseline'
+  )
+  .requiredOption('--baseline <ref>', 'Git ref (or mojo doc JSON file) of the last release')
+  .argument('[path]', 'Path to package or module to document')
+  .option('--baseline-version <version>', 'Baseline version, when the baseline is a JSON file')
+  .option('-c, --config <path>', 'Config file path (mojodoc.toml)')
+  .option('-f, --format <format>', 'Output format: text or json', 'text')
+  .action(async (path, options) => {
+    await checkSemver({ ...options, path });
+  });
+
+program
+  .command('coverage')
+  .description('Report documentation coverage per module and list undocumented items')
+  .argument('[path]', 'Path to package or module to document')
+  .option('--from-json <file>', 'Read saved mojo doc JSON instead of running mojo doc')
+  .option('--min <percent>', 'Fail if total coverage is below this percentage')
+  .option('-f, --format <format>', 'Output format: text, json or junit', 'text')
+  .action(async (path, options) => {
+    await coverage({ ...options, path });
+  });
+
+program
+  .command('lint')
+  .description('Check docstrings against signatures (Args, Parameters, Returns, Raises)')
+  .argument('[path]', 'Path to package or module to document')
+  .option('--from-json <file>', 'Read saved mojo doc JSON instead of running mojo doc')
+  .option('-f, --format <format>', 'Output format: text or sarif', 'text')
+  .action(async (path, options) => {
+    await lint({ ...options, path });
+  });
+
+program
+  .command('show')
+  .description('Print the documentation of a package, module or item in the terminal')
+  .argument('[name]', 'Dotted path or partial name (e.g. mypkg.net.TcpStream.connect, TcpStream)')
+  .option('-l, --list', 'List the members of a package, module, struct or trait')
+  .option('--path <path>', 'Package to document (default: detected from the current directory)')
+  .option('-c, --config <path>', 'Config file path (mojodoc.toml)')
+  .option('--from-json <file>', 'Read saved mojo doc JSON instead of running mojo doc')
+  .option('--no-cache', 'Run mojo doc even if the sources are unchanged since the last show')
+  .action(async (name, options) => {
+    await show({ ...options, name });
+  });
+
 program.parse();
@@ -1,10 +1,14 @@
 /**
- * Wrapper for running `mojo doc` subprocess.
+ * Wrapper for running `mojo doc` subprocess, and reading the sources it
+ * documents.
  */
 
 import { spawn } from 'child_process';
-import { existsSync } from 'fs';
-import { resolve } from 'path';
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { resolve, join, relative } from 'path';
+
+import { parseJson, type MojoDocOutput } from '@mojodoc/parser';
 
 export interface MojoDocOptions {
   path: string;
@@ -132,6 +136,42 @@ export async function runMojoDoc(options: MojoDocOptions): Promise<MojoDocResult
   });
 }
 
+/**
+ * Load parsed `mojo doc` output, from a saved JSON file when `fromJson` is
+ * given, otherwise by running `mojo doc` on the package.
+ */
+export async function loadMojoDocOutput(
+  packagePath: string,
+  fromJson?: string,
+  cwd: string = process.cwd()
+): Promise<MojoDocOutput> {
+  if (fromJson) {
+    return parseJson(await readMojoDocJson(fromJson, cwd));
+  }
+  const { json } = await runMojoDoc({ path: packagePath, diagnose: false, cwd });
+  return parseJson(json);
+}
+
+let stdinJson: Promise<string> | undefined;
+
+/**
+ * Read saved `mojo doc` JSON from a file, or from stdin when `source` is "-".
+ * Stdin is read once and reused, so watch-mode rebuilds see the same input.
+ */
+export function readMojoDocJson(source: string, cwd: string = process.cwd()): Promise<string> {
+  if (source !== '-') {
+    return readFile(resolve(cwd, source), 'utf-8');
+  }
+  stdinJson ??= new Promise((resolve, reject) => {
+    let data = '';
+    process.stdin.setEncoding('utf-8');
+    process.stdin.on('data', (chunk: string) => (data += chunk));
+    process.stdin.on('end', () => resolve(data));
+    process.stdin.on('error', reject);
+  });
+  return stdinJson;
+}
+
 /**
  * Check if mojo is available.
  */
@@ -148,3 +188,42 @@ export async function checkMojoAvailable(cwd: string = process.cwd()): Promise<b
     proc.on('close', (code) => resolve(code === 0));
   });
 }
+
+/**
+ * Recursively scan a directory for all .mojo files and read their contents.
+ * Returns a Map of relative paths to file contents.
+ */
+export function scanMojoFiles(dir: string, baseDir: string = dir): Map<string, string> {
+  const files = new Map<string, string>();
+
+  try {
+    const entries = readdirSync(dir);
+
+    for (const entry of entries) {
+      const fullPath = join(dir, entry);
+
+      try {
+        const stats = statSync(fullPath);
+
+        if (stats.isDirectory()) {
+          if (!entry.startsWith('.') && entry !== 'node_modules' && entry !== '__pycache__') {
+            const subFiles = scanMojoFiles(fullPath, baseDir);
+            for (const [path, content] of subFiles) {
+              files.set(path, content);
+            }
+          }
+        } else if (entry.endsWith('.mojo')) {
+          const relativePath = relative(baseDir, fullPath);
+          const content = readFileSync(fullPath, 'utf-8');
+          files.set(relativePath, content);
+        }
+      } catch {
+        // Skip files we can't read
+      }
+    }
+  } catch {
+    // Skip directories we can't read
+  }
+
+  return files;
+}
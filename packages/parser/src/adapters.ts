@@ -0,0 +1,179 @@
+/**
+ * Versioned schema adapters for `mojo doc` JSON.
+ *
+ * The JSON shape drifts between Mojo releases. Each adapter rewrites one
+ * older or newer shape into the canonical model in `types.ts`; the chain runs
+ * on the raw JSON before validation, picking adapters by the `version` the
+ * output reports.
+ */
+
+/**
+ * A Mojo compiler version. Releases switched from `24.6` / `25.4` to
+ * `0.25.6` / `0.26.1`; both are read as (major, minor) = (25, 6).
+ */
+export interface MojoVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  /** Nightly build suffix (e.g. "dev2026020305"), if any */
+  dev: string | null;
+  raw: string;
+}
+
+/** Oldest and newest Mojo versions mojodoc is tested against (major.minor). */
+export const TESTED_MOJO_VERSIONS = { oldest: '24.6', newest: '0.26.2' } as const;
+
+export interface SchemaAdapter {
+  name: string;
+  description: string;
+  /** First version that has the shape (inclusive) */
+  since?: string;
+  /** First version that no longer has it (exclusive) */
+  until?: string;
+  /** Rewrite the raw JSON root in place */
+  apply(root: Record<string, unknown>): void;
+}
+
+/**
+ * Adapters in the order they run.
+ */
+export const SCHEMA_ADAPTERS: readonly SchemaAdapter[] = [
+  {
+    name: 'inout-borrowed-conventions',
+    description: 'Argument conventions `inout` and `borrowed` became `mut` and `read`',
+    until: '24.6',
+    apply(root) {
+      const renames: Record<string, string> = { inout: 'mut', borrowed: 'read' };
+      forEachArgument(root, (arg) => {
+        if (typeof arg.convention === 'string' && arg.convention in renames) {
+          arg.convention = renames[arg.convention];
+        }
+      });
+    },
+  },
+  {
+    name: 'comptime-declarations',
+    description: 'Module-level `alias` declarations are documented as `comptime`',
+    since: '0.25.7',
+    apply(root) {
+      forEachModule(root, (mod) => {
+        if (Array.isArray(mod.comptimes)) {
+          mod.aliases = [...(Array.isArray(mod.aliases) ? mod.aliases : []), ...mod.comptimes];
+          delete mod.comptimes;
+        }
+        for (const alias of Array.isArray(mod.aliases) ? mod.aliases : []) {
+          if (isObject(alias) && alias.kind === 'comptime') alias.kind = 'alias';
+        }
+      });
+    },
+  },
+];
+
+/**
+ * Parse a `mojo doc` version string. Returns null when it is not a version.
+ */
+export function parseMojoVersion(raw: string): MojoVersion | null {
+  const m = /^(\d+)\.(\d+)(?:\.(\d+))?(?:\.\d+)*(?:[.-]?(dev\w*))?/.exec(raw.trim());
+  if (!m) return null;
+
+  let [major, minor, patch] = [Number(m[1]), Number(m[2]), Number(m[3] ?? 0)];
+  if (major === 0) {
+    // 0.25.6 → 25.6
+    [major, minor] = [minor, patch];
+    patch = Number(/^0\.\d+\.\d+\.(\d+)/.exec(raw)?.[1] ?? 0);
+  }
+  return { major, minor, patch, dev: m[4] ?? null, raw };
+}
+
+/**
+ * Compare two versions by major and minor; negative when `a` is older.
+ */
+export function compareMojoVersions(a: MojoVersion, b: MojoVersion): number {
+  return a.major - b.major || a.minor - b.minor;
+}
+
+/**
+ * Whether a version is inside `TESTED_MOJO_VERSIONS`.
+ */
+export function isTestedMojoVersion(version: MojoVersion): boolean {
+  return (
+    compareMojoVersions(version, parseMojoVersion(TESTED_MOJO_VERSIONS.oldest)!) >= 0 &&
+    compareMojoVersions(version, parseMojoVersion(TESTED_MOJO_VERSIONS.newest)!) <= 0
+  );
+}
+
+/**
+ * Run every adapter whose range covers `version` on the raw JSON root. With
+ * an unknown version all adapters run; each is a no-op on canonical input.
+ * Returns the names of the adapters that ran.
+ */
+export function applySchemaAdapters(
+  root: Record<string, unknown>,
+  version: MojoVersion | null
+): string[] {
+  const applied: string[] = [];
+  for (const adapter of SCHEMA_ADAPTERS) {
+    if (version && !adapterCovers(adapter, version)) continue;
+    adapter.apply(root);
+    applied.push(adapter.name);
+  }
+  return applied;
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+function adapterCovers(adapter: SchemaAdapter, version: MojoVersion): boolean {
+  const since = adapter.since ? parseMojoVersion(adapter.since) : null;
+  const until = adapter.until ? parseMojoVersion(adapter.until) : null;
+  if (since && compareMojoVersions(version, since) < 0) return false;
+  if (until && compareMojoVersions(version, until) >= 0) return false;
+  return true;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function objects(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter(isObject) : [];
+}
+
+/** Visit every module declaration under the root, tolerating bad shapes. */
+function forEachModule(
+  root: Record<string, unknown>,
+  visit: (mod: Record<string, unknown>) => void
+): void {
+  const walk = (decl: unknown) => {
+    if (!isObject(decl)) return;
+    if (decl.kind === 'module') {
+      visit(decl);
+      return;
+    }
+    objects(decl.modules).forEach(walk);
+    objects(decl.packages).forEach(walk);
+  };
+  walk(root.decl);
+}
+
+/** Visit every argument of every function, method and trait method. */
+function forEachArgument(
+  root: Record<string, unknown>,
+  visit: (arg: Record<string, unknown>) => void
+): void {
+  const visitFunctions = (fns: unknown) => {
+    for (const fn of objects(fns)) {
+      for (const overload of objects(fn.overloads)) {
+        objects(overload.args).forEach(visit);
+      }
+    }
+  };
+
+  forEachModule(root, (mod) => {
+    visitFunctions(mod.functions);
+    for (const owner of [...objects(mod.structs), ...objects(mod.traits)]) {
+      visitFunctions(owner.functions);
+    }
+  });
+}
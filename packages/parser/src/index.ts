@@ -4,3 +4,4 @@
 
 export * from './types.js';
 export * from './parser.js';
+export * from './adapters.js';
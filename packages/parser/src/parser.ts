@@ -11,6 +11,13 @@ import type {
   TraitDecl,
   AliasDecl,
 } from './types.js';
+import {
+  parseMojoVersion,
+  isTestedMojoVersion,
+  applySchemaAdapters,
+  TESTED_MOJO_VERSIONS,
+  type MojoVersion,
+} from './adapters.js';
 
 export class ParseError extends Error {
   constructor(
@@ -22,10 +29,47 @@ export class ParseError extends Error {
   }
 }
 
+/**
+ * How to treat missing fields and unknown enum values. `lenient` fills
+ * defaults and records a warning; `strict` throws, for CI.
+ */
+export type ParseMode = 'lenient' | 'strict';
+
+export interface ParseOptions {
+  /** Default: lenient */
+  mode?: ParseMode;
+}
+
+/**
+ * A schema mismatch that lenient mode recovered from.
+ */
+export interface ParseWarning {
+  message: string;
+  /** Path of the offending value (e.g. "decl.modules[3].functions[0].overloads[1].isDef") */
+  path: string;
+}
+
+export interface ParseResult {
+  output: MojoDocOutput;
+  warnings: ParseWarning[];
+  /** Compiler version that produced the output, if recognized */
+  mojoVersion: MojoVersion | null;
+  /** Names of the schema adapters that ran */
+  adapters: string[];
+}
+
 /**
  * Parse raw JSON string from mojo doc output.
  */
-export function parseJson(jsonString: string): MojoDocOutput {
+export function parseJson(jsonString: string, options: ParseOptions = {}): MojoDocOutput {
+  return parseJsonWithWarnings(jsonString, options).output;
+}
+
+/**
+ * Parse raw JSON string from mojo doc output, returning the warnings lenient
+ * mode collected alongside the output.
+ */
+export function parseJsonWithWarnings(jsonString: string, options: ParseOptions = {}): ParseResult {
   let data: unknown;
 
   try {
@@ -34,74 +78,257 @@ export function parseJson(jsonString: string): MojoDocOutput {
     throw new ParseError(`Invalid JSON: ${(e as Error).message}`);
   }
 
-  return validateMojoDocOutput(data);
+  const ctx = new ValidationContext(options.mode ?? 'lenient');
+  const output = validateMojoDocOutput(data, ctx);
+  return {
+    output,
+    warnings: ctx.warnings,
+    mojoVersion: ctx.mojoVersion,
+    adapters: ctx.adapters,
+  };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const ARG_CONVENTIONS = ['read', 'mut', 'owned', 'ref', 'out'] as const;
+const ARG_PASSING_KINDS = ['pos_or_kw', 'pos_only', 'kw_only', 'variadic', 'variadic_kw'] as const;
+
+class ValidationContext {
+  readonly warnings: ParseWarning[] = [];
+  mojoVersion: MojoVersion | null = null;
+  adapters: string[] = [];
+
+  constructor(readonly mode: ParseMode) {}
+
+  /**
+   * Record a warning in either mode.
+   */
+  warn(message: string, path: string): void {
+    this.warnings.push({ message, path });
+  }
+
+  /**
+   * Report a problem lenient mode can recover from.
+   */
+  recover(message: string, path: string): void {
+    if (this.mode === 'strict') {
+      throw new ParseError(`${message} at ${path}`, path);
+    }
+    this.warn(message, path);
+  }
 }
 
 /**
  * Validate and type-check the parsed JSON.
  */
-function validateMojoDocOutput(data: unknown): MojoDocOutput {
+function validateMojoDocOutput(data: unknown, ctx: ValidationContext): MojoDocOutput {
   if (!isObject(data)) {
-    throw new ParseError('Expected object at root');
+    throw new ParseError('Expected object at root', '');
   }
 
   if (typeof data.version !== 'string') {
-    throw new ParseError('Missing or invalid "version" field');
+    throw new ParseError('Missing or invalid "version" field', 'version');
   }
 
   if (!isObject(data.decl)) {
-    throw new ParseError('Missing or invalid "decl" field');
+    throw new ParseError('Missing or invalid "decl" field', 'decl');
+  }
+
+  // Upgrade older/newer shapes to the canonical model before validating.
+  ctx.mojoVersion = parseMojoVersion(data.version);
+  if (!ctx.mojoVersion) {
+    ctx.warn(`Unrecognized mojo doc version "${data.version}"; applying every adapter`, 'version');
+  } else if (!isTestedMojoVersion(ctx.mojoVersion)) {
+    const { oldest, newest } = TESTED_MOJO_VERSIONS;
+    ctx.warn(
+      `Mojo ${data.version} is outside the tested range ${oldest}–${newest}; output may be misread`,
+      'version'
+    );
   }
+  ctx.adapters = applySchemaAdapters(data, ctx.mojoVersion);
 
   const decl = data.decl;
   if (decl.kind !== 'package' && decl.kind !== 'module') {
-    throw new ParseError(`Invalid decl kind: ${decl.kind}`);
+    throw new ParseError(`Invalid decl kind: ${decl.kind}`, 'decl.kind');
   }
 
   // Validate based on kind
   if (decl.kind === 'package') {
-    validatePackageDecl(decl, 'decl');
+    validatePackageDecl(decl, 'decl', ctx);
   } else {
-    validateModuleDecl(decl, 'decl');
+    validateModuleDecl(decl, 'decl', ctx);
   }
 
   return data as unknown as MojoDocOutput;
 }
 
-function validatePackageDecl(data: unknown, path: string): asserts data is PackageDecl {
-  if (!isObject(data)) {
-    throw new ParseError(`Expected object at ${path}`);
-  }
+function validatePackageDecl(
+  data: unknown,
+  path: string,
+  ctx: ValidationContext
+): asserts data is PackageDecl {
+  const obj = expectObject(data, path);
+  kindField(obj, path, ctx, 'package');
+  stringField(obj, 'name', path, ctx);
+  stringField(obj, 'summary', path, ctx, '');
+  stringField(obj, 'description', path, ctx, '');
+  arrayField(obj, 'modules', path, ctx, validateModuleDecl);
+  arrayField(obj, 'packages', path, ctx, validatePackageDecl);
+}
+
+function validateModuleDecl(
+  data: unknown,
+  path: string,
+  ctx: ValidationContext
+): asserts data is ModuleDecl {
+  const obj = expectObject(data, path);
+  kindField(obj, path, ctx, 'module');
+  stringField(obj, 'name', path, ctx);
+  stringField(obj, 'summary', path, ctx, '');
+  stringField(obj, 'description', path, ctx, '');
+  arrayField(obj, 'functions', path, ctx, validateFunctionDecl);
+  arrayField(obj, 'structs', path, ctx, validateStructDecl);
+  arrayField(obj, 'traits', path, ctx, validateTraitDecl);
+  arrayField(obj, 'aliases', path, ctx, validateAliasDecl);
+}
 
-  assertString(data.name, `${path}.name`);
-  assertString(data.summary, `${path}.summary`, '');
-  assertString(data.description, `${path}.description`, '');
-  assertArray(data.modules, `${path}.modules`);
-  assertArray(data.packages, `${path}.packages`, []);
+function validateFunctionDecl(data: unknown, path: string, ctx: ValidationContext): void {
+  const obj = expectObject(data, path);
+  kindField(obj, path, ctx, 'function');
+  stringField(obj, 'name', path, ctx);
+  arrayField(obj, 'overloads', path, ctx, (overload, overloadPath) =>
+    validateFunctionOverload(overload, overloadPath, ctx, obj.name as string)
+  );
+}
 
-  // Validate nested modules
-  for (let i = 0; i < data.modules.length; i++) {
-    validateModuleDecl(data.modules[i], `${path}.modules[${i}]`);
+function validateFunctionOverload(
+  data: unknown,
+  path: string,
+  ctx: ValidationContext,
+  functionName: string
+): void {
+  const obj = expectObject(data, path);
+  kindField(obj, path, ctx, 'function');
+  stringField(obj, 'name', path, ctx, functionName);
+  stringField(obj, 'signature', path, ctx);
+  stringField(obj, 'summary', path, ctx, '');
+  stringField(obj, 'description', path, ctx, '');
+  arrayField(obj, 'args', path, ctx, validateArgumentDecl);
+  arrayField(obj, 'parameters', path, ctx, validateTypeParameterDecl);
+
+  const returnsPath = `${path}.returns`;
+  if (obj.returns === undefined) {
+    ctx.recover('Missing "returns"', returnsPath);
+    obj.returns = null;
+  } else if (obj.returns !== null) {
+    validateReturnDecl(obj.returns, returnsPath, ctx);
   }
 
-  // Validate nested packages
-  for (let i = 0; i < (data.packages as unknown[]).length; i++) {
-    validatePackageDecl((data.packages as unknown[])[i], `${path}.packages[${i}]`);
-  }
+  booleanField(obj, 'raises', path, ctx, false);
+  stringField(obj, 'raisesDoc', path, ctx, '');
+  booleanField(obj, 'async', path, ctx, false);
+  booleanField(obj, 'isStatic', path, ctx, false);
+  booleanField(obj, 'isDef', path, ctx, false);
+  booleanField(obj, 'isImplicitConversion', path, ctx, false);
+  booleanField(obj, 'hasDefaultImplementation', path, ctx, false);
+  stringField(obj, 'deprecated', path, ctx, '');
+  stringField(obj, 'constraints', path, ctx, '');
 }
 
-function validateModuleDecl(data: unknown, path: string): asserts data is ModuleDecl {
-  if (!isObject(data)) {
-    throw new ParseError(`Expected object at ${path}`);
+function validateArgumentDecl(data: unknown, path: string, ctx: ValidationContext): void {
+  const obj = expectObject(data, path);
+  kindField(obj, path, ctx, 'argument');
+  stringField(obj, 'name', path, ctx);
+  stringField(obj, 'type', path, ctx);
+  stringField(obj, 'description', path, ctx, '');
+  enumField(obj, 'convention', path, ctx, ARG_CONVENTIONS, 'read');
+  enumField(obj, 'passingKind', path, ctx, ARG_PASSING_KINDS, 'pos_or_kw');
+  stringField(obj, 'path', path, ctx, '');
+  optionalStringField(obj, 'default', path);
+}
+
+function validateTypeParameterDecl(data: unknown, path: string, ctx: ValidationContext): void {
+  const obj = expectObject(data, path);
+  kindField(obj, path, ctx, 'parameter');
+  stringField(obj, 'name', path, ctx);
+  stringField(obj, 'type', path, ctx);
+  stringField(obj, 'description', path, ctx, '');
+  stringField(obj, 'passingKind', path, ctx, 'pos_or_kw');
+  optionalStringField(obj, 'path', path);
+  arrayField(obj, 'traits', path, ctx, (trait, traitPath) => {
+    const t = expectObject(trait, traitPath);
+    stringField(t, 'type', traitPath, ctx);
+    optionalStringField(t, 'path', traitPath);
+  });
+}
+
+function validateReturnDecl(data: unknown, path: string, ctx: ValidationContext): void {
+  const obj = expectObject(data, path);
+  stringField(obj, 'type', path, ctx);
+  stringField(obj, 'doc', path, ctx, '');
+  stringField(obj, 'path', path, ctx, '');
+}
+
+function validateParentTrait(data: unknown, path: string, ctx: ValidationContext): void {
+  const obj = expectObject(data, path);
+  stringField(obj, 'name', path, ctx);
+  stringField(obj, 'path', path, ctx, '');
+}
+
+function validateStructDecl(data: unknown, path: string, ctx: ValidationContext): void {
+  const obj = expectObject(data, path);
+  kindField(obj, path, ctx, 'struct');
+  stringField(obj, 'name', path, ctx);
+  stringField(obj, 'signature', path, ctx, '');
+  stringField(obj, 'summary', path, ctx, '');
+  stringField(obj, 'description', path, ctx, '');
+  arrayField(obj, 'parameters', path, ctx, validateTypeParameterDecl);
+  if (obj.parentTraits !== undefined) {
+    arrayField(obj, 'parentTraits', path, ctx, validateParentTrait);
   }
+  arrayField(obj, 'fields', path, ctx, validateFieldDecl);
+  arrayField(obj, 'functions', path, ctx, validateFunctionDecl);
+  stringField(obj, 'deprecated', path, ctx, '');
+  stringField(obj, 'path', path, ctx, '');
+}
+
+function validateFieldDecl(data: unknown, path: string, ctx: ValidationContext): void {
+  const obj = expectObject(data, path);
+  kindField(obj, path, ctx, 'field');
+  stringField(obj, 'name', path, ctx);
+  stringField(obj, 'type', path, ctx);
+  stringField(obj, 'summary', path, ctx, '');
+  stringField(obj, 'description', path, ctx, '');
+  stringField(obj, 'path', path, ctx, '');
+}
 
-  assertString(data.name, `${path}.name`);
-  assertString(data.summary, `${path}.summary`, '');
-  assertString(data.description, `${path}.description`, '');
-  assertArray(data.functions, `${path}.functions`, []);
-  assertArray(data.structs, `${path}.structs`, []);
-  assertArray(data.traits, `${path}.traits`, []);
-  assertArray(data.aliases, `${path}.aliases`, []);
+function validateTraitDecl(data: unknown, path: string, ctx: ValidationContext): void {
+  const obj = expectObject(data, path);
+  kindField(obj, path, ctx, 'trait');
+  stringField(obj, 'name', path, ctx);
+  stringField(obj, 'signature', path, ctx, '');
+  stringField(obj, 'summary', path, ctx, '');
+  stringField(obj, 'description', path, ctx, '');
+  arrayField(obj, 'parameters', path, ctx, validateTypeParameterDecl);
+  arrayField(obj, 'functions', path, ctx, validateFunctionDecl);
+  arrayField(obj, 'parentTraits', path, ctx, validateParentTrait);
+  stringField(obj, 'deprecated', path, ctx, '');
+  stringField(obj, 'path', path, ctx, '');
+}
+
+function validateAliasDecl(data: unknown, path: string, ctx: ValidationContext): void {
+  const obj = expectObject(data, path);
+  kindField(obj, path, ctx, 'alias');
+  stringField(obj, 'name', path, ctx);
+  stringField(obj, 'signature', path, ctx, '');
+  stringField(obj, 'summary', path, ctx, '');
+  stringField(obj, 'description', path, ctx, '');
+  stringField(obj, 'value', path, ctx, '');
+  arrayField(obj, 'parameters', path, ctx, validateTypeParameterDecl);
+  stringField(obj, 'path', path, ctx, '');
+  stringField(obj, 'deprecated', path, ctx, '');
 }
 
 // ============================================================================
@@ -112,30 +339,124 @@ function isObject(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
-function assertString(
-  value: unknown,
+function typeName(value: unknown): string {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (!isObject(value)) {
+    throw new ParseError(`Expected object at ${path}, got ${typeName(value)}`, path);
+  }
+  return value;
+}
+
+/**
+ * Check `obj[key]` is a string. A missing value is an error unless a
+ * `fallback` is given, in which case lenient mode fills it in.
+ */
+function stringField(
+  obj: Record<string, unknown>,
+  key: string,
   path: string,
-  defaultValue?: string
-): asserts value is string {
-  if (typeof value === 'undefined' && defaultValue !== undefined) {
+  ctx: ValidationContext,
+  fallback?: string
+): void {
+  const fieldPath = `${path}.${key}`;
+  if (obj[key] === undefined && fallback !== undefined) {
+    ctx.recover(`Missing "${key}"`, fieldPath);
+    obj[key] = fallback;
     return;
   }
-  if (typeof value !== 'string') {
-    throw new ParseError(`Expected string at ${path}, got ${typeof value}`);
+  if (typeof obj[key] !== 'string') {
+    throw new ParseError(`Expected string at ${fieldPath}, got ${typeName(obj[key])}`, fieldPath);
+  }
+}
+
+function optionalStringField(obj: Record<string, unknown>, key: string, path: string): void {
+  if (obj[key] !== undefined && typeof obj[key] !== 'string') {
+    const fieldPath = `${path}.${key}`;
+    throw new ParseError(`Expected string at ${fieldPath}, got ${typeName(obj[key])}`, fieldPath);
   }
 }
 
-function assertArray(
-  value: unknown,
+function booleanField(
+  obj: Record<string, unknown>,
+  key: string,
   path: string,
-  defaultValue?: unknown[]
-): asserts value is unknown[] {
-  if (typeof value === 'undefined' && defaultValue !== undefined) {
+  ctx: ValidationContext,
+  fallback: boolean
+): void {
+  const fieldPath = `${path}.${key}`;
+  if (obj[key] === undefined) {
+    ctx.recover(`Missing "${key}"`, fieldPath);
+    obj[key] = fallback;
+    return;
+  }
+  if (typeof obj[key] !== 'boolean') {
+    throw new ParseError(`Expected boolean at ${fieldPath}, got ${typeName(obj[key])}`, fieldPath);
+  }
+}
+
+/**
+ * Check `obj[key]` is one of `allowed`. Lenient mode keeps unknown values
+ * (newer `mojo doc` releases add conventions) with a warning.
+ */
+function enumField(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  ctx: ValidationContext,
+  allowed: readonly string[],
+  fallback: string
+): void {
+  stringField(obj, key, path, ctx, fallback);
+  const value = obj[key] as string;
+  if (!allowed.includes(value)) {
+    ctx.recover(`Unknown ${key} "${value}" (expected ${allowed.join(', ')})`, `${path}.${key}`);
+  }
+}
+
+function kindField(
+  obj: Record<string, unknown>,
+  path: string,
+  ctx: ValidationContext,
+  expected: string
+): void {
+  const fieldPath = `${path}.kind`;
+  if (obj.kind === undefined) {
+    ctx.recover('Missing "kind"', fieldPath);
+    obj.kind = expected;
+  } else if (obj.kind !== expected) {
+    throw new ParseError(
+      `Expected kind "${expected}" at ${fieldPath}, got ${JSON.stringify(obj.kind)}`,
+      fieldPath
+    );
+  }
+}
+
+/**
+ * Check `obj[key]` is an array and validate each element. Lenient mode fills
+ * a missing array with `[]`.
+ */
+function arrayField(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  ctx: ValidationContext,
+  validateItem: (value: unknown, path: string, ctx: ValidationContext) => void
+): void {
+  const fieldPath = `${path}.${key}`;
+  const value = obj[key];
+  if (value === undefined) {
+    ctx.recover(`Missing "${key}"`, fieldPath);
+    obj[key] = [];
     return;
   }
   if (!Array.isArray(value)) {
-    throw new ParseError(`Expected array at ${path}, got ${typeof value}`);
+    throw new ParseError(`Expected array at ${fieldPath}, got ${typeName(value)}`, fieldPath);
   }
+  value.forEach((item, i) => validateItem(item, `${fieldPath}[${i}]`, ctx));
 }
 
 // ============================================================================
@@ -155,6 +476,32 @@ export function flattenModules(pkg: PackageDecl): ModuleDecl[] {
   return modules;
 }
 
+/**
+ * Map every module in a doc tree by its dotted path (e.g. "mypkg.net.socket").
+ * A root module maps to its own name.
+ */
+export function mapModulesByPath(
+  decl: PackageDecl | ModuleDecl,
+  prefix: string = '',
+  out: Map<string, ModuleDecl> = new Map()
+): Map<string, ModuleDecl> {
+  const path = prefix ? `${prefix}.${decl.name}` : decl.name;
+
+  if (decl.kind === 'module') {
+    out.set(path, decl);
+    return out;
+  }
+
+  for (const mod of decl.modules || []) {
+    mapModulesByPath(mod, path, out);
+  }
+  for (const subPkg of decl.packages || []) {
+    mapModulesByPath(subPkg, path, out);
+  }
+
+  return out;
+}
+
 /**
  * Get all items (functions, structs, traits, aliases) from a module.
  */
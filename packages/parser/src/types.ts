@@ -71,7 +71,7 @@ export interface ArgumentDecl {
   name: string;
   type: string;
   description: string;
-  convention: 'read' | 'mut' | 'owned' | 'ref' | 'out' | 'inout';
+  convention: 'read' | 'mut' | 'owned' | 'ref' | 'out';
   passingKind: 'pos_or_kw' | 'pos_only' | 'kw_only' | 'variadic' | 'variadic_kw';
   path: string;
   default?: string;
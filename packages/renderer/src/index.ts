@@ -3,6 +3,11 @@
  */
 
 export * from './render.js';
+export * from './markdown.js';
+export * from './json.js';
+export * from './json-schema.js';
+export * from './search-index.js';
 export * from './templates.js';
 export * from './styles.js';
 export * from './scripts.js';
+export * from './search-scripts.js';
@@ -0,0 +1,270 @@
+/**
+ * JSON Schema for docs.json (`mojodoc build --format json`).
+ *
+ * Bump `DOC_JSON_SCHEMA_VERSION` whenever a field is removed or changes
+ * meaning; adding optional fields does not require a bump. `*Html` fields are
+ * only present when the export was made with HTML included.
+ */
+
+/** Version of the exported JSON layout. */
+export const DOC_JSON_SCHEMA_VERSION = 1;
+
+type Schema = Record<string, unknown>;
+
+const str = (description: string): Schema => ({ type: 'string', description });
+const nullableStr = (description: string): Schema => ({
+  type: ['string', 'null'],
+  description,
+});
+const bool = (description: string): Schema => ({ type: 'boolean', description });
+const ref = (name: string): Schema => ({ $ref: `#/$defs/${name}` });
+const list = (name: string, description: string): Schema => ({
+  type: 'array',
+  items: ref(name),
+  description,
+});
+const html = str('Pre-rendered HTML (only with HTML included)');
+
+/**
+ * Object schema with every listed property required except `*Html` ones.
+ */
+function object(description: string, properties: Record<string, Schema>): Schema {
+  return {
+    type: 'object',
+    description,
+    properties,
+    required: Object.keys(properties).filter((k) => !k.endsWith('Html')),
+  };
+}
+
+const docText = {
+  summary: str('First paragraph of the docstring'),
+  description: str('Docstring body after the summary (Markdown)'),
+  descriptionHtml: html,
+};
+
+export const docJsonSchema: Schema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: `urn:mojodoc:docs-json:v${DOC_JSON_SCHEMA_VERSION}`,
+  title: 'mojodoc documentation export',
+  type: 'object',
+  required: ['schemaVersion', 'generator', 'site', 'package'],
+  properties: {
+    $schema: str('Relative path to this schema'),
+    schemaVersion: { const: DOC_JSON_SCHEMA_VERSION, description: 'Export layout version' },
+    generator: { const: 'mojodoc' },
+    site: ref('SiteConfig'),
+    package: ref('Package'),
+  },
+  $defs: {
+    SiteConfig: {
+      ...object('Site settings the docs were built with', {
+        name: str('Package name'),
+        version: str('Package version'),
+        description: str('Site description'),
+        baseUrl: str('Base URL of the HTML site, ending with "/"'),
+        repository: str('Repository URL used for source links'),
+        editLink: bool('Whether pages link to their source for editing'),
+      }),
+      required: ['name', 'version', 'description', 'baseUrl', 'editLink'],
+    },
+    Package: object('A Mojo package (directory with __init__.mojo)', {
+      name: str('Package name'),
+      path: str('Path of the package within the root package'),
+      fullPath: str('Dotted import path (e.g. "mypkg.net")'),
+      ...docText,
+      modules: list('Module', 'Modules directly inside the package'),
+      subpackages: list('Package', 'Nested packages'),
+      publicApi: list('PublicApiSection', 'Items re-exported from __init__.mojo, by section'),
+    }),
+    PublicApiSection: object('A titled group of re-exported items', {
+      title: str('Section title from __init__.mojo comments'),
+      items: list('PublicApiItem', 'Items in the section'),
+    }),
+    PublicApiItem: object('A re-exported item', {
+      kind: { enum: ['function', 'struct', 'trait', 'alias'] },
+      name: str('Item name'),
+      sourceModule: str('Module the item is defined in'),
+      urlPath: str('URL path of the defining module page'),
+      anchor: str('Anchor of the item on that page'),
+      summary: str('First paragraph of the docstring'),
+    }),
+    Module: object('A Mojo source file', {
+      name: str('Module name'),
+      path: str('Path of the module within the root package'),
+      fullPath: str('Dotted import path (e.g. "mypkg.net.socket")'),
+      urlPath: str('URL path of the module page'),
+      ...docText,
+      functions: list('FunctionItem', 'Free functions'),
+      structs: list('StructItem', 'Structs'),
+      traits: list('TraitItem', 'Traits'),
+      aliases: list('AliasItem', 'Aliases'),
+      parentPackage: str('Dotted path of the containing package'),
+      sourceFile: str('Source file relative to the package root'),
+      sourceUrl: nullableStr('Link to the source file in the repository'),
+    }),
+    FunctionItem: object('A function or method with all of its overloads', {
+      kind: { const: 'function' },
+      name: str('Function name'),
+      anchor: str('Anchor on the module page'),
+      sourceUrl: nullableStr("Link to the declaration's lines in the repository"),
+      overloads: list('ProcessedOverload', 'One entry per overload'),
+    }),
+    ProcessedOverload: object('One overload of a function', {
+      signature: str('Full signature as written in Mojo'),
+      signatureHtml: html,
+      ...docText,
+      args: list('ProcessedArg', 'Arguments (excluding self)'),
+      typeParams: list('ProcessedTypeParam', 'Compile-time parameters'),
+      returns: { oneOf: [ref('ProcessedReturn'), { type: 'null' }] },
+      raises: { oneOf: [ref('ProcessedRaises'), { type: 'null' }] },
+      isStatic: bool('Static method'),
+      isAsync: bool('Async function'),
+      isDef: bool('Declared with def rather than fn'),
+      isImplicitConversion: bool('An @implicit constructor'),
+      hasDefaultImplementation: bool('Trait method with a default implementation'),
+      constraints: nullableStr('Constraint clause, if any'),
+      constraintsHtml: html,
+      deprecated: nullableStr('Deprecation message, if deprecated'),
+      inheritedFrom: nullableStr('Trait the missing docs were inherited from, if any'),
+      docstring: ref('ParsedDocstring'),
+    }),
+    ProcessedArg: object('A function argument', {
+      name: str('Argument name'),
+      type: str('Type as written'),
+      typeHtml: html,
+      typePath: nullableStr('Documentation URL of the type, if known'),
+      description: str('Argument description'),
+      descriptionHtml: html,
+      convention: str('Argument convention (read, mut, owned, ...)'),
+      passingKind: {
+        enum: ['pos_or_kw', 'pos_only', 'kw_only', 'variadic', 'variadic_kw'],
+        description: 'How the argument is passed',
+      },
+      default: nullableStr('Default value, if any'),
+    }),
+    ProcessedTypeParam: object('A compile-time parameter', {
+      name: str('Parameter name'),
+      type: str('Parameter type'),
+      description: str('Parameter description'),
+      descriptionHtml: html,
+      constraints: { type: 'array', items: { type: 'string' }, description: 'Trait bounds' },
+    }),
+    ProcessedReturn: object('Return value', {
+      type: str('Return type as written'),
+      typeHtml: html,
+      typePath: nullableStr('Documentation URL of the type, if known'),
+      description: str('Return description'),
+      descriptionHtml: html,
+    }),
+    ProcessedRaises: object('Documented errors', {
+      description: str('Raises description'),
+      descriptionHtml: html,
+    }),
+    StructItem: object('A struct', {
+      kind: { const: 'struct' },
+      name: str('Struct name'),
+      anchor: str('Anchor on the module page'),
+      sourceUrl: nullableStr("Link to the declaration's lines in the repository"),
+      signature: str('Declaration as written in Mojo'),
+      signatureHtml: html,
+      ...docText,
+      typeParams: list('ProcessedTypeParam', 'Compile-time parameters'),
+      fields: list('ProcessedField', 'Fields'),
+      methods: list('FunctionItem', 'Methods'),
+      traitImpls: list('TraitImpl', 'Traits the struct conforms to'),
+      deprecated: nullableStr('Deprecation message, if deprecated'),
+      docstring: ref('ParsedDocstring'),
+    }),
+    TraitImpl: object('A trait implemented by a struct', {
+      name: str('Trait name'),
+      path: nullableStr('Qualified path of the trait (e.g. "mypkg.io.Reader"), if known'),
+      href: nullableStr('Documentation URL of the trait, if known'),
+      methods: {
+        type: 'array',
+        items: { type: 'string' },
+        description: "Names of the struct's methods that satisfy the trait",
+      },
+      inherited: list('InheritedMethod', 'Provided trait methods the struct does not override'),
+    }),
+    InheritedMethod: object("A trait's default method inherited by a struct", {
+      name: str('Method name'),
+      summary: str('First paragraph of the docstring'),
+      urlPath: str("URL path of the trait's module page"),
+      anchor: str("Anchor of the method on the trait's module page"),
+    }),
+    ProcessedField: object('A struct field', {
+      name: str('Field name'),
+      type: str('Type as written'),
+      typeHtml: html,
+      typePath: nullableStr('Documentation URL of the type, if known'),
+      ...docText,
+    }),
+    TraitItem: object('A trait', {
+      kind: { const: 'trait' },
+      name: str('Trait name'),
+      anchor: str('Anchor on the module page'),
+      sourceUrl: nullableStr("Link to the declaration's lines in the repository"),
+      signature: str('Declaration as written in Mojo'),
+      signatureHtml: html,
+      ...docText,
+      typeParams: list('ProcessedTypeParam', 'Compile-time parameters'),
+      methods: list('FunctionItem', 'Trait methods'),
+      implementors: list('TraitImplementor', 'Local structs conforming to the trait'),
+      deprecated: nullableStr('Deprecation message, if deprecated'),
+      docstring: ref('ParsedDocstring'),
+    }),
+    TraitImplementor: object('A struct that implements a trait', {
+      name: str('Struct name'),
+      fullPath: str('Dotted path of the struct'),
+      urlPath: str('URL path of the defining module page'),
+      anchor: str('Anchor of the struct on that page'),
+      summary: str('First paragraph of the docstring'),
+    }),
+    ParsedDocstring: object('The docstring split into Google-style sections', {
+      summary: str('First paragraph'),
+      body: str('Paragraphs outside any section (Markdown)'),
+      bodyHtml: html,
+      sections: list('DocSection', 'Sections in docstring order'),
+    }),
+    DocSection: object('A titled docstring section', {
+      kind: {
+        enum: [
+          'args',
+          'parameters',
+          'returns',
+          'raises',
+          'examples',
+          'notes',
+          'warnings',
+          'see-also',
+          'deprecated',
+          'custom',
+        ],
+      },
+      title: str('Title as written (e.g. "Example" or a custom "Safety")'),
+      content: str('Section content (Markdown)'),
+      contentHtml: html,
+      entries: list('DocEntry', 'Entries of Args, Parameters, Raises and See Also sections'),
+    }),
+    DocEntry: object('A `name (type): description` entry of a section', {
+      name: str('Entry name'),
+      type: nullableStr('Type annotation, if written'),
+      description: str('Entry description (Markdown)'),
+      descriptionHtml: html,
+    }),
+    AliasItem: object('An alias (compile-time constant or type alias)', {
+      kind: { const: 'alias' },
+      name: str('Alias name'),
+      anchor: str('Anchor on the module page'),
+      sourceUrl: nullableStr("Link to the declaration's lines in the repository"),
+      signature: str('Declaration as written in Mojo'),
+      signatureHtml: html,
+      ...docText,
+      value: str('Aliased value as written'),
+      typeParams: list('ProcessedTypeParam', 'Compile-time parameters'),
+      deprecated: nullableStr('Deprecation message, if deprecated'),
+      docstring: ref('ParsedDocstring'),
+    }),
+  },
+};
@@ -0,0 +1,79 @@
+/**
+ * JSON renderer - writes the transformed DocSite as a single versioned JSON
+ * document, so tools (IDE plugins, changelog bots) can consume mojodoc's
+ * model of a package instead of re-deriving it from raw `mojo doc` output.
+ *
+ * The document is described by a JSON Schema (see json-schema.ts) written
+ * next to it.
+ */
+
+import { mkdir, writeFile, rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import type { DocSite, Package, SiteConfig } from '@mojodoc/transform';
+import { DOC_JSON_SCHEMA_VERSION, docJsonSchema } from './json-schema.js';
+
+/** File names written by `renderJsonSite`. */
+export const DOC_JSON_FILE = 'docs.json';
+export const DOC_JSON_SCHEMA_FILE = 'docs.schema.json';
+
+export interface JsonRenderOptions {
+  /** Keep the pre-rendered `*Html` fields (signatures, descriptions, types). */
+  includeHtml?: boolean;
+}
+
+/**
+ * Top-level shape of docs.json.
+ */
+export interface DocJson {
+  $schema: string;
+  schemaVersion: number;
+  generator: 'mojodoc';
+  site: SiteConfig;
+  /** Root package, with modules and subpackages nested inside it */
+  package: Package;
+}
+
+/**
+ * Build the exported document for a site. Navigation and search data are left
+ * out: they are derived from the package tree and written separately.
+ */
+export function toDocJson(site: DocSite): DocJson {
+  return {
+    $schema: `./${DOC_JSON_SCHEMA_FILE}`,
+    schemaVersion: DOC_JSON_SCHEMA_VERSION,
+    generator: 'mojodoc',
+    site: site.config,
+    package: site.rootPackage,
+  };
+}
+
+/**
+ * Serialize a site to JSON, dropping `*Html` fields unless asked to keep them.
+ */
+export function serializeDocSite(site: DocSite, options: JsonRenderOptions = {}): string {
+  const includeHtml = options.includeHtml ?? false;
+  return JSON.stringify(
+    toDocJson(site),
+    (key, value) => (!includeHtml && key.endsWith('Html') ? undefined : value),
+    2
+  );
+}
+
+/**
+ * Render a DocSite to docs.json plus its schema.
+ */
+export async function renderJsonSite(
+  site: DocSite,
+  outDir: string,
+  options: JsonRenderOptions = {}
+): Promise<void> {
+  // Clean output directory if it exists (always regenerate fresh)
+  if (existsSync(outDir)) {
+    await rm(outDir, { recursive: true, force: true });
+  }
+  await mkdir(outDir, { recursive: true });
+
+  await writeFile(join(outDir, DOC_JSON_FILE), serializeDocSite(site, options));
+  await writeFile(join(outDir, DOC_JSON_SCHEMA_FILE), JSON.stringify(docJsonSchema, null, 2));
+}
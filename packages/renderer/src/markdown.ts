@@ -0,0 +1,549 @@
+/**
+ * Markdown renderer - writes one Markdown (or MDX) file per package/module
+ * from a DocSite, for publishing inside Docusaurus, MkDocs and similar sites.
+ *
+ * Layout mirrors the HTML site: `<pkg>/index.md` for packages and
+ * `<pkg>/<module>.md` for modules. Item anchors use the same ids as the HTML
+ * pages (`toAnchor`), and links between pages are relative.
+ */
+
+import { mkdir, writeFile, rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, dirname, posix } from 'path';
+import type {
+  DocSite,
+  Package,
+  Module,
+  FunctionItem,
+  StructItem,
+  TraitItem,
+  AliasItem,
+  ProcessedOverload,
+  PublicApiItem,
+  TraitImpl,
+  TypeRegistry,
+} from '@mojodoc/transform';
+import {
+  inferStdlibUrl,
+  resolveTypePath,
+  lookupType,
+  qualifiedTypePath,
+  isProvidedMethod,
+  PASSING_KIND_LABELS,
+} from '@mojodoc/transform';
+
+export interface MarkdownRenderOptions {
+  /** Emit MDX-safe output with a .mdx extension. */
+  mdx?: boolean;
+}
+
+interface MarkdownContext {
+  site: DocSite;
+  mdx: boolean;
+  ext: string;
+  /** Local types, each definition mapped to `<urlPath>#<anchor>` of its docs */
+  types: TypeRegistry;
+  /** Output file of the page being rendered, relative to outDir */
+  currentFile: string;
+  /** Dotted path of the package or module being rendered, for resolving type names */
+  scope: string;
+}
+
+/**
+ * Render a DocSite to Markdown files.
+ */
+export async function renderMarkdownSite(
+  site: DocSite,
+  outDir: string,
+  options: MarkdownRenderOptions = {}
+): Promise<void> {
+  // Clean output directory if it exists (always regenerate fresh)
+  if (existsSync(outDir)) {
+    await rm(outDir, { recursive: true, force: true });
+  }
+  await mkdir(outDir, { recursive: true });
+
+  const types: TypeRegistry = new Map();
+  for (const mod of site.allModules) {
+    for (const item of [...mod.structs, ...mod.traits, ...mod.aliases]) {
+      const defs = types.get(item.name) ?? new Map<string, string>();
+      defs.set(`${mod.fullPath}.${item.name}`, `${mod.urlPath}#${item.anchor}`);
+      types.set(item.name, defs);
+    }
+  }
+
+  const ctx: MarkdownContext = {
+    site,
+    mdx: options.mdx ?? false,
+    ext: options.mdx ? 'mdx' : 'md',
+    types,
+    currentFile: '',
+    scope: site.rootPackage.fullPath,
+  };
+
+  await writePackage(site.rootPackage, outDir, ctx);
+}
+
+/**
+ * Write a package page, its module pages and its subpackages.
+ */
+async function writePackage(pkg: Package, outDir: string, ctx: MarkdownContext): Promise<void> {
+  await writePage(outDir, packageFile(pkg, ctx), { ...ctx, scope: pkg.fullPath }, (c) =>
+    packagePage(pkg, c)
+  );
+
+  for (const mod of pkg.modules) {
+    // __init__ items are surfaced through the package page, as in the HTML site
+    if (mod.name === '__init__') continue;
+    await writePage(outDir, moduleFile(mod.urlPath, ctx), { ...ctx, scope: mod.fullPath }, (c) =>
+      modulePage(mod, c)
+    );
+  }
+
+  for (const sub of pkg.subpackages) {
+    await writePackage(sub, outDir, ctx);
+  }
+}
+
+async function writePage(
+  outDir: string,
+  file: string,
+  ctx: MarkdownContext,
+  build: (ctx: MarkdownContext) => string
+): Promise<void> {
+  const fullPath = join(outDir, file);
+  await mkdir(dirname(fullPath), { recursive: true });
+  await writeFile(fullPath, build({ ...ctx, currentFile: file }));
+}
+
+// ============================================================================
+// Pages
+// ============================================================================
+
+function packagePage(pkg: Package, ctx: MarkdownContext): string {
+  const out: string[] = [frontMatter(pkg.name, pkg.summary), `# ${pkg.name}`];
+
+  if (pkg.description) out.push(prose(pkg.description, ctx));
+  else if (pkg.summary) out.push(prose(pkg.summary, ctx));
+
+  for (const section of pkg.publicApi) {
+    if (section.items.length === 0) continue;
+    out.push(`## ${section.title}`);
+    out.push(
+      table(
+        ['Item', 'Description'],
+        section.items.map((item) => [publicItemLink(item, ctx), cell(prose(item.summary, ctx))])
+      )
+    );
+  }
+
+  const modules = pkg.modules.filter((m) => m.name !== '__init__');
+  if (modules.length > 0) {
+    out.push('## Modules');
+    out.push(
+      table(
+        ['Module', 'Description'],
+        modules.map((m) => [
+          `[\`${m.name}\`](${relativeLink(moduleFile(m.urlPath, ctx), ctx)})`,
+          cell(prose(m.summary, ctx)),
+        ])
+      )
+    );
+  }
+
+  if (pkg.subpackages.length > 0) {
+    out.push('## Subpackages');
+    out.push(
+      table(
+        ['Package', 'Description'],
+        pkg.subpackages.map((sub) => [
+          `[\`${sub.name}\`](${relativeLink(packageFile(sub, ctx), ctx)})`,
+          cell(prose(sub.summary, ctx)),
+        ])
+      )
+    );
+  }
+
+  return out.join('\n\n') + '\n';
+}
+
+function modulePage(mod: Module, ctx: MarkdownContext): string {
+  const out: string[] = [frontMatter(mod.name, mod.summary), `# ${mod.name}`];
+  if (mod.sourceUrl) out.push(sourceLink(mod.sourceUrl));
+
+  if (mod.description) out.push(prose(mod.description, ctx));
+  else if (mod.summary) out.push(prose(mod.summary, ctx));
+
+  if (mod.functions.length > 0) {
+    out.push('## Functions');
+    out.push(...mod.functions.map((fn) => functionSection(fn, fn.anchor, 3, ctx)));
+  }
+  if (mod.structs.length > 0) {
+    out.push('## Structs');
+    out.push(...mod.structs.map((s) => structSection(s, ctx)));
+  }
+  if (mod.traits.length > 0) {
+    out.push('## Traits');
+    out.push(...mod.traits.map((t) => traitSection(t, ctx)));
+  }
+  if (mod.aliases.length > 0) {
+    out.push('## Constants & Type Aliases');
+    out.push(...mod.aliases.map((a) => aliasSection(a, ctx)));
+  }
+
+  return out.join('\n\n') + '\n';
+}
+
+// ============================================================================
+// Items
+// ============================================================================
+
+function functionSection(
+  fn: FunctionItem,
+  anchor: string,
+  level: number,
+  ctx: MarkdownContext
+): string {
+  const out = [anchorTag(anchor), `${'#'.repeat(level)} \`${fn.name}\``];
+  if (fn.sourceUrl) out.push(sourceLink(fn.sourceUrl));
+  for (const overload of fn.overloads) {
+    out.push(overloadBody(overload, ctx));
+  }
+  return out.join('\n\n');
+}
+
+function overloadBody(overload: ProcessedOverload, ctx: MarkdownContext): string {
+  const out: string[] = [codeBlock(overload.signature)];
+  if (overload.constraints) out.push(`**Constraints:** \`${overload.constraints}\``);
+
+  if (overload.summary) out.push(prose(overload.summary, ctx));
+  if (overload.inheritedFrom) {
+    out.push(`*Documentation inherited from \`${overload.inheritedFrom}\`.*`);
+  }
+  if (overload.description && overload.description !== overload.summary) {
+    out.push(prose(overload.description, ctx));
+  }
+
+  if (overload.typeParams.length > 0) {
+    out.push('**Parameters:**');
+    out.push(
+      table(
+        ['Name', 'Type', 'Description'],
+        overload.typeParams.map((p) => [
+          `\`${p.name}\``,
+          p.type ? formatType(p.type, null, ctx) : '',
+          cell(prose(p.description, ctx)),
+        ])
+      )
+    );
+  }
+
+  if (overload.args.length > 0) {
+    out.push('**Args:**');
+    out.push(
+      table(
+        ['Name', 'Type', 'Description'],
+        overload.args.map((arg) => {
+          const notes = [
+            arg.convention !== 'read' ? `*${arg.convention}*` : '',
+            PASSING_KIND_LABELS[arg.passingKind] ? `*${PASSING_KIND_LABELS[arg.passingKind]}*` : '',
+            arg.default ? `Default: \`${arg.default}\`` : '',
+          ].filter(Boolean);
+          return [
+            `\`${arg.name}\``,
+            formatType(arg.type, arg.typePath, ctx),
+            cell([prose(arg.description, ctx), ...notes].filter(Boolean).join(' ')),
+          ];
+        })
+      )
+    );
+  }
+
+  if (overload.returns) {
+    const desc = overload.returns.description
+      ? ` — ${prose(overload.returns.description, ctx)}`
+      : '';
+    out.push(
+      `**Returns:** ${formatType(overload.returns.type, overload.returns.typePath, ctx)}${desc}`
+    );
+  }
+
+  if (overload.raises) {
+    out.push(`**Raises:** ${prose(overload.raises.description, ctx)}`);
+  }
+
+  if (overload.deprecated) {
+    out.push(`> **Deprecated:** ${prose(overload.deprecated, ctx)}`);
+  }
+
+  return out.join('\n\n');
+}
+
+function structSection(struct: StructItem, ctx: MarkdownContext): string {
+  const out = [anchorTag(struct.anchor), `### \`${struct.name}\``];
+  if (struct.sourceUrl) out.push(sourceLink(struct.sourceUrl));
+  out.push(codeBlock(struct.signature));
+
+  if (struct.summary) out.push(prose(struct.summary, ctx));
+  if (struct.description && struct.description !== struct.summary) {
+    out.push(prose(struct.description, ctx));
+  }
+
+  if (struct.fields.length > 0) {
+    out.push('**Fields:**');
+    out.push(
+      table(
+        ['Name', 'Type', 'Description'],
+        struct.fields.map((f) => [
+          `${anchorTag(`${struct.anchor}-${f.name}`)}\`${f.name}\``,
+          formatType(f.type, f.typePath, ctx),
+          cell(prose(f.summary || f.description, ctx)),
+        ])
+      )
+    );
+  }
+
+  if (struct.traitImpls.length > 0) {
+    out.push('**Trait Implementations:**');
+    out.push(
+      struct.traitImpls
+        .map((impl) => {
+          const methods = impl.methods
+            .map((name) => {
+              const method = struct.methods.find((m) => m.name === name);
+              return method ? `[\`${name}\`](#${struct.anchor}-${method.anchor})` : `\`${name}\``;
+            })
+            .join(', ');
+          return `- ${traitLink(impl, ctx)}${methods ? `: ${methods}` : ''}`;
+        })
+        .join('\n')
+    );
+  }
+
+  const inherited = struct.traitImpls.flatMap((impl) =>
+    impl.inherited.map((m) => ({ ...m, trait: impl.name }))
+  );
+  if (inherited.length > 0) {
+    out.push('**Inherited Methods:**');
+    out.push(
+      inherited
+        .map(
+          (m) =>
+            `- [\`${m.name}\`](${relativeLink(moduleFile(m.urlPath, ctx), ctx, m.anchor)}) from \`${m.trait}\``
+        )
+        .join('\n')
+    );
+  }
+
+  if (struct.deprecated) {
+    out.push(`> **Deprecated:** ${prose(struct.deprecated, ctx)}`);
+  }
+
+  if (struct.methods.length > 0) {
+    out.push(`#### Methods`);
+    out.push(
+      ...struct.methods.map((m) => functionSection(m, `${struct.anchor}-${m.anchor}`, 5, ctx))
+    );
+  }
+
+  return out.join('\n\n');
+}
+
+function traitSection(trait: TraitItem, ctx: MarkdownContext): string {
+  const out = [anchorTag(trait.anchor), `### \`${trait.name}\``];
+  if (trait.sourceUrl) out.push(sourceLink(trait.sourceUrl));
+  out.push(codeBlock(trait.signature));
+
+  if (trait.summary) out.push(prose(trait.summary, ctx));
+  if (trait.description && trait.description !== trait.summary) {
+    out.push(prose(trait.description, ctx));
+  }
+
+  if (trait.deprecated) {
+    out.push(`> **Deprecated:** ${prose(trait.deprecated, ctx)}`);
+  }
+
+  if (trait.implementors.length > 0) {
+    out.push('**Implementors:**');
+    out.push(
+      trait.implementors
+        .map(
+          (impl) =>
+            `- [\`${impl.name}\`](${relativeLink(moduleFile(impl.urlPath, ctx), ctx, impl.anchor)})`
+        )
+        .join('\n')
+    );
+  }
+
+  const required = trait.methods.filter((m) => !isProvidedMethod(m));
+  const provided = trait.methods.filter((m) => isProvidedMethod(m));
+  for (const [title, methods] of [
+    ['Required Methods', required],
+    ['Provided Methods', provided],
+  ] as const) {
+    if (methods.length === 0) continue;
+    out.push(`#### ${title}`);
+    out.push(...methods.map((m) => functionSection(m, `${trait.anchor}-${m.anchor}`, 5, ctx)));
+  }
+
+  return out.join('\n\n');
+}
+
+function aliasSection(alias: AliasItem, ctx: MarkdownContext): string {
+  const out = [anchorTag(alias.anchor), `### \`${alias.name}\``];
+  if (alias.sourceUrl) out.push(sourceLink(alias.sourceUrl));
+  out.push(codeBlock(alias.signature));
+
+  if (alias.value) out.push(`**Value:** \`${alias.value}\``);
+  if (alias.summary) out.push(prose(alias.summary, ctx));
+  if (alias.description && alias.description !== alias.summary) {
+    out.push(prose(alias.description, ctx));
+  }
+  if (alias.deprecated) {
+    out.push(`> **Deprecated:** ${prose(alias.deprecated, ctx)}`);
+  }
+
+  return out.join('\n\n');
+}
+
+// ============================================================================
+// Links
+// ============================================================================
+
+function packageFile(pkg: Package, ctx: MarkdownContext): string {
+  return `${pkg.path.replace(/\./g, '/')}/index.${ctx.ext}`;
+}
+
+function moduleFile(urlPath: string, ctx: MarkdownContext): string {
+  return `${urlPath}.${ctx.ext}`;
+}
+
+/**
+ * Link from the current page to another output file, optionally at an anchor.
+ */
+function relativeLink(targetFile: string, ctx: MarkdownContext, anchor?: string): string {
+  const from = posix.dirname(ctx.currentFile);
+  const rel = targetFile === ctx.currentFile ? '' : posix.relative(from, targetFile);
+  return anchor ? `${rel}#${anchor}` : rel;
+}
+
+function publicItemLink(item: PublicApiItem, ctx: MarkdownContext): string {
+  return `[\`${item.name}\`](${relativeLink(moduleFile(item.urlPath, ctx), ctx, item.anchor)})`;
+}
+
+function traitLink(impl: TraitImpl, ctx: MarkdownContext): string {
+  const local = impl.path ? ctx.types.get(impl.name)?.get(impl.path) : undefined;
+  if (local) return `[\`${impl.name}\`](${localLink(local, ctx)})`;
+  return impl.href && /^https?:\/\//.test(impl.href)
+    ? `[\`${impl.name}\`](${impl.href})`
+    : `\`${impl.name}\``;
+}
+
+/**
+ * Render a type with each component linked: local types relative to the
+ * current page, stdlib types to docs.modular.com.
+ */
+function formatType(type: string, typePath: string | null, ctx: MarkdownContext): string {
+  let first = true;
+  return type
+    .split(/([A-Za-z_][A-Za-z0-9_]*)/)
+    .map((part, i) => {
+      if (!part) return '';
+      if (i % 2 === 0) return cell(part.replace(/([[\]*_`])/g, '\\$1'));
+
+      // mojo doc's path describes the outermost type only
+      const href = typeHref(part, first ? typePath : null, ctx);
+      first = false;
+      return href ? `[\`${part}\`](${href})` : `\`${part}\``;
+    })
+    .join('');
+}
+
+/**
+ * Link for a type name: the definition at its mojo doc path when known, else
+ * the local definition nearest the current page, else an inferred stdlib URL.
+ * Names with several equally near local definitions stay unlinked.
+ */
+function typeHref(name: string, typePath: string | null, ctx: MarkdownContext): string | null {
+  if (typePath?.startsWith('/std/')) {
+    return resolveTypePath(typePath, ctx.site.config.baseUrl, ctx.site.rootPackage.name);
+  }
+  const declared = typePath ? ctx.types.get(name)?.get(qualifiedTypePath(typePath, name)) : null;
+  const { href, candidates } = declared
+    ? { href: declared, candidates: [] }
+    : lookupType(ctx.types, name, ctx.scope);
+  if (href) return localLink(href, ctx);
+  return candidates.length > 0 ? null : inferStdlibUrl(name);
+}
+
+/**
+ * Relative link to a `<urlPath>#<anchor>` registry entry.
+ */
+function localLink(target: string, ctx: MarkdownContext): string {
+  const [urlPath, anchor] = target.split('#');
+  return relativeLink(moduleFile(urlPath, ctx), ctx, anchor);
+}
+
+// ============================================================================
+// Markdown helpers
+// ============================================================================
+
+function frontMatter(title: string, description: string): string {
+  const lines = ['---', `title: ${JSON.stringify(title)}`];
+  if (description) lines.push(`description: ${JSON.stringify(description.replace(/\s+/g, ' '))}`);
+  lines.push('---');
+  return lines.join('\n');
+}
+
+function anchorTag(id: string): string {
+  return `<a id="${id}"></a>`;
+}
+
+function sourceLink(url: string): string {
+  return `[[src]](${url})`;
+}
+
+function codeBlock(code: string): string {
+  return '```mojo\n' + code + '\n```';
+}
+
+function table(headers: string[], rows: string[][]): string {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.join(' | ')} |`),
+  ].join('\n');
+}
+
+/**
+ * Make text safe for a single table cell.
+ */
+function cell(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|');
+}
+
+/**
+ * Pass docstring markdown through, escaping JSX-significant characters
+ * outside code when writing MDX.
+ */
+function prose(text: string, ctx: MarkdownContext): string {
+  if (!text || !ctx.mdx) return text || '';
+
+  let inFence = false;
+  return text
+    .split('\n')
+    .map((line) => {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+        return line;
+      }
+      if (inFence) return line;
+      return line
+        .split(/(`[^`]*`)/)
+        .map((part, i) =>
+          i % 2 === 1 ? part : part.replace(/[{}]/g, '\\$&').replace(/</g, '&lt;')
+        )
+        .join('');
+    })
+    .join('\n');
+}
@@ -4,20 +4,38 @@
 
 import { mkdir, writeFile, rm } from 'fs/promises';
 import { existsSync } from 'fs';
-import { join } from 'path';
+import { dirname, join } from 'path';
 import type { DocSite, Module, Package } from '@mojodoc/transform';
-import { layoutTemplate, moduleTemplate, packageIndexTemplate } from './templates.js';
+import { SOURCE_PAGES_DIR, highlightSourceLines, locateDeclarations } from '@mojodoc/transform';
+import {
+  layoutTemplate,
+  moduleTemplate,
+  packageIndexTemplate,
+  sourcePageTemplate,
+} from './templates.js';
+import { buildSearchIndexFiles, type SearchIndexReport } from './search-index.js';
 import { styles } from './styles.js';
 import { scripts } from './scripts.js';
 
 export interface RenderOptions {
-  outDir: string;
+  /** Package sources (relative path → content) to render as highlighted source pages */
+  sourceFiles?: Map<string, string>;
+  /** Split the search index into per-letter shards loaded as queries need them */
+  shardSearchIndex?: boolean;
+}
+
+export interface RenderReport {
+  searchIndex: SearchIndexReport;
 }
 
 /**
  * Render a DocSite to static HTML files.
  */
-export async function render(site: DocSite, outDir: string): Promise<void> {
+export async function render(
+  site: DocSite,
+  outDir: string,
+  options: RenderOptions = {}
+): Promise<RenderReport> {
   // Clean output directory if it exists (always regenerate fresh)
   if (existsSync(outDir)) {
     await rm(outDir, { recursive: true, force: true });
@@ -32,12 +50,31 @@ export async function render(site: DocSite, outDir: string): Promise<void> {
   // Render package index
   await renderPackage(site, site.rootPackage, outDir, '');
 
-  // Write search index
-  await writeFile(join(outDir, 'search-index.json'), JSON.stringify(site.searchIndex, null, 2));
+  // Render source pages
+  if (options.sourceFiles) {
+    await renderSourcePages(site, options.sourceFiles, outDir);
+  }
+
+  // Write search index files, fetched by the search modal on first use
+  const searchFiles = buildSearchIndexFiles(site.searchIndex, options.shardSearchIndex);
+  let searchBytes = 0;
+  for (const [path, content] of searchFiles) {
+    await mkdir(dirname(join(outDir, path)), { recursive: true });
+    await writeFile(join(outDir, path), content);
+    searchBytes += Buffer.byteLength(content);
+  }
 
   // Write root redirect to package index
   const redirectHtml = rootRedirectTemplate(site.rootPackage.name, site.config.baseUrl);
   await writeFile(join(outDir, 'index.html'), redirectHtml);
+
+  return {
+    searchIndex: {
+      items: site.searchIndex.items.length,
+      bytes: searchBytes,
+      shards: [...searchFiles.keys()].filter((path) => path.startsWith('search/')).length,
+    },
+  };
 }
 
 /**
@@ -132,51 +169,69 @@ async function renderModule(
 
   const currentPath = `${parentPath}/${mod.name}`;
 
-  // Build source link if repository is configured
-  const sourceLink = site.config.repository
-    ? buildSourceLink(site.config.repository, site.rootPackage.name, mod.sourceFile)
-    : null;
-
-  const content = moduleTemplate(mod, sourceLink, site.config.baseUrl);
+  const content = moduleTemplate(mod, mod.sourceUrl, site.config.baseUrl);
   const html = layoutTemplate(content, site, currentPath);
 
   await writeFile(join(modDir, 'index.html'), html);
 }
 
 /**
- * Get the relative path to root from a given path.
+ * Render a highlighted page per source file under `src/`, linking each
+ * declaration back to its doc item.
  */
-export function getRelativeRoot(path: string): string {
-  const depth = path.split('/').filter(Boolean).length;
-  if (depth === 0) return '.';
-  return Array(depth).fill('..').join('/');
+async function renderSourcePages(
+  site: DocSite,
+  sourceFiles: Map<string, string>,
+  outDir: string
+): Promise<void> {
+  // __init__ modules have no page of their own
+  const modules = new Map(
+    site.allModules.filter((m) => m.name !== '__init__').map((m) => [m.sourceFile, m])
+  );
+
+  for (const [file, source] of sourceFiles) {
+    const mod = modules.get(file);
+    const moduleUrl = mod ? `${site.config.baseUrl}${mod.urlPath}/index.html` : null;
+
+    const docLinks = new Map<number, string>();
+    if (mod) {
+      const anchors = itemAnchors(mod);
+      for (const [path, range] of locateDeclarations(source)) {
+        const anchor = anchors.get(path);
+        if (anchor) docLinks.set(range.start, `${moduleUrl}#${anchor}`);
+      }
+    }
+
+    const pagePath = join(outDir, SOURCE_PAGES_DIR, `${file}.html`);
+    await mkdir(dirname(pagePath), { recursive: true });
+    const content = sourcePageTemplate(file, highlightSourceLines(source), docLinks, moduleUrl);
+    await writeFile(pagePath, layoutTemplate(content, site, `${SOURCE_PAGES_DIR}/${file}`));
+  }
 }
 
 /**
- * Build a source link URL for GitHub/GitLab repositories.
- *
- * @param repository - Repository URL (e.g., "https://github.com/user/repo")
- * @param packageName - Package name (e.g., "mojson")
- * @param sourceFile - Source file path relative to package (e.g., "config.mojo")
- * @returns Full URL to source file on the repository hosting platform
+ * Anchor of every item and struct/trait member on a module page, keyed like
+ * the paths of `locateDeclarations`.
  */
-export function buildSourceLink(
-  repository: string,
-  packageName: string,
-  sourceFile: string
-): string {
-  // Normalize repository URL (remove trailing slash)
-  const repoUrl = repository.replace(/\/$/, '');
-
-  // Determine the hosting platform and build the appropriate URL
-  if (repoUrl.includes('github.com')) {
-    // GitHub: https://github.com/user/repo/blob/main/pkg/file.mojo
-    return `${repoUrl}/blob/main/${packageName}/${sourceFile}`;
-  } else if (repoUrl.includes('gitlab.com')) {
-    // GitLab: https://gitlab.com/user/repo/-/blob/main/pkg/file.mojo
-    return `${repoUrl}/-/blob/main/${packageName}/${sourceFile}`;
-  } else {
-    // Generic: assume similar to GitHub structure
-    return `${repoUrl}/blob/main/${packageName}/${sourceFile}`;
+function itemAnchors(mod: Module): Map<string, string> {
+  const anchors = new Map<string, string>();
+  for (const item of [...mod.functions, ...mod.aliases]) {
+    anchors.set(item.name, item.anchor);
   }
+  for (const owner of [...mod.structs, ...mod.traits]) {
+    anchors.set(owner.name, owner.anchor);
+    for (const method of owner.methods) {
+      anchors.set(`${owner.name}.${method.name}`, `${owner.anchor}-${method.anchor}`);
+    }
+  }
+  return anchors;
+}
+
+/**
+ * Get the relative path to root from a given path.
+ */
+export function getRelativeRoot(path: string): string {
+  const depth = path.split('/').filter(Boolean).length;
+  if (depth === 0) return '.';
+  return Array(depth).fill('..').join('/');
 }
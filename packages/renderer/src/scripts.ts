@@ -3,6 +3,8 @@
  * Inferno Design System - Modern interactions for Mojo docs.
  */
 
+import { searchScripts } from './search-scripts.js';
+
 export const scripts = `
 (function() {
   'use strict';
@@ -64,11 +66,148 @@ export const scripts = `
   const searchModal = document.getElementById('search-modal');
   const searchInput = document.getElementById('search-input');
   const searchResults = document.getElementById('search-results');
-  const searchIndex = window.SEARCH_INDEX?.items || [];
+  const searchMode = document.getElementById('search-mode');
+  const searchFilters = document.getElementById('search-filters');
 
   let selectedIndex = -1;
+  // Group results by 'kind' or 'module', or not at all
+  let groupBy = '';
+
+  // --------------------------------------------------------------------------
+  // Index loading: search-index.json is fetched on first use and holds every
+  // item, or the list of per-letter shards under search/ when sharded; the
+  // full-text index in search-text.json is fetched for word queries. Files
+  // are cached in sessionStorage per index version across page loads.
+  // --------------------------------------------------------------------------
+
+  const searchVersion = window.SEARCH_INDEX_VERSION || '';
+  let searchIndex = [];
+  let searchManifest = null;
+  const searchShards = new Map();
+  let pendingLoads = 0;
+
+  function fetchIndexFile(path) {
+    const cacheKey = 'mojodoc-search:' + searchVersion + ':' + path;
+    try {
+      const cached = sessionStorage.getItem(cacheKey);
+      if (cached) return Promise.resolve(JSON.parse(cached));
+    } catch (e) {
+      // Storage disabled; fall through to the network
+    }
+    return fetch((window.BASE_URL || '/') + path + '?v=' + searchVersion)
+      .then(res => {
+        if (!res.ok) throw new Error(path + ': HTTP ' + res.status);
+        return res.text();
+      })
+      .then(text => {
+        const data = JSON.parse(text);
+        try {
+          sessionStorage.setItem(cacheKey, text);
+        } catch (e) {
+          // Quota exceeded; the browser cache still has it
+        }
+        return data;
+      });
+  }
+
+  function unpackItems(fields, rows) {
+    return rows.map(row => {
+      const item = {};
+      fields.forEach((field, i) => { item[field] = row[i]; });
+      item.id = item.fullPath;
+      return item;
+    });
+  }
+
+  // Failed loads are forgotten so that the next query retries them
+  function loadManifest() {
+    if (!searchManifest) {
+      searchManifest = fetchIndexFile('search-index.json').then(manifest => {
+        if (manifest.items) searchIndex = unpackItems(manifest.fields, manifest.items);
+        return manifest;
+      }, error => {
+        searchManifest = null;
+        throw error;
+      });
+    }
+    return searchManifest;
+  }
+
+  function loadShards(manifest, keys) {
+    return Promise.all(keys.filter(key => Object.hasOwn(manifest.shards, key)).map(key => {
+      if (!searchShards.has(key)) {
+        searchShards.set(key, fetchIndexFile('search/' + key + '.json').then(rows => {
+          searchIndex = searchIndex.concat(unpackItems(manifest.fields, rows));
+        }, error => {
+          searchShards.delete(key);
+          throw error;
+        }));
+      }
+      return searchShards.get(key);
+    }));
+  }
+
+  function shardKey(name) {
+    const first = (name.split('.').pop() || '').charAt(0).toLowerCase();
+    return /[a-z]/.test(first) ? first : '_';
+  }
+
+  function loadFullText() {
+    if (!fullTextLoad) {
+      fullTextLoad = fetchIndexFile('search-text.json').then(index => {
+        fullText = prepareFullText(index);
+      }, error => {
+        fullTextLoad = null;
+        throw error;
+      });
+    }
+    return fullTextLoad;
+  }
+
+  // Load what a query needs, re-running it as items arrive. Word queries load
+  // the shard of the name they start with, the shards of their best full-text
+  // matches, and every shard only when no name in the first starts with the
+  // query (a substring query). Type and filter-only queries need every shard.
+  function loadIndexFor(query) {
+    const refresh = () => {
+      if (searchInput.value === query) showResults(query);
+    };
+    const text = parseQuery(query).text;
+    const wordQuery = !!text && !text.includes('->');
+    const prefix = (text.split('.').pop() || '').toLowerCase();
+    const startsWithQuery = item => (item.name.split('.').pop() || '').toLowerCase().startsWith(prefix);
+    pendingLoads++;
+    return Promise.all([
+      loadManifest().then(manifest => {
+        if (!manifest.shards) return;
+        const all = Object.keys(manifest.shards);
+        if (!wordQuery) return loadShards(manifest, all);
+        return loadShards(manifest, [shardKey(text)]).then(() => {
+          refresh();
+          if (!searchIndex.some(startsWithQuery)) return loadShards(manifest, all);
+        });
+      }),
+      wordQuery
+        ? Promise.all([loadManifest(), loadFullText()]).then(([manifest]) => {
+          refresh();
+          if (!manifest.shards) return;
+          const best = Array.from(searchFullText(fullText, text).scores)
+            .sort((a, b) => b[1].score - a[1].score)
+            .slice(0, 15)
+            .map(([id]) => shardKey(id));
+          return loadShards(manifest, Array.from(new Set(best)));
+        })
+        : null
+    ])
+      .catch(error => console.warn('mojodoc: could not load the search index', error))
+      .finally(() => {
+        pendingLoads--;
+        refresh();
+      });
+  }
 
   function openSearch() {
+    loadManifest().catch(() => {});
     searchModal?.removeAttribute('hidden');
     searchInput?.focus();
     document.body.style.overflow = 'hidden';
@@ -89,22 +228,40 @@ export const scripts = `
       dialog?.classList.remove('animate-out');
       if (searchInput) searchInput.value = '';
       if (searchResults) searchResults.innerHTML = '';
+      searchMode?.setAttribute('hidden', '');
+      updateFilterChips(parseQuery(''));
       selectedIndex = -1;
       document.body.style.overflow = '';
     }, 150);
   }
 
   function search(query) {
+    showResults(query);
+    if (query.trim()) loadIndexFor(query);
+  }
+
+  function showResults(query) {
+    const parsed = parseQuery(query);
+    // "String -> Int", "-> Value", "List[Int] ->": search by type signature
+    const typeMode = parsed.text.includes('->');
+    searchMode?.toggleAttribute('hidden', !typeMode);
+    updateFilterChips(parsed);
+
     if (!query.trim()) {
       searchResults.innerHTML = renderSearchHint();
       selectedIndex = -1;
       return;
     }
 
-    const q = query.toLowerCase();
-    const results = searchIndex
+    // Filters alone ("trait:", "in:net deprecated:") list what they let through
+    const q = parsed.text.toLowerCase();
+    const candidates = searchIndex.filter(item => matchesFilters(item, parsed));
+    const text = typeMode || !q ? null : searchFullText(fullText, parsed.text);
+    const results = groupResults(!q ? candidates.slice(0, 50) : typeMode ? searchByType(q, candidates) : candidates
       .map(item => {
-        let score = 0;
+        // Docs mentioning the query's words add their full-text rank
+        const textMatch = text.scores.get(item.id);
+        let score = textMatch ? textMatch.score * 10 : 0;
         const nameLower = item.name.toLowerCase();
         const pathLower = item.fullPath.toLowerCase();
 
@@ -120,11 +277,20 @@ export const scripts = `
         if (item.summary.toLowerCase().includes(q)) score += 5;
         if (item.signature.toLowerCase().includes(q)) score += 5;
 
-        return { ...item, score };
+        return { ...item, score, textMatch };
       })
       .filter(item => item.score > 0)
       .sort((a, b) => b.score - a.score)
-      .slice(0, 15);
+      .slice(0, 15)
+      .map(item => item.textMatch
+        ? { ...item, snippet: textSnippet(fullText.texts[item.textMatch.doc], text.terms) }
+        : item));
+
+    if (results.length === 0 && pendingLoads > 0) {
+      searchResults.innerHTML = '<div class="search-empty">Loading search index…</div>';
+      selectedIndex = -1;
+      return;
+    }
 
     if (results.length === 0) {
       searchResults.innerHTML = \`
@@ -138,27 +304,147 @@ export const scripts = `
     }
 
     const baseUrl = window.BASE_URL || '/';
-    searchResults.innerHTML = results.map((item, idx) => \`
+    let lastGroup = '';
+    searchResults.innerHTML = results.map((item, idx) => {
+      const group = groupBy ? groupLabel(item) : '';
+      const header = group && group !== lastGroup
+        ? \`<div class="search-group">\${escapeHtml(group)}</div>\`
+        : '';
+      lastGroup = group;
+      return header + \`
       <a href="\${baseUrl}\${item.urlPath}/index.html#\${item.anchor}"
          class="search-result \${idx === selectedIndex ? 'selected' : ''}"
          data-index="\${idx}">
         <div class="search-result-header">
           <span class="kind-badge \${item.kind}">\${kindLabel(item.kind)}</span>
-          <span class="search-result-name">\${highlightMatch(item.name, query)}</span>
+          <span class="search-result-name">\${typeMode || !q ? escapeHtml(item.name) : highlightMatch(item.name, parsed.text)}</span>
         </div>
         <div class="search-result-path">\${escapeHtml(item.fullPath)}</div>
+        \${typeMode ? \`<div class="search-result-signature">\${escapeHtml(item.signature)}</div>\` : ''}
         \${item.summary ? \`<div class="search-result-summary">\${escapeHtml(item.summary)}</div>\` : ''}
+        \${item.snippet ? \`<div class="search-result-snippet">\${item.snippet}</div>\` : ''}
       </a>
-    \`).join('');
+    \`;
+    }).join('');
 
     selectedIndex = 0;
     updateSelection();
   }
 
+  // --------------------------------------------------------------------------
+  // Filter chips: the chips under the input toggle query filters and group
+  // the results.
+  // --------------------------------------------------------------------------
+
+  const KIND_GROUPS = {
+    function: 'Functions',
+    method: 'Methods',
+    struct: 'Structs',
+    trait: 'Traits',
+    alias: 'Aliases',
+    field: 'Fields'
+  };
+
+  // Add a filter to the query, or take it (but not its text) back out
+  function toggleFilter(key) {
+    const prefix = key + ':';
+    const words = searchInput.value.trim().split(/\\s+/).filter(Boolean);
+    const active = words.some(word => word.toLowerCase().startsWith(prefix));
+    const next = active
+      ? words.map(word => word.toLowerCase().startsWith(prefix) ? word.slice(prefix.length) : word)
+      : [prefix, ...words];
+    searchInput.value = next.filter(Boolean).join(' ') + (active ? '' : ' ');
+    search(searchInput.value);
+  }
+
+  function updateFilterChips(parsed) {
+    searchFilters?.querySelectorAll('.search-chip').forEach(chip => {
+      const active = chip.dataset.filter
+        ? parsed.keys.has(chip.dataset.filter)
+        : groupBy === chip.dataset.group;
+      chip.classList.toggle('active', active);
+      chip.setAttribute('aria-pressed', String(active));
+    });
+  }
+
+  function groupLabel(item) {
+    return groupBy === 'kind' ? KIND_GROUPS[item.kind] || item.kind : item.urlPath.replace(/\\//g, '.');
+  }
+
+  // Keep results of a group together, groups in the order of their best result
+  function groupResults(results) {
+    if (!groupBy) return results;
+    const groups = new Map();
+    results.forEach(item => {
+      const label = groupLabel(item);
+      if (!groups.has(label)) groups.set(label, []);
+      groups.get(label).push(item);
+    });
+    return [...groups.values()].flat();
+  }
+
+  searchFilters?.addEventListener('click', (e) => {
+    const chip = e.target.closest('.search-chip');
+    if (!chip) return;
+    if (chip.dataset.filter) {
+      toggleFilter(chip.dataset.filter);
+    } else {
+      groupBy = groupBy === chip.dataset.group ? '' : chip.dataset.group;
+      showResults(searchInput.value);
+    }
+  });
+
+  // Arrow keys move between chips; up/down go back to the results
+  searchFilters?.addEventListener('keydown', (e) => {
+    const chips = [...searchFilters.querySelectorAll('.search-chip')];
+    const at = chips.indexOf(document.activeElement);
+    if (e.key === 'ArrowRight' || e.key === 'ArrowLeft') {
+      e.preventDefault();
+      const step = e.key === 'ArrowRight' ? 1 : -1;
+      chips[(at + step + chips.length) % chips.length]?.focus();
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      searchInput.focus();
+    } else if (e.key === 'Escape') {
+      closeSearch();
+    }
+  });
+
+  // --------------------------------------------------------------------------
+  // Full-text results: the index is fetched for the first word query, and
+  // results show the docs around the words that matched.
+  // --------------------------------------------------------------------------
+
+  let fullText = null;
+  let fullTextLoad = null;
+
+  // Excerpt around the first matched word, with every matched word marked
+  function textSnippet(text, terms) {
+    const hits = [...text.matchAll(/[A-Za-z0-9]+/g)]
+      .filter(m => tokenize(m[0]).some(token => terms.has(token)));
+    if (hits.length === 0) return '';
+
+    let start = Math.max(0, hits[0].index - 40);
+    if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+    const end = Math.min(text.length, start + 160);
+    let html = start > 0 ? '…' : '';
+    let at = start;
+    hits.filter(m => m.index >= start && m.index + m[0].length <= end).forEach(m => {
+      html += escapeHtml(text.slice(at, m.index)) + '<mark>' + escapeHtml(m[0]) + '</mark>';
+      at = m.index + m[0].length;
+    });
+    return html + escapeHtml(text.slice(at, end)) + (end < text.length ? '…' : '');
+  }
+
+  // Query parsing, full-text scoring and type signature matching (search-scripts.ts)
+${searchScripts}
+
   function renderSearchHint() {
     return \`
       <div class="search-hint" style="padding: 2rem; text-align: center; color: var(--text-muted);">
-        <div style="font-size: 1rem; margin-bottom: 1rem;">Search for functions, structs, traits...</div>
+        <div style="font-size: 1rem; margin-bottom: 0.5rem;">Search for functions, structs, traits, or words in their docs...</div>
+        <div style="font-size: 0.85rem; margin-bottom: 0.5rem;">or by type: <code>String -> Int</code>, <code>-> Value</code>, <code>List[Int] -></code></div>
+        <div style="font-size: 0.85rem; margin-bottom: 1rem;">Filter: <code>fn:load</code>, <code>struct:Parser</code>, <code>in:net.http</code>, <code>public:</code>, <code>deprecated:</code></div>
         <div style="display: flex; gap: 1rem; justify-content: center; font-size: 0.8rem;">
           <span><kbd style="background: var(--bg-raised); padding: 2px 8px; border-radius: 4px; border: 1px solid var(--border-subtle);">↑↓</kbd> Navigate</span>
           <span><kbd style="background: var(--bg-raised); padding: 2px 8px; border-radius: 4px; border: 1px solid var(--border-subtle);">↵</kbd> Select</span>
@@ -581,7 +867,8 @@ export const scripts = `
   // Anchor Link Smooth Scroll
   // ============================================================================
 
-  document.querySelectorAll('a[href^="#"]').forEach(anchor => {
+  // Line links on source pages are handled by the source view below
+  document.querySelectorAll('a[href^="#"]:not(.line-number)').forEach(anchor => {
     anchor.addEventListener('click', function (e) {
       const href = this.getAttribute('href');
       if (href === '#') return;
@@ -608,6 +895,43 @@ export const scripts = `
     });
   });
 
+  // ============================================================================
+  // Source View: highlight #L3-L11 ranges, shift-click extends the selection
+  // ============================================================================
+
+  function highlightSourceRange(scroll) {
+    document.querySelectorAll('.source-line.highlighted').forEach(line => {
+      line.classList.remove('highlighted');
+    });
+    const match = /^#L(\\d+)(?:-L(\\d+))?$/.exec(window.location.hash);
+    if (!match) return;
+
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? parseInt(match[2], 10) : start;
+    for (let n = start; n <= end; n++) {
+      document.getElementById('L' + n)?.classList.add('highlighted');
+    }
+    if (scroll) document.getElementById('L' + start)?.scrollIntoView({ block: 'center' });
+  }
+
+  if (document.querySelector('.source-view')) {
+    document.querySelectorAll('.line-number').forEach(link => {
+      link.addEventListener('click', (e) => {
+        e.preventDefault();
+        const line = parseInt(link.textContent, 10);
+        const current = /^#L(\\d+)/.exec(window.location.hash);
+        const anchor = current ? parseInt(current[1], 10) : line;
+        const range = e.shiftKey && anchor !== line
+          ? 'L' + Math.min(anchor, line) + '-L' + Math.max(anchor, line)
+          : 'L' + line;
+        history.replaceState(null, '', '#' + range);
+        highlightSourceRange(false);
+      });
+    });
+    window.addEventListener('hashchange', () => highlightSourceRange(true));
+    highlightSourceRange(true);
+  }
+
   // ============================================================================
   // Utility Functions
   // ============================================================================
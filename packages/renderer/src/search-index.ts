@@ -0,0 +1,111 @@
+/**
+ * Search index assets - the compact, optionally sharded files the search modal
+ * fetches on first use instead of an index inlined into every page.
+ *
+ * Items are stored as rows of `SEARCH_INDEX_FIELDS` values. Unsharded, the
+ * whole index is `search-index.json`; sharded, that file lists the shards and
+ * `search/<key>.json` holds the items whose name starts with `<key>`.
+ * `search-text.json` holds the full-text index over the items' docs, fetched
+ * only for free-text queries.
+ */
+
+import { createHash } from 'crypto';
+import type { SearchIndex, SearchItem } from '@mojodoc/transform';
+
+/** Item fields in row order; `id` is left out as it equals `fullPath`. */
+export const SEARCH_INDEX_FIELDS = [
+  'kind',
+  'name',
+  'fullPath',
+  'urlPath',
+  'anchor',
+  'signature',
+  'summary',
+  'inputTypes',
+  'outputType',
+  'typeParams',
+  'deprecated',
+  'public',
+] as const satisfies ReadonlyArray<keyof SearchItem>;
+
+/** Contents of `search-index.json`. */
+export interface SearchIndexManifest {
+  /** Content hash; pages pass it so browsers cache each version of the index */
+  version: string;
+  fields: typeof SEARCH_INDEX_FIELDS;
+  /** Every item, when the index is not sharded */
+  items?: unknown[][];
+  /** Shard key → item count, when it is */
+  shards?: Record<string, number>;
+}
+
+export interface SearchIndexReport {
+  items: number;
+  /** Total size of the index files */
+  bytes: number;
+  /** Number of shard files (0 when unsharded) */
+  shards: number;
+}
+
+/**
+ * Content hash of a search index, computed once per index.
+ */
+export function searchIndexVersion(index: SearchIndex): string {
+  let version = versions.get(index);
+  if (!version) {
+    version = createHash('sha1').update(JSON.stringify(index)).digest('hex').slice(0, 12);
+    versions.set(index, version);
+  }
+  return version;
+}
+
+/**
+ * Shard an item belongs to: the first letter of the last segment of its name,
+ * so `Config.to_string` sits with the other names a "to" query looks for.
+ */
+export function searchShardKey(name: string): string {
+  const first = (name.split('.').pop() || '').charAt(0).toLowerCase();
+  return /[a-z]/.test(first) ? first : '_';
+}
+
+/**
+ * Serialize a search index into its files (path relative to the site root →
+ * content), sharded by `searchShardKey` when `shard` is set.
+ */
+export function buildSearchIndexFiles(index: SearchIndex, shard = false): Map<string, string> {
+  const files = new Map<string, string>();
+  const manifest: SearchIndexManifest = {
+    version: searchIndexVersion(index),
+    fields: SEARCH_INDEX_FIELDS,
+  };
+
+  if (!shard) {
+    manifest.items = index.items.map(toRow);
+  } else {
+    const shards = new Map<string, unknown[][]>();
+    for (const item of index.items) {
+      const key = searchShardKey(item.name);
+      if (!shards.has(key)) shards.set(key, []);
+      shards.get(key)!.push(toRow(item));
+    }
+    manifest.shards = {};
+    for (const [key, rows] of [...shards].sort(([a], [b]) => a.localeCompare(b))) {
+      manifest.shards[key] = rows.length;
+      files.set(`search/${key}.json`, JSON.stringify(rows));
+    }
+  }
+
+  files.set('search-index.json', JSON.stringify(manifest));
+  files.set('search-text.json', JSON.stringify(index.fullText));
+  return files;
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+const versions = new WeakMap<SearchIndex, string>();
+
+function toRow(item: SearchItem): unknown[] {
+  return SEARCH_INDEX_FIELDS.map((field) => item[field]);
+}
@@ -0,0 +1,272 @@
+/**
+ * Client-side search logic: query filters, full-text scoring and type
+ * signature matching, the browser counterparts of parseSearchQuery,
+ * matchesSearchFilters and the type search in search-index.ts and of
+ * full-text.ts. They use no DOM or page state, so tests run them against the
+ * @mojodoc/transform functions.
+ */
+
+export const searchScripts = `
+  // --------------------------------------------------------------------------
+  // Query filters: "fn:load", "struct:Parser", "in:net.http", "trait:",
+  // "deprecated:", "public:".
+  // --------------------------------------------------------------------------
+
+  const KIND_FILTERS = {
+    fn: ['function', 'method'],
+    struct: ['struct'],
+    trait: ['trait'],
+    alias: ['alias'],
+    field: ['field']
+  };
+
+  function isFilterKey(key) {
+    return key === 'in' || key === 'deprecated' || key === 'public' || Object.hasOwn(KIND_FILTERS, key);
+  }
+
+  function parseQuery(query) {
+    const parsed = { text: '', kinds: [], scope: null, deprecated: false, public: false, keys: new Set() };
+    const words = [];
+
+    query.trim().split(/\\s+/).forEach(word => {
+      const filter = /^(\\w+):(.*)$/.exec(word);
+      const key = filter ? filter[1].toLowerCase() : '';
+      if (!filter || !isFilterKey(key)) {
+        words.push(word);
+        return;
+      }
+      parsed.keys.add(key);
+      const value = filter[2];
+      if (key === 'in') {
+        parsed.scope = value || null;
+        return;
+      }
+      if (key === 'deprecated' || key === 'public') parsed[key] = true;
+      else parsed.kinds.push(...KIND_FILTERS[key]);
+      if (value) words.push(value);
+    });
+
+    parsed.text = words.filter(Boolean).join(' ');
+    return parsed;
+  }
+
+  function matchesFilters(item, query) {
+    if (query.kinds.length > 0 && !query.kinds.includes(item.kind)) return false;
+    if (query.deprecated && !item.deprecated) return false;
+    if (query.public && !item.public) return false;
+    if (query.scope && !('.' + item.fullPath + '.').includes('.' + query.scope + '.')) return false;
+    return true;
+  }
+
+  // --------------------------------------------------------------------------
+  // Full-text search: BM25 over the stemmed words of each item's docs, with
+  // prefix matches for the word being typed and typo-tolerant matches for
+  // words missing from the index.
+  // --------------------------------------------------------------------------
+
+  const STOP_WORDS = new Set([
+    'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'if', 'in', 'is', 'it', 'of', 'on',
+    'or', 'that', 'the', 'this', 'to', 'with'
+  ]);
+  const STEM_SUFFIXES = [
+    [['sses', 'ss'], ['ies', 'y'], ['ss', 'ss'], ['us', 'us'], ['is', 'is'], ['s', '']],
+    [['ied', 'y'], ['ing', ''], ['edly', ''], ['ed', ''], ['ly', '']]
+  ];
+
+  // Add what queries need to a loaded search-text.json index
+  function prepareFullText(index) {
+    const total = index.lengths.reduce((sum, n) => sum + n, 0);
+    index.averageLength = total / (index.lengths.length || 1);
+    index.vocabulary = Object.keys(index.terms);
+    return index;
+  }
+
+  // Scores (item id → { score, doc }) and the index terms the query matched
+  function searchFullText(index, query) {
+    const scores = new Map();
+    const terms = new Set();
+    if (!index) return { scores, terms };
+
+    const words = tokenize(query);
+    words.forEach((word, i) => {
+      // A document scores for its best expansion of each query word
+      const best = new Map();
+      expandTerm(index, word, i === words.length - 1).forEach(([term, weight]) => {
+        terms.add(term);
+        const postings = index.terms[term];
+        const count = postings.length / 2;
+        const idf = Math.log(1 + (index.docs.length - count + 0.5) / (count + 0.5));
+        for (let p = 0; p < postings.length; p += 2) {
+          const doc = postings[p];
+          const tf = postings[p + 1];
+          const norm = 1.2 * (1 - 0.75 + 0.75 * index.lengths[doc] / index.averageLength);
+          best.set(doc, Math.max(best.get(doc) || 0, weight * idf * tf * 2.2 / (tf + norm)));
+        }
+      });
+      best.forEach((score, doc) => {
+        const id = index.docs[doc];
+        scores.set(id, { score: (scores.get(id)?.score || 0) + score, doc });
+      });
+    });
+    return { scores, terms };
+  }
+
+  function tokenize(text) {
+    const words = text.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase().match(/[a-z0-9]+/g);
+    return (words || [])
+      .filter(word => (word.length > 1 || /[0-9]/.test(word)) && !STOP_WORDS.has(word))
+      .map(stem);
+  }
+
+  function stem(word) {
+    if (word.length <= 3 || !/^[a-z]+$/.test(word)) return word;
+    let stemmed = word;
+    for (const group of STEM_SUFFIXES) {
+      const match = group.find(([suffix]) => stemmed.endsWith(suffix) && stemmed.length - suffix.length >= 3);
+      if (match) stemmed = stemmed.slice(0, -match[0].length) + match[1];
+    }
+    return stemmed.length > 3 && stemmed.endsWith('e') ? stemmed.slice(0, -1) : stemmed;
+  }
+
+  function expandTerm(index, term, last) {
+    const expansions = [];
+    const exact = Object.hasOwn(index.terms, term);
+    if (exact) expansions.push([term, 1]);
+    const maxEdits = exact ? 0 : term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+    if (!last && maxEdits === 0) return expansions;
+
+    index.vocabulary.forEach(candidate => {
+      if (candidate === term) return;
+      if (last && term.length >= 2 && candidate.startsWith(term)) {
+        expansions.push([candidate, 0.7]);
+      } else if (maxEdits > 0 && editDistance(term, candidate, maxEdits) <= maxEdits) {
+        expansions.push([candidate, 0.5]);
+      }
+    });
+    return expansions;
+  }
+
+  function editDistance(a, b, max) {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      }
+      if (Math.min(...current) > max) return max + 1;
+      previous = current;
+    }
+    return previous[b.length];
+  }
+
+  // --------------------------------------------------------------------------
+  // Type signature search: query arguments match in any order, single-letter
+  // query types and an item's own parameters are type variables bound across
+  // the signature.
+  // --------------------------------------------------------------------------
+
+  function searchByType(query, items) {
+    const arrow = query.indexOf('->');
+    const inputPart = query.slice(0, arrow).trim();
+    const outputPart = query.slice(arrow + 2).trim();
+    const typeQuery = {
+      inputs: inputPart ? splitTopLevel(inputPart).map(parseType) : [],
+      output: outputPart ? parseType(outputPart) : null
+    };
+
+    return items
+      .filter(item => item.kind === 'function' || item.kind === 'method')
+      .map(item => ({ ...item, score: scoreTypeSignature(typeQuery, item) }))
+      .filter(item => item.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 15);
+  }
+
+  function scoreTypeSignature(query, item) {
+    const vars = new Set(item.typeParams || []);
+    const inputs = item.inputTypes.map(parseType);
+    const output = item.outputType && item.outputType !== 'none' ? parseType(item.outputType) : null;
+    const parts = query.inputs.length + (query.output ? 1 : 0);
+    if (parts === 0 || query.inputs.length > inputs.length) return 0;
+
+    let best = 0;
+    const assign = (i, used, total, bindings) => {
+      if (i === query.inputs.length) {
+        let sum = total;
+        if (query.output) {
+          const quality = output ? unify(query.output, output, vars, new Map(bindings)) : 0;
+          if (quality === 0) return;
+          sum += quality;
+        }
+        const extra = inputs.length - query.inputs.length;
+        best = Math.max(best, (sum / parts - extra * 0.1) * 100);
+        return;
+      }
+      inputs.forEach((input, j) => {
+        if (used.has(j)) return;
+        const next = new Map(bindings);
+        const quality = unify(query.inputs[i], input, vars, next);
+        if (quality > 0) assign(i + 1, new Set(used).add(j), total + quality, next);
+      });
+    };
+    assign(0, new Set(), 0, new Map());
+    return Math.max(0, best);
+  }
+
+  function unify(query, item, vars, bindings) {
+    if (query.args.length === 0 && /^[a-z]$/.test(query.name)) return bind('?' + query.name, item, bindings);
+    if (item.args.length === 0 && vars.has(item.name)) return bind('!' + item.name, query, bindings);
+    if (query.name !== item.name) return 0;
+    if (query.args.length === 0) return item.args.length === 0 ? 1 : 0.8;
+    if (query.args.length !== item.args.length) return 0;
+
+    let total = 0;
+    for (let i = 0; i < query.args.length; i++) {
+      const quality = unify(query.args[i], item.args[i], vars, bindings);
+      if (quality === 0) return 0;
+      total += quality;
+    }
+    return total / query.args.length;
+  }
+
+  function bind(variable, type, bindings) {
+    const text = formatType(type);
+    if (bindings.has(variable) && bindings.get(variable) !== text) return 0;
+    bindings.set(variable, text);
+    return 0.6;
+  }
+
+  function parseType(type) {
+    const text = type.toLowerCase().replace(/\\s+/g, '');
+    const open = text.indexOf('[');
+    if (open === -1 || !text.endsWith(']')) return { name: text, args: [] };
+    const args = splitTopLevel(text.slice(open + 1, -1))
+      .filter(arg => !/^\\w+=/.test(arg))
+      .map(parseType);
+    return { name: text.slice(0, open), args };
+  }
+
+  function formatType(term) {
+    return term.args.length > 0 ? term.name + '[' + term.args.map(formatType).join(',') + ']' : term.name;
+  }
+
+  function splitTopLevel(text) {
+    const parts = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of text) {
+      if (ch === '[' || ch === '(') depth++;
+      else if (ch === ']' || ch === ')') depth--;
+      if (ch === ',' && depth === 0) {
+        parts.push(current.trim());
+        current = '';
+      } else {
+        current += ch;
+      }
+    }
+    if (current.trim()) parts.push(current.trim());
+    return parts;
+  }
+`;
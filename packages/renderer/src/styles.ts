@@ -1065,6 +1065,35 @@ html:not([data-theme]) .sun-icon {
 .sig-param { color: #9cdcfe; }
 .sig-punct { color: #808080; }
 
+/* Constraint clause under a signature */
+.signature-constraints {
+  display: flex;
+  align-items: baseline;
+  gap: var(--space-3);
+  margin-top: var(--space-3);
+  padding-top: var(--space-3);
+  border-top: 1px dashed var(--border-subtle);
+}
+
+.constraints-label {
+  font-size: 0.65rem;
+  font-weight: 600;
+  color: var(--text-muted);
+  text-transform: uppercase;
+  letter-spacing: 0.05em;
+}
+
+.modifier-badge.def {
+  color: var(--color-alias);
+  border-color: rgba(251, 191, 36, 0.3);
+}
+
+.modifier-badge.implicit {
+  color: var(--color-struct);
+  border-color: rgba(6, 182, 212, 0.3);
+  text-transform: none;
+}
+
 /* Type cross-reference links */
 a.type-link {
   color: inherit;
@@ -1419,11 +1448,13 @@ a.type-link[href^="https://"]:hover .sig-type::after {
    Parameters, Returns, Raises
    ============================================================================ */
 
-.params-section, .returns-section, .raises-section, .fields-section, .methods-section {
+.params-section, .returns-section, .raises-section, .fields-section, .methods-section,
+.trait-impls-section, .implementors-section, .docstring-section {
   margin-top: var(--space-8);
 }
 
-.params-section h4, .returns-section h4, .raises-section h4, .fields-section h4, .methods-section h4 {
+.params-section h4, .returns-section h4, .raises-section h4, .fields-section h4, .methods-section h4,
+.trait-impls-section h4, .implementors-section h4, .docstring-section h4, .docstring-section h5 {
   font-size: 0.75rem;
   font-weight: 700;
   text-transform: uppercase;
@@ -1497,6 +1528,37 @@ a.type-link[href^="https://"]:hover .sig-type::after {
   margin-top: var(--space-2);
 }
 
+.inherited-doc {
+  font-size: 0.8rem;
+  font-style: italic;
+  color: var(--text-muted);
+  margin-top: calc(-1 * var(--space-2));
+}
+
+.inherited-from {
+  font-size: 0.85rem;
+  font-weight: 500;
+  color: var(--text-secondary);
+  margin: var(--space-4) 0 var(--space-2);
+}
+
+.passing-badge {
+  font-size: 0.6rem;
+  font-weight: 600;
+  padding: 2px 8px;
+  border-radius: var(--radius-full);
+  border: 1px solid var(--border-default);
+  color: var(--text-muted);
+  letter-spacing: 0.03em;
+  white-space: nowrap;
+}
+
+.passing-badge.variadic,
+.passing-badge.variadic_kw {
+  color: var(--color-trait);
+  border-color: rgba(167, 139, 250, 0.3);
+}
+
 .param-default code {
   background: var(--bg-elevated);
   padding: 2px 6px;
@@ -1581,6 +1643,84 @@ a.type-link[href^="https://"]:hover .sig-type::after {
   color: #fbbf24;
 }
 
+/* Docstring Sections - Notes, Warnings, See Also */
+.doc-callout {
+  border-radius: var(--radius-lg);
+  padding: var(--space-4) var(--space-5);
+  margin-top: var(--space-5);
+  font-size: 0.9rem;
+  position: relative;
+  overflow: hidden;
+}
+
+.doc-callout::before {
+  content: '';
+  position: absolute;
+  left: 0;
+  top: 0;
+  bottom: 0;
+  width: 3px;
+}
+
+.doc-callout.note {
+  background: linear-gradient(135deg, rgba(59, 130, 246, 0.08), rgba(59, 130, 246, 0.02));
+  border: 1px solid rgba(59, 130, 246, 0.2);
+}
+
+.doc-callout.note::before {
+  background: linear-gradient(180deg, #3b82f6, #2563eb);
+}
+
+.doc-callout.warning {
+  background: linear-gradient(135deg, rgba(245, 158, 11, 0.1), rgba(245, 158, 11, 0.02));
+  border: 1px solid rgba(245, 158, 11, 0.2);
+}
+
+.doc-callout.warning::before {
+  background: linear-gradient(180deg, #f59e0b, #d97706);
+}
+
+.doc-callout-title {
+  font-size: 0.75rem;
+  font-weight: 700;
+  text-transform: uppercase;
+  letter-spacing: 0.1em;
+  margin-bottom: var(--space-2);
+}
+
+.doc-callout.note .doc-callout-title {
+  color: #60a5fa;
+}
+
+.doc-callout.warning .doc-callout-title {
+  color: #fbbf24;
+}
+
+.doc-callout .item-description p:last-child {
+  margin-bottom: 0;
+}
+
+.see-also-list {
+  list-style: none;
+  padding: 0;
+  margin: 0;
+  font-size: 0.9rem;
+  color: var(--text-secondary);
+}
+
+.see-also-list li {
+  margin-bottom: var(--space-2);
+}
+
+.see-also-list li p {
+  display: inline;
+}
+
+.see-also-list code {
+  color: var(--ember);
+  margin-right: var(--space-2);
+}
+
 /* Alias Value */
 .alias-value {
   background: var(--bg-raised);
@@ -1938,6 +2078,27 @@ a.type-link[href^="https://"]:hover .sig-type::after {
   color: var(--text-muted);
 }
 
+.search-mode {
+  font-family: var(--font-mono);
+  font-size: 0.7rem;
+  font-weight: 600;
+  color: var(--ember);
+  background: rgba(255, 107, 53, 0.1);
+  border: 1px solid var(--border-accent);
+  padding: var(--space-1) var(--space-3);
+  border-radius: var(--radius-sm);
+  white-space: nowrap;
+}
+
+.search-result-signature {
+  font-family: var(--font-mono);
+  font-size: 0.8rem;
+  color: var(--text-secondary);
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+}
+
 .search-input-wrapper kbd {
   font-family: var(--font-display);
   font-size: 0.65rem;
@@ -1949,6 +2110,56 @@ a.type-link[href^="https://"]:hover .sig-type::after {
   color: var(--text-dim);
 }
 
+.search-filters {
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: var(--space-2);
+  padding: var(--space-3) var(--space-5);
+  border-bottom: 1px solid var(--border-subtle);
+}
+
+.search-filters-divider {
+  width: 1px;
+  align-self: stretch;
+  background: var(--border-subtle);
+  margin: 0 var(--space-1);
+}
+
+.search-chip {
+  font-family: var(--font-mono);
+  font-size: 0.75rem;
+  color: var(--text-muted);
+  background: var(--bg-raised);
+  border: 1px solid var(--border-subtle);
+  border-radius: var(--radius-sm);
+  padding: var(--space-1) var(--space-3);
+  cursor: pointer;
+  transition: all var(--duration-fast) var(--ease-out-expo);
+}
+
+.search-chip:hover, .search-chip:focus-visible {
+  color: var(--text-primary);
+  border-color: var(--border-accent);
+  outline: none;
+}
+
+.search-chip.active {
+  color: var(--ember);
+  background: rgba(255, 107, 53, 0.1);
+  border-color: var(--ember);
+}
+
+.search-group {
+  font-family: var(--font-display);
+  font-size: 0.7rem;
+  font-weight: 600;
+  text-transform: uppercase;
+  letter-spacing: 0.05em;
+  color: var(--text-dim);
+  padding: var(--space-3) var(--space-5) var(--space-1);
+}
+
 .search-results {
   max-height: 420px;
   overflow-y: auto;
@@ -2002,6 +2213,19 @@ a.type-link[href^="https://"]:hover .sig-type::after {
   white-space: nowrap;
 }
 
+.search-result-snippet {
+  font-size: 0.8rem;
+  color: var(--text-muted);
+  line-height: 1.5;
+}
+
+.search-result-snippet mark {
+  background: rgba(255, 107, 53, 0.3);
+  color: inherit;
+  border-radius: 2px;
+  padding: 0 2px;
+}
+
 .search-empty {
   padding: var(--space-10);
   text-align: center;
@@ -2311,6 +2535,20 @@ a.type-link[href^="https://"]:hover .sig-type::after {
   opacity: 1;
 }
 
+.item-source {
+  font-family: var(--font-mono);
+  font-size: 0.75rem;
+  font-weight: 400;
+  color: var(--text-muted);
+  text-decoration: none;
+  margin-left: var(--space-2);
+  vertical-align: middle;
+}
+
+.item-source:hover {
+  color: var(--ember);
+}
+
 /* ============================================================================
    Params / Returns Table (replaces card layout — more compact, scannable)
    ============================================================================ */
@@ -2430,6 +2668,39 @@ a.type-link[href^="https://"]:hover .sig-type::after {
   padding-left: var(--space-3);
 }
 
+/* ============================================================================
+   Trait Implementations (struct pages) and Implementors (trait pages)
+   ============================================================================ */
+
+.trait-impls-table, .implementors-table {
+  border: 1px solid var(--border-subtle);
+  border-radius: var(--radius-sm);
+  overflow: hidden;
+}
+
+.trait-impls-table .ov-name, .implementors-table .ov-name {
+  padding-left: var(--space-3);
+}
+
+.implementor-path {
+  font-size: 0.8rem;
+  color: var(--text-muted);
+}
+
+.impl-method-link {
+  text-decoration: none;
+}
+
+.impl-method-link code {
+  font-size: 0.82rem;
+  color: var(--text-primary);
+  transition: color var(--duration-fast);
+}
+
+.impl-method-link:hover code {
+  color: var(--ember);
+}
+
 /* ============================================================================
    Modules Table (package index, secondary — simple two columns)
    ============================================================================ */
@@ -2764,4 +3035,59 @@ div.sidebar-group-label .sidebar-chevron {
 [data-theme="light"] .sidebar-item-link:hover {
   background: rgba(255, 107, 53, 0.05);
 }
+
+/* ============================================================================
+   Source pages
+   ============================================================================ */
+
+.source-view {
+  font-family: var(--font-mono);
+  font-size: 0.85rem;
+  line-height: 1.6;
+  padding: var(--space-3) 0;
+  background: var(--bg-raised);
+  border: 1px solid var(--border-subtle);
+  border-radius: var(--radius-md);
+  overflow-x: auto;
+}
+
+.source-line {
+  display: flex;
+  min-height: 1.6em;
+  padding-right: var(--space-3);
+}
+
+.source-line.highlighted {
+  background: rgba(255, 107, 53, 0.12);
+}
+
+.line-number {
+  flex-shrink: 0;
+  width: 4.5em;
+  padding-right: var(--space-3);
+  text-align: right;
+  color: var(--text-dim);
+  text-decoration: none;
+  user-select: none;
+}
+
+.line-number:hover {
+  color: var(--ember);
+}
+
+.line-code {
+  flex: 1;
+  white-space: pre;
+}
+
+.source-doc-link {
+  flex-shrink: 0;
+  margin-left: var(--space-3);
+  color: var(--text-muted);
+  text-decoration: none;
+}
+
+.source-doc-link:hover {
+  color: var(--ember);
+}
 `;
@@ -14,7 +14,13 @@ import type {
   TraitItem,
   AliasItem,
   PublicApiItem,
+  ParsedDocstring,
+  DocSection,
+  ProcessedOverload,
+  ProcessedArg,
 } from '@mojodoc/transform';
+import { PASSING_KIND_LABELS, SEARCH_KIND_FILTERS, isProvidedMethod } from '@mojodoc/transform';
+import { searchIndexVersion } from './search-index.js';
 
 /**
  * Generate the main layout HTML.
@@ -103,15 +109,22 @@ export function layoutTemplate(content: string, site: DocSite, _currentPath: str
           <circle cx="11" cy="11" r="8"/>
           <path d="M21 21l-4.35-4.35"/>
         </svg>
-        <input type="text" class="search-input" id="search-input" placeholder="Search docs..." autocomplete="off">
+        <input type="text" class="search-input" id="search-input" placeholder="Search docs, or types: String -> Int" autocomplete="off">
+        <span class="search-mode" id="search-mode" hidden>type search</span>
         <kbd>esc</kbd>
       </div>
+      <div class="search-filters" id="search-filters" role="toolbar" aria-label="Search filters">
+        ${SEARCH_FILTER_CHIPS.map((key) => `<button type="button" class="search-chip" data-filter="${key}" aria-pressed="false">${key}:</button>`).join('')}
+        <span class="search-filters-divider"></span>
+        <button type="button" class="search-chip" data-group="kind" aria-pressed="false">by kind</button>
+        <button type="button" class="search-chip" data-group="module" aria-pressed="false">by module</button>
+      </div>
       <div class="search-results" id="search-results"></div>
     </div>
   </div>
 
   <script>
-    window.SEARCH_INDEX = ${JSON.stringify(site.searchIndex)};
+    window.SEARCH_INDEX_VERSION = ${JSON.stringify(searchIndexVersion(site.searchIndex))};
     window.BASE_URL = ${JSON.stringify(site.config.baseUrl)};
   </script>
   <script src="${site.config.baseUrl}assets/main.js"></script>
@@ -356,7 +369,7 @@ export function moduleTemplate(
         <section class="doc-section" id="structs">
           <h2 class="section-title">Structs</h2>
           <div class="items-list">
-            ${mod.structs.map((s) => structTemplate(s)).join('')}
+            ${mod.structs.map((s) => structTemplate(s, baseUrl)).join('')}
           </div>
         </section>
       `
@@ -369,7 +382,7 @@ export function moduleTemplate(
         <section class="doc-section" id="traits">
           <h2 class="section-title">Traits</h2>
           <div class="items-list">
-            ${mod.traits.map((t) => traitTemplate(t)).join('')}
+            ${mod.traits.map((t) => traitTemplate(t, baseUrl)).join('')}
           </div>
         </section>
       `
@@ -407,9 +420,9 @@ export function functionTemplate(fn: FunctionItem): string {
             <h3 class="item-title">
               <span class="kind-badge function">fn</span>
               <span class="item-name">${escapeHtml(fn.name)}</span>
-              ${overload.isStatic ? '<span class="modifier-badge">static</span>' : ''}
-              ${overload.isAsync ? '<span class="modifier-badge">async</span>' : ''}
+              ${overloadBadges(overload)}
               <a class="item-permalink" href="#${fn.anchor}" aria-label="Permalink to ${escapeHtml(fn.name)}">§</a>
+              ${idx === 0 ? itemSourceLink(fn.sourceUrl) : ''}
             </h3>
             <div class="item-actions">
               <button class="copy-btn" data-copy="${escapeHtml(overload.signature)}" title="Copy signature">
@@ -423,25 +436,18 @@ export function functionTemplate(fn: FunctionItem): string {
 
           <div class="signature-card">
             <pre class="signature">${overload.signatureHtml}</pre>
+            ${constraintsTemplate(overload)}
           </div>
 
           ${
-            overload.summary
+            overload.docstring.summary
               ? `
-            <p class="item-summary">${escapeHtml(overload.summary)}</p>
+            <p class="item-summary">${escapeHtml(overload.docstring.summary)}</p>
           `
               : ''
           }
 
-          ${
-            overload.descriptionHtml
-              ? `
-            <div class="item-description">
-              ${overload.descriptionHtml}
-            </div>
-          `
-              : ''
-          }
+          ${docstringTemplate(overload.docstring)}
 
           ${
             overload.typeParams.length > 0
@@ -482,6 +488,7 @@ export function functionTemplate(fn: FunctionItem): string {
                       <td class="param-name-cell">
                         <span class="param-name">${escapeHtml(arg.name)}</span>
                         ${arg.convention !== 'read' ? `<span class="convention-badge">${arg.convention}</span>` : ''}
+                        ${passingKindBadge(arg)}
                       </td>
                       <td class="param-type-cell"><span class="param-type">${arg.typeHtml}</span></td>
                       <td class="param-desc-cell">
@@ -548,7 +555,7 @@ export function functionTemplate(fn: FunctionItem): string {
 /**
  * Generate struct item HTML.
  */
-export function structTemplate(struct: StructItem): string {
+export function structTemplate(struct: StructItem, baseUrl: string = '/'): string {
   return `
     <div class="doc-item struct" id="${struct.anchor}">
       <div class="item-ribbon struct"></div>
@@ -557,6 +564,7 @@ export function structTemplate(struct: StructItem): string {
           <span class="kind-badge struct">struct</span>
           <span class="item-name">${escapeHtml(struct.name)}</span>
           <a class="item-permalink" href="#${struct.anchor}" aria-label="Permalink to ${escapeHtml(struct.name)}">§</a>
+          ${itemSourceLink(struct.sourceUrl)}
         </h3>
         <div class="item-actions">
           <button class="copy-btn" data-copy="${escapeHtml(struct.signature)}" title="Copy signature">
@@ -572,15 +580,9 @@ export function structTemplate(struct: StructItem): string {
         <pre class="signature">${struct.signatureHtml}</pre>
       </div>
 
-      ${struct.summary ? `<p class="item-summary">${escapeHtml(struct.summary)}</p>` : ''}
+      ${struct.docstring.summary ? `<p class="item-summary">${escapeHtml(struct.docstring.summary)}</p>` : ''}
 
-      ${
-        struct.descriptionHtml
-          ? `
-        <div class="item-description">${struct.descriptionHtml}</div>
-      `
-          : ''
-      }
+      ${docstringTemplate(struct.docstring)}
 
       ${
         struct.fields.length > 0
@@ -630,6 +632,10 @@ export function structTemplate(struct: StructItem): string {
           : ''
       }
 
+      ${inheritedMethodsTemplate(struct, baseUrl)}
+
+      ${traitImplsTemplate(struct)}
+
       ${
         struct.deprecated
           ? `
@@ -643,6 +649,92 @@ export function structTemplate(struct: StructItem): string {
   `;
 }
 
+/**
+ * Provided trait methods a struct gets without overriding them, grouped by
+ * trait and linked to the default implementation's docs.
+ */
+function inheritedMethodsTemplate(struct: StructItem, baseUrl: string): string {
+  const impls = struct.traitImpls.filter((impl) => impl.inherited.length > 0);
+  if (impls.length === 0) return '';
+
+  return `
+    <div class="methods-section inherited-methods">
+      <h4>Inherited Methods</h4>
+      ${impls
+        .map(
+          (impl) => `
+        <h5 class="inherited-from">From ${
+          impl.href
+            ? `<a href="${escapeHtml(impl.href)}" class="type-link">${escapeHtml(impl.name)}</a>`
+            : escapeHtml(impl.name)
+        }</h5>
+        <table class="overview-table">
+          <tbody>
+            ${impl.inherited
+              .map(
+                (m) => `
+              <tr>
+                <td class="ov-name">
+                  <span class="kind-badge function">fn</span>
+                  <a href="${baseUrl}${m.urlPath}/index.html#${m.anchor}" class="ov-link">${escapeHtml(m.name)}</a>
+                </td>
+                <td class="ov-summary">${escapeHtml(m.summary)}</td>
+              </tr>
+            `
+              )
+              .join('')}
+          </tbody>
+        </table>
+      `
+        )
+        .join('')}
+    </div>
+  `;
+}
+
+/**
+ * Render the "Trait Implementations" table of a struct: each implemented trait
+ * linked to its docs, alongside the struct methods that satisfy it.
+ */
+function traitImplsTemplate(struct: StructItem): string {
+  if (struct.traitImpls.length === 0) return '';
+
+  const methodLink = (name: string): string => {
+    const method = struct.methods.find((m) => m.name === name);
+    const code = `<code>${escapeHtml(name)}</code>`;
+    return method
+      ? `<a href="#${struct.anchor}-${method.anchor}" class="impl-method-link">${code}</a>`
+      : code;
+  };
+
+  return `
+    <div class="trait-impls-section">
+      <h4>Trait Implementations</h4>
+      <table class="overview-table trait-impls-table">
+        <tbody>
+          ${struct.traitImpls
+            .map(
+              (impl) => `
+            <tr>
+              <td class="ov-name">
+                <span class="kind-badge trait">trait</span>
+                ${
+                  impl.href
+                    ? `<a href="${escapeHtml(impl.href)}" class="ov-link type-link">${escapeHtml(impl.name)}</a>`
+                    : `<span class="ov-link">${escapeHtml(impl.name)}</span>`
+                }
+              </td>
+              <td class="ov-summary">${impl.methods.map(methodLink).join(', ')}</td>
+            </tr>
+          `
+            )
+            .join('')}
+        </tbody>
+      </table>
+    </div>
+  `;
+}
+
 /**
  * Generate a method item HTML (same as function but with a namespaced anchor).
  */
@@ -659,9 +751,9 @@ function methodTemplate(fn: FunctionItem, structAnchor: string): string {
             <h4 class="item-title method-title">
               <span class="kind-badge function">fn</span>
               <span class="item-name">${escapeHtml(fn.name)}</span>
-              ${overload.isStatic ? '<span class="modifier-badge">static</span>' : ''}
-              ${overload.isAsync ? '<span class="modifier-badge">async</span>' : ''}
+              ${overloadBadges(overload)}
               <a class="item-permalink" href="#${methodAnchor}" aria-label="Permalink to ${escapeHtml(fn.name)}">§</a>
+              ${idx === 0 ? itemSourceLink(fn.sourceUrl) : ''}
             </h4>
             <div class="item-actions">
               <button class="copy-btn" data-copy="${escapeHtml(overload.signature)}" title="Copy signature">
@@ -675,10 +767,16 @@ function methodTemplate(fn: FunctionItem, structAnchor: string): string {
 
           <div class="signature-card">
             <pre class="signature">${overload.signatureHtml}</pre>
+            ${constraintsTemplate(overload)}
           </div>
 
-          ${overload.summary ? `<p class="item-summary">${escapeHtml(overload.summary)}</p>` : ''}
-          ${overload.descriptionHtml ? `<div class="item-description">${overload.descriptionHtml}</div>` : ''}
+          ${overload.docstring.summary ? `<p class="item-summary">${escapeHtml(overload.docstring.summary)}</p>` : ''}
+          ${
+            overload.inheritedFrom
+              ? `<p class="inherited-doc">Documentation inherited from <code>${escapeHtml(overload.inheritedFrom)}</code></p>`
+              : ''
+          }
+          ${docstringTemplate(overload.docstring, 'h5')}
 
           ${
             overload.typeParams.length > 0
@@ -719,6 +817,7 @@ function methodTemplate(fn: FunctionItem, structAnchor: string): string {
                       <td class="param-name-cell">
                         <span class="param-name">${escapeHtml(arg.name)}</span>
                         ${arg.convention !== 'read' ? `<span class="convention-badge">${arg.convention}</span>` : ''}
+                        ${passingKindBadge(arg)}
                       </td>
                       <td class="param-type-cell"><span class="param-type">${arg.typeHtml}</span></td>
                       <td class="param-desc-cell">
@@ -764,6 +863,8 @@ function methodTemplate(fn: FunctionItem, structAnchor: string): string {
           `
               : ''
           }
+
+          ${deprecatedTemplate(overload.deprecated)}
         </div>
       `
         )
@@ -775,7 +876,7 @@ function methodTemplate(fn: FunctionItem, structAnchor: string): string {
 /**
  * Generate trait item HTML.
  */
-export function traitTemplate(trait: TraitItem): string {
+export function traitTemplate(trait: TraitItem, baseUrl: string = '/'): string {
   return `
     <div class="doc-item trait" id="${trait.anchor}">
       <div class="item-ribbon trait"></div>
@@ -784,6 +885,7 @@ export function traitTemplate(trait: TraitItem): string {
           <span class="kind-badge trait">trait</span>
           <span class="item-name">${escapeHtml(trait.name)}</span>
           <a class="item-permalink" href="#${trait.anchor}" aria-label="Permalink to ${escapeHtml(trait.name)}">§</a>
+          ${itemSourceLink(trait.sourceUrl)}
         </h3>
       </div>
 
@@ -791,38 +893,79 @@ export function traitTemplate(trait: TraitItem): string {
         <pre class="signature">${trait.signatureHtml}</pre>
       </div>
 
-      ${trait.summary ? `<p class="item-summary">${escapeHtml(trait.summary)}</p>` : ''}
+      ${trait.docstring.summary ? `<p class="item-summary">${escapeHtml(trait.docstring.summary)}</p>` : ''}
 
-      ${
-        trait.descriptionHtml
-          ? `
-        <div class="item-description">${trait.descriptionHtml}</div>
-      `
-          : ''
-      }
+      ${docstringTemplate(trait.docstring)}
+
+      ${traitMethodsTemplate(
+        trait,
+        'Required Methods',
+        trait.methods.filter((m) => !isProvidedMethod(m))
+      )}
+
+      ${traitMethodsTemplate(
+        trait,
+        'Provided Methods',
+        trait.methods.filter((m) => isProvidedMethod(m))
+      )}
 
       ${
-        trait.methods.length > 0
+        trait.implementors.length > 0
           ? `
-        <div class="methods-section">
-          <h4>Required Methods</h4>
-          <div class="methods-overview">
-            ${overviewTable(
-              trait.methods.map((m) => ({
-                name: m.name,
-                anchor: `${trait.anchor}-${m.anchor}`,
-                summary: m.overloads[0]?.summary || '',
-                kind: 'function',
-              }))
-            )}
-          </div>
-          <div class="methods-list">
-            ${trait.methods.map((m) => methodTemplate(m, trait.anchor)).join('')}
-          </div>
+        <div class="implementors-section">
+          <h4>Implementors</h4>
+          <table class="overview-table implementors-table">
+            <tbody>
+              ${trait.implementors
+                .map(
+                  (impl) => `
+                <tr>
+                  <td class="ov-name">
+                    <span class="kind-badge struct">struct</span>
+                    <a href="${baseUrl}${impl.urlPath}/index.html#${impl.anchor}" class="ov-link">${escapeHtml(impl.name)}</a>
+                  </td>
+                  <td class="ov-summary">
+                    <code class="implementor-path">${escapeHtml(impl.fullPath)}</code>
+                    ${impl.summary ? ` — ${escapeHtml(impl.summary)}` : ''}
+                  </td>
+                </tr>
+              `
+                )
+                .join('')}
+            </tbody>
+          </table>
         </div>
       `
           : ''
       }
+
+      ${deprecatedTemplate(trait.deprecated)}
+    </div>
+  `;
+}
+
+/**
+ * One group of trait methods: required ones conforming structs must write,
+ * or provided ones with a default implementation.
+ */
+function traitMethodsTemplate(trait: TraitItem, title: string, methods: FunctionItem[]): string {
+  if (methods.length === 0) return '';
+  return `
+    <div class="methods-section">
+      <h4>${title}</h4>
+      <div class="methods-overview">
+        ${overviewTable(
+          methods.map((m) => ({
+            name: m.name,
+            anchor: `${trait.anchor}-${m.anchor}`,
+            summary: m.overloads[0]?.summary || '',
+            kind: 'function',
+          }))
+        )}
+      </div>
+      <div class="methods-list">
+        ${methods.map((m) => methodTemplate(m, trait.anchor)).join('')}
+      </div>
     </div>
   `;
 }
@@ -839,6 +982,7 @@ export function aliasTemplate(alias: AliasItem): string {
           <span class="kind-badge alias">const</span>
           <span class="item-name">${escapeHtml(alias.name)}</span>
           <a class="item-permalink" href="#${alias.anchor}" aria-label="Permalink to ${escapeHtml(alias.name)}">§</a>
+          ${itemSourceLink(alias.sourceUrl)}
         </h3>
       </div>
 
@@ -857,15 +1001,11 @@ export function aliasTemplate(alias: AliasItem): string {
           : ''
       }
 
-      ${alias.summary ? `<p class="item-summary">${escapeHtml(alias.summary)}</p>` : ''}
+      ${alias.docstring.summary ? `<p class="item-summary">${escapeHtml(alias.docstring.summary)}</p>` : ''}
 
-      ${
-        alias.descriptionHtml
-          ? `
-        <div class="item-description">${alias.descriptionHtml}</div>
-      `
-          : ''
-      }
+      ${docstringTemplate(alias.docstring)}
+
+      ${deprecatedTemplate(alias.deprecated)}
     </div>
   `;
 }
@@ -1040,6 +1180,148 @@ function renderReExportsByKind(items: PublicApiItem[], baseUrl: string): string
     .join('');
 }
 
+/**
+ * Generate a highlighted source page. `lines` are highlighted HTML, one per
+ * source line; `docLinks` maps a declaration's first line to its doc item.
+ */
+export function sourcePageTemplate(
+  file: string,
+  lines: string[],
+  docLinks: Map<number, string>,
+  moduleUrl: string | null = null
+): string {
+  const rows = lines
+    .map((html, i) => {
+      const n = i + 1;
+      const doc = docLinks.get(n);
+      return `<span class="source-line" id="L${n}"><a class="line-number" href="#L${n}">${n}</a><span class="line-code">${html}</span>${
+        doc
+          ? `<a class="source-doc-link" href="${escapeHtml(doc)}" title="View documentation">[doc]</a>`
+          : ''
+      }</span>`;
+    })
+    .join('');
+
+  return `
+    <article class="source-page">
+      <header class="page-header">
+        <div class="page-title-row">
+          <h1 class="page-title">
+            <span class="kind-badge module">src</span>
+            ${escapeHtml(file)}
+          </h1>
+          ${moduleUrl ? `<a href="${escapeHtml(moduleUrl)}" class="source-link"><span>docs</span></a>` : ''}
+        </div>
+      </header>
+      <pre class="source-view hljs language-mojo"><code>${rows}</code></pre>
+    </article>
+  `;
+}
+
+/** Query filters with a chip in the search modal. */
+const SEARCH_FILTER_CHIPS = [...Object.keys(SEARCH_KIND_FILTERS), 'public', 'deprecated'];
+
+/** Sections rendered from structured fields (tables, notices) instead. */
+const STRUCTURED_SECTIONS = new Set(['args', 'parameters', 'returns', 'raises', 'deprecated']);
+
+/**
+ * Render the body of a parsed docstring and its free-form sections: examples,
+ * notes and warnings as callouts, see-also links and custom sections.
+ */
+function docstringTemplate(docstring: ParsedDocstring, heading: 'h4' | 'h5' = 'h4'): string {
+  const body = docstring.bodyHtml
+    ? `<div class="item-description">${docstring.bodyHtml}</div>`
+    : '';
+  const sections = docstring.sections
+    .filter((section) => !STRUCTURED_SECTIONS.has(section.kind))
+    .map((section) => docSectionTemplate(section, heading))
+    .join('');
+  return body + sections;
+}
+
+function docSectionTemplate(section: DocSection, heading: 'h4' | 'h5'): string {
+  const title = escapeHtml(section.title);
+
+  if (section.kind === 'notes' || section.kind === 'warnings') {
+    const tone = section.kind === 'notes' ? 'note' : 'warning';
+    return `
+      <div class="doc-callout ${tone}">
+        <div class="doc-callout-title">${title}</div>
+        <div class="item-description">${section.contentHtml}</div>
+      </div>
+    `;
+  }
+
+  const content =
+    section.kind === 'see-also' && section.entries.length > 0
+      ? `<ul class="see-also-list">${section.entries
+          .map(
+            (e) =>
+              `<li><code>${escapeHtml(e.name)}</code>${e.descriptionHtml ? ` ${e.descriptionHtml}` : ''}</li>`
+          )
+          .join('')}</ul>`
+      : `<div class="item-description">${section.contentHtml}</div>`;
+
+  return `
+    <div class="docstring-section ${section.kind}">
+      <${heading}>${title}</${heading}>
+      ${content}
+    </div>
+  `;
+}
+
+function deprecatedTemplate(deprecated: string | null): string {
+  if (!deprecated) return '';
+  return `
+    <div class="deprecated-notice">
+      <strong>Deprecated:</strong> ${escapeHtml(deprecated)}
+    </div>
+  `;
+}
+
+/**
+ * Modifier badges shown next to an overload's name.
+ */
+function overloadBadges(overload: ProcessedOverload): string {
+  return [
+    overload.isStatic ? '<span class="modifier-badge">static</span>' : '',
+    overload.isAsync ? '<span class="modifier-badge">async</span>' : '',
+    overload.isDef ? '<span class="modifier-badge def" title="Declared with def">def</span>' : '',
+    overload.isImplicitConversion
+      ? '<span class="modifier-badge implicit" title="Implicit conversion constructor">@implicit</span>'
+      : '',
+  ].join('');
+}
+
+/**
+ * `[src]` link to an item's lines in the repository.
+ */
+function itemSourceLink(url: string | null): string {
+  if (!url) return '';
+  return `<a class="item-source" href="${escapeHtml(url)}" target="_blank" rel="noopener noreferrer" title="View source">[src]</a>`;
+}
+
+/**
+ * Constraint clause shown under a signature.
+ */
+function constraintsTemplate(overload: ProcessedOverload): string {
+  if (!overload.constraints) return '';
+  return `
+    <div class="signature-constraints">
+      <span class="constraints-label">Constraints</span>
+      <code class="signature">${overload.constraintsHtml}</code>
+    </div>
+  `;
+}
+
+/**
+ * Marker for arguments that are not plain positional-or-keyword.
+ */
+function passingKindBadge(arg: ProcessedArg): string {
+  const label = PASSING_KIND_LABELS[arg.passingKind];
+  return label ? `<span class="passing-badge ${arg.passingKind}">${label}</span>` : '';
+}
+
 /**
  * Escape HTML special characters.
  */
@@ -0,0 +1,528 @@
+/**
+ * API diff - structural comparison of two `mojo doc` outputs.
+ *
+ * Items are matched by dotted path (`mypkg.core.Config.to_string`). Overloads
+ * are matched by signature first, then by argument names, so an edited
+ * overload is reported as one change with per-argument details rather than
+ * as a removal plus an addition.
+ */
+
+import type {
+  MojoDocOutput,
+  ModuleDecl,
+  FunctionDecl,
+  FunctionOverload,
+  StructDecl,
+  TraitDecl,
+  AliasDecl,
+  ArgumentDecl,
+} from '@mojodoc/parser';
+import { mapModulesByPath } from '@mojodoc/parser';
+
+export type ApiChangeKind = 'added' | 'removed' | 'changed' | 'deprecated';
+
+export type ApiItemKind =
+  'module' | 'function' | 'overload' | 'struct' | 'field' | 'method' | 'trait' | 'alias';
+
+/**
+ * What changed inside a changed item.
+ */
+export type ApiChangeDetailKind =
+  | 'arg-added'
+  | 'optional-arg-added'
+  | 'arg-removed'
+  | 'arg-type'
+  | 'arg-convention'
+  | 'default-added'
+  | 'default-removed'
+  | 'default-changed'
+  | 'parameters'
+  | 'return-type'
+  | 'raises-added'
+  | 'raises-removed'
+  | 'field-type'
+  | 'alias-value'
+  | 'trait-added'
+  | 'trait-removed'
+  | 'parent-trait-added'
+  | 'required-method-added'
+  | 'signature'
+  | 'deprecation'
+  | 'export-added'
+  | 'export-removed';
+
+export interface ApiChangeDetail {
+  kind: ApiChangeDetailKind;
+  message: string;
+}
+
+export interface ApiChange {
+  kind: ApiChangeKind;
+  itemKind: ApiItemKind;
+  /** Dotted path of the item (e.g. "mypkg.core.Config.to_string") */
+  path: string;
+  /** Dotted path of the module the item lives in */
+  module: string;
+  /** Signature (or type/value) before the change */
+  before: string | null;
+  /** Signature (or type/value) after the change */
+  after: string | null;
+  details: ApiChangeDetail[];
+}
+
+export interface ApiDiff {
+  oldVersion: string;
+  newVersion: string;
+  changes: ApiChange[];
+}
+
+type ContainerKind = 'struct' | 'trait';
+
+/**
+ * Compare two `mojo doc` outputs. Items inside an added or removed module are
+ * not reported individually.
+ */
+export function diffApi(oldDoc: MojoDocOutput, newDoc: MojoDocOutput): ApiDiff {
+  const oldModules = mapModulesByPath(oldDoc.decl);
+  const newModules = mapModulesByPath(newDoc.decl);
+  const changes: ApiChange[] = [];
+
+  for (const [path, oldMod] of oldModules) {
+    const newMod = newModules.get(path);
+    if (!newMod) {
+      changes.push(change('removed', 'module', path, path, oldMod.name, null));
+      continue;
+    }
+    diffModule(oldMod, newMod, path, changes);
+  }
+
+  for (const [path, newMod] of newModules) {
+    if (!oldModules.has(path)) {
+      changes.push(change('added', 'module', path, path, null, newMod.name));
+    }
+  }
+
+  return { oldVersion: oldDoc.version, newVersion: newDoc.version, changes };
+}
+
+/**
+ * Count changes per kind, for summaries.
+ */
+export function summarizeApiDiff(diff: ApiDiff): Record<ApiChangeKind, number> {
+  const counts: Record<ApiChangeKind, number> = { added: 0, removed: 0, changed: 0, deprecated: 0 };
+  for (const c of diff.changes) counts[c.kind]++;
+  return counts;
+}
+
+// ============================================================================
+// Item comparison
+// ============================================================================
+
+function diffModule(
+  oldMod: ModuleDecl,
+  newMod: ModuleDecl,
+  modPath: string,
+  changes: ApiChange[]
+): void {
+  diffByName(oldMod.functions, newMod.functions, (oldFn, newFn, name) => {
+    const path = `${modPath}.${name}`;
+    if (!oldFn) return changes.push(functionChange('added', 'function', path, modPath, newFn!));
+    if (!newFn) return changes.push(functionChange('removed', 'function', path, modPath, oldFn));
+    diffOverloads(oldFn, newFn, path, modPath, 'function', changes);
+  });
+
+  diffByName(oldMod.structs, newMod.structs, (oldStruct, newStruct, name) => {
+    const path = `${modPath}.${name}`;
+    if (!oldStruct) {
+      return changes.push(change('added', 'struct', path, modPath, null, newStruct!.signature));
+    }
+    if (!newStruct) {
+      return changes.push(change('removed', 'struct', path, modPath, oldStruct.signature, null));
+    }
+    diffStruct(oldStruct, newStruct, path, modPath, changes);
+  });
+
+  diffByName(oldMod.traits, newMod.traits, (oldTrait, newTrait, name) => {
+    const path = `${modPath}.${name}`;
+    if (!oldTrait) {
+      return changes.push(change('added', 'trait', path, modPath, null, newTrait!.signature));
+    }
+    if (!newTrait) {
+      return changes.push(change('removed', 'trait', path, modPath, oldTrait.signature, null));
+    }
+    diffContainer(oldTrait, newTrait, 'trait', path, modPath, changes);
+    diffMethods(oldTrait.functions, newTrait.functions, path, modPath, changes, 'trait');
+  });
+
+  diffByName(oldMod.aliases, newMod.aliases, (oldAlias, newAlias, name) => {
+    const path = `${modPath}.${name}`;
+    if (!oldAlias) {
+      return changes.push(change('added', 'alias', path, modPath, null, newAlias!.signature));
+    }
+    if (!newAlias) {
+      return changes.push(change('removed', 'alias', path, modPath, oldAlias.signature, null));
+    }
+    diffAlias(oldAlias, newAlias, path, modPath, changes);
+  });
+}
+
+function diffStruct(
+  oldStruct: StructDecl,
+  newStruct: StructDecl,
+  path: string,
+  modPath: string,
+  changes: ApiChange[]
+): void {
+  diffContainer(oldStruct, newStruct, 'struct', path, modPath, changes);
+
+  diffByName(oldStruct.fields || [], newStruct.fields || [], (oldField, newField, name) => {
+    const fieldPath = `${path}.${name}`;
+    if (!oldField) {
+      return changes.push(change('added', 'field', fieldPath, modPath, null, newField!.type));
+    }
+    if (!newField) {
+      return changes.push(change('removed', 'field', fieldPath, modPath, oldField.type, null));
+    }
+    if (oldField.type !== newField.type) {
+      const c = change('changed', 'field', fieldPath, modPath, oldField.type, newField.type);
+      c.details.push({
+        kind: 'field-type',
+        message: `type changed from \`${oldField.type}\` to \`${newField.type}\``,
+      });
+      changes.push(c);
+    }
+  });
+
+  diffMethods(oldStruct.functions, newStruct.functions, path, modPath, changes, 'struct');
+}
+
+/**
+ * Compare the declaration of a struct or trait (parameters, parent traits)
+ * and its deprecation status.
+ */
+function diffContainer(
+  oldDecl: StructDecl | TraitDecl,
+  newDecl: StructDecl | TraitDecl,
+  itemKind: ContainerKind,
+  path: string,
+  modPath: string,
+  changes: ApiChange[]
+): void {
+  const details: ApiChangeDetail[] = [];
+
+  const oldParams = paramList(oldDecl.parameters);
+  const newParams = paramList(newDecl.parameters);
+  if (oldParams !== newParams) {
+    details.push({
+      kind: 'parameters',
+      message: `parameters changed from \`[${oldParams}]\` to \`[${newParams}]\``,
+    });
+  }
+
+  const oldTraits = traitNames(oldDecl);
+  const newTraits = traitNames(newDecl);
+  for (const name of oldTraits) {
+    if (!newTraits.includes(name)) {
+      details.push({ kind: 'trait-removed', message: `no longer implements \`${name}\`` });
+    }
+  }
+  for (const name of newTraits) {
+    if (oldTraits.includes(name)) continue;
+    // A new parent trait is more for every implementor to conform to
+    details.push(
+      itemKind === 'trait'
+        ? { kind: 'parent-trait-added', message: `now inherits from \`${name}\`` }
+        : { kind: 'trait-added', message: `now implements \`${name}\`` }
+    );
+  }
+
+  if (details.length > 0) {
+    const c = change('changed', itemKind, path, modPath, oldDecl.signature, newDecl.signature);
+    c.details = details;
+    changes.push(c);
+  }
+
+  pushDeprecation(oldDecl.deprecated, newDecl.deprecated, itemKind, path, modPath, changes);
+}
+
+function diffMethods(
+  oldMethods: FunctionDecl[],
+  newMethods: FunctionDecl[],
+  ownerPath: string,
+  modPath: string,
+  changes: ApiChange[],
+  ownerKind: ContainerKind
+): void {
+  diffByName(oldMethods || [], newMethods || [], (oldFn, newFn, name) => {
+    const path = `${ownerPath}.${name}`;
+    if (!oldFn) {
+      const c = functionChange('added', 'method', path, modPath, newFn!);
+      if (ownerKind === 'trait' && !newFn!.overloads.some((o) => o.hasDefaultImplementation)) {
+        c.details.push({
+          kind: 'required-method-added',
+          message: 'required method without a default implementation',
+        });
+      }
+      return changes.push(c);
+    }
+    if (!newFn) return changes.push(functionChange('removed', 'method', path, modPath, oldFn));
+    diffOverloads(oldFn, newFn, path, modPath, 'method', changes);
+  });
+}
+
+function diffAlias(
+  oldAlias: AliasDecl,
+  newAlias: AliasDecl,
+  path: string,
+  modPath: string,
+  changes: ApiChange[]
+): void {
+  if (oldAlias.value !== newAlias.value || oldAlias.signature !== newAlias.signature) {
+    const c = change('changed', 'alias', path, modPath, oldAlias.signature, newAlias.signature);
+    c.details.push(
+      oldAlias.value !== newAlias.value
+        ? {
+            kind: 'alias-value',
+            message: `value changed from \`${oldAlias.value}\` to \`${newAlias.value}\``,
+          }
+        : { kind: 'signature', message: 'declaration changed' }
+    );
+    changes.push(c);
+  }
+  pushDeprecation(oldAlias.deprecated, newAlias.deprecated, 'alias', path, modPath, changes);
+}
+
+// ============================================================================
+// Overloads
+// ============================================================================
+
+/**
+ * Compare the overload sets of a function present in both versions.
+ */
+function diffOverloads(
+  oldFn: FunctionDecl,
+  newFn: FunctionDecl,
+  path: string,
+  modPath: string,
+  itemKind: 'function' | 'method',
+  changes: ApiChange[]
+): void {
+  const oldRest = [...(oldFn.overloads || [])];
+  const newRest = [...(newFn.overloads || [])];
+  const pairs: Array<[FunctionOverload, FunctionOverload]> = [];
+
+  // Exact signature matches, then overloads taking the same argument names,
+  // then a lone leftover on each side.
+  takePairs(oldRest, newRest, pairs, (o) => o.signature);
+  takePairs(oldRest, newRest, pairs, (o) => (o.args || []).map((a) => a.name).join(','));
+  if (oldRest.length === 1 && newRest.length === 1) {
+    pairs.push([oldRest.pop()!, newRest.pop()!]);
+  }
+
+  const single = pairs.length + oldRest.length + newRest.length <= 1;
+  const overloadKind = single ? itemKind : 'overload';
+
+  for (const [oldOv, newOv] of pairs) {
+    const details = overloadDetails(oldOv, newOv);
+    if (details.length > 0) {
+      const c = change('changed', overloadKind, path, modPath, oldOv.signature, newOv.signature);
+      c.details = details;
+      changes.push(c);
+    }
+    pushDeprecation(oldOv.deprecated, newOv.deprecated, overloadKind, path, modPath, changes, {
+      signature: newOv.signature,
+    });
+  }
+
+  // Overloads only on one side are added/removed overloads of the function.
+  for (const ov of oldRest) {
+    changes.push(change('removed', 'overload', path, modPath, ov.signature, null));
+  }
+  for (const ov of newRest) {
+    changes.push(change('added', 'overload', path, modPath, null, ov.signature));
+  }
+}
+
+/**
+ * Move pairs of overloads with equal keys from the rest lists into `pairs`.
+ */
+function takePairs(
+  oldRest: FunctionOverload[],
+  newRest: FunctionOverload[],
+  pairs: Array<[FunctionOverload, FunctionOverload]>,
+  key: (o: FunctionOverload) => string
+): void {
+  for (let i = oldRest.length - 1; i >= 0; i--) {
+    const j = newRest.findIndex((n) => key(n) === key(oldRest[i]));
+    if (j === -1) continue;
+    pairs.push([oldRest[i], newRest[j]]);
+    oldRest.splice(i, 1);
+    newRest.splice(j, 1);
+  }
+}
+
+function overloadDetails(oldOv: FunctionOverload, newOv: FunctionOverload): ApiChangeDetail[] {
+  const details: ApiChangeDetail[] = [];
+  const oldArgs = new Map((oldOv.args || []).map((a) => [a.name, a]));
+  const newArgs = new Map((newOv.args || []).map((a) => [a.name, a]));
+
+  for (const [name, oldArg] of oldArgs) {
+    const newArg = newArgs.get(name);
+    if (!newArg) {
+      details.push({ kind: 'arg-removed', message: `argument \`${name}\` removed` });
+      continue;
+    }
+    details.push(...argDetails(oldArg, newArg));
+  }
+  for (const [name, newArg] of newArgs) {
+    if (oldArgs.has(name)) continue;
+    const optional = newArg.default !== undefined;
+    details.push({
+      kind: optional ? 'optional-arg-added' : 'arg-added',
+      message: `argument \`${name}: ${newArg.type}\` added${optional ? ' (with default)' : ''}`,
+    });
+  }
+
+  const oldParams = paramList(oldOv.parameters);
+  const newParams = paramList(newOv.parameters);
+  if (oldParams !== newParams) {
+    details.push({
+      kind: 'parameters',
+      message: `parameters changed from \`[${oldParams}]\` to \`[${newParams}]\``,
+    });
+  }
+
+  const oldRet = oldOv.returns?.type ?? 'None';
+  const newRet = newOv.returns?.type ?? 'None';
+  if (oldRet !== newRet) {
+    details.push({
+      kind: 'return-type',
+      message: `return type changed from \`${oldRet}\` to \`${newRet}\``,
+    });
+  }
+
+  if (oldOv.raises !== newOv.raises) {
+    details.push(
+      newOv.raises
+        ? { kind: 'raises-added', message: 'now raises' }
+        : { kind: 'raises-removed', message: 'no longer raises' }
+    );
+  }
+
+  // Catch anything the structured checks miss (e.g. argument order).
+  if (details.length === 0 && oldOv.signature !== newOv.signature) {
+    details.push({ kind: 'signature', message: 'signature changed' });
+  }
+
+  return details;
+}
+
+function argDetails(oldArg: ArgumentDecl, newArg: ArgumentDecl): ApiChangeDetail[] {
+  const details: ApiChangeDetail[] = [];
+  const name = oldArg.name;
+
+  if (oldArg.type !== newArg.type) {
+    details.push({
+      kind: 'arg-type',
+      message: `argument \`${name}\` type changed from \`${oldArg.type}\` to \`${newArg.type}\``,
+    });
+  }
+  if (oldArg.convention !== newArg.convention) {
+    details.push({
+      kind: 'arg-convention',
+      message: `argument \`${name}\` convention changed from \`${oldArg.convention}\` to \`${newArg.convention}\``,
+    });
+  }
+  if (oldArg.default !== newArg.default) {
+    details.push(
+      newArg.default === undefined
+        ? { kind: 'default-removed', message: `argument \`${name}\` no longer has a default` }
+        : oldArg.default === undefined
+          ? {
+              kind: 'default-added',
+              message: `argument \`${name}\` now defaults to \`${newArg.default}\``,
+            }
+          : {
+              kind: 'default-changed',
+              message: `argument \`${name}\` default changed from \`${oldArg.default}\` to \`${newArg.default}\``,
+            }
+    );
+  }
+
+  return details;
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+/**
+ * Walk two named lists, calling `visit` once per name in either list.
+ */
+function diffByName<T extends { name: string }>(
+  oldItems: T[],
+  newItems: T[],
+  visit: (oldItem: T | undefined, newItem: T | undefined, name: string) => unknown
+): void {
+  const newByName = new Map(newItems.map((i) => [i.name, i]));
+  const seen = new Set<string>();
+
+  for (const oldItem of oldItems) {
+    seen.add(oldItem.name);
+    visit(oldItem, newByName.get(oldItem.name), oldItem.name);
+  }
+  for (const newItem of newItems) {
+    if (!seen.has(newItem.name)) visit(undefined, newItem, newItem.name);
+  }
+}
+
+function change(
+  kind: ApiChangeKind,
+  itemKind: ApiItemKind,
+  path: string,
+  module: string,
+  before: string | null,
+  after: string | null
+): ApiChange {
+  return { kind, itemKind, path, module, before, after, details: [] };
+}
+
+/**
+ * An added or removed function; single-overload functions carry the signature.
+ */
+function functionChange(
+  kind: 'added' | 'removed',
+  itemKind: 'function' | 'method',
+  path: string,
+  modPath: string,
+  fn: FunctionDecl
+): ApiChange {
+  const signature = (fn.overloads || []).map((o) => o.signature).join('\n') || null;
+  return kind === 'added'
+    ? change(kind, itemKind, path, modPath, null, signature)
+    : change(kind, itemKind, path, modPath, signature, null);
+}
+
+function pushDeprecation(
+  oldDeprecated: string | undefined,
+  newDeprecated: string | undefined,
+  itemKind: ApiItemKind,
+  path: string,
+  modPath: string,
+  changes: ApiChange[],
+  { signature = null }: { signature?: string | null } = {}
+): void {
+  if (!oldDeprecated && newDeprecated) {
+    const c = change('deprecated', itemKind, path, modPath, null, signature);
+    c.details.push({ kind: 'deprecation', message: newDeprecated });
+    changes.push(c);
+  }
+}
+
+function paramList(params: Array<{ name: string; type: string }> | undefined): string {
+  return (params || []).map((p) => `${p.name}: ${p.type}`).join(', ');
+}
+
+function traitNames(decl: StructDecl | TraitDecl): string[] {
+  return (decl.parentTraits || []).map((t) => t.name);
+}
@@ -0,0 +1,187 @@
+/**
+ * Documentation coverage - how many items have summaries, argument
+ * descriptions, return docs and raises docs.
+ *
+ * Works on the raw `mojo doc` tree. Every function overload, struct, field,
+ * trait and alias is one coverage item; it counts as documented when none of
+ * its checks fail.
+ */
+
+import type { MojoDocOutput, ModuleDecl, FunctionDecl, FunctionOverload } from '@mojodoc/parser';
+import { mapModulesByPath } from '@mojodoc/parser';
+import { parseInitFile } from './public-api.js';
+
+export type CoverageItemKind = 'function' | 'method' | 'struct' | 'field' | 'trait' | 'alias';
+
+export interface CoverageItem {
+  kind: CoverageItemKind;
+  /** Dotted path (e.g. "mypkg.core.Config.to_string") */
+  path: string;
+  /** Dotted path of the module the item lives in */
+  module: string;
+  /** Signature, for telling overloads apart */
+  signature: string | null;
+  /** Whether the item (or its owner) is re-exported from __init__.mojo */
+  public: boolean;
+  /** What is missing, e.g. "summary", "arg `x`", "returns", "raises" */
+  missing: string[];
+}
+
+export interface CoverageStats {
+  total: number;
+  documented: number;
+  /** 0–100; 100 when there is nothing to document */
+  percent: number;
+}
+
+export interface ModuleCoverage extends CoverageStats {
+  module: string;
+}
+
+export interface CoverageReport {
+  total: CoverageStats;
+  public: CoverageStats;
+  internal: CoverageStats;
+  modules: ModuleCoverage[];
+  items: CoverageItem[];
+}
+
+export interface CoverageOptions {
+  /** Content of the root __init__.mojo, for the public/internal split */
+  initFileContent?: string;
+}
+
+/**
+ * Measure documentation coverage of a `mojo doc` tree. Without re-exports in
+ * __init__.mojo every item counts as public.
+ */
+export function measureCoverage(doc: MojoDocOutput, options: CoverageOptions = {}): CoverageReport {
+  const rootName = doc.decl.name;
+  const exported = new Set<string>();
+  for (const imp of parseInitFile(options.initFileContent ?? '')) {
+    for (const item of imp.items) exported.add(`${rootName}.${imp.module}.${item}`);
+  }
+
+  const items: CoverageItem[] = [];
+  for (const [modPath, mod] of mapModulesByPath(doc.decl)) {
+    const isPublic = (name: string) => exported.size === 0 || exported.has(`${modPath}.${name}`);
+    collectModuleItems(mod, modPath, isPublic, items);
+  }
+
+  const byModule = new Map<string, CoverageItem[]>();
+  for (const item of items) {
+    const list = byModule.get(item.module) ?? [];
+    list.push(item);
+    byModule.set(item.module, list);
+  }
+
+  return {
+    total: stats(items),
+    public: stats(items.filter((i) => i.public)),
+    internal: stats(items.filter((i) => !i.public)),
+    modules: [...byModule].map(([module, list]) => ({ module, ...stats(list) })),
+    items,
+  };
+}
+
+// ============================================================================
+// Item checks
+// ============================================================================
+
+function collectModuleItems(
+  mod: ModuleDecl,
+  modPath: string,
+  isPublic: (name: string) => boolean,
+  items: CoverageItem[]
+): void {
+  for (const fn of mod.functions || []) {
+    pushFunction(fn, 'function', `${modPath}.${fn.name}`, modPath, isPublic(fn.name), items);
+  }
+
+  for (const struct of mod.structs || []) {
+    const path = `${modPath}.${struct.name}`;
+    const pub = isPublic(struct.name);
+    items.push(item('struct', path, modPath, struct.signature, pub, summaryMissing(struct)));
+
+    for (const field of struct.fields || []) {
+      const missing = field.summary || field.description ? [] : ['summary'];
+      items.push(item('field', `${path}.${field.name}`, modPath, field.type, pub, missing));
+    }
+    for (const fn of struct.functions || []) {
+      pushFunction(fn, 'method', `${path}.${fn.name}`, modPath, pub, items);
+    }
+  }
+
+  for (const trait of mod.traits || []) {
+    const path = `${modPath}.${trait.name}`;
+    const pub = isPublic(trait.name);
+    items.push(item('trait', path, modPath, trait.signature, pub, summaryMissing(trait)));
+    for (const fn of trait.functions || []) {
+      pushFunction(fn, 'method', `${path}.${fn.name}`, modPath, pub, items);
+    }
+  }
+
+  for (const alias of mod.aliases || []) {
+    const path = `${modPath}.${alias.name}`;
+    const pub = isPublic(alias.name);
+    items.push(item('alias', path, modPath, alias.signature, pub, summaryMissing(alias)));
+  }
+}
+
+function pushFunction(
+  fn: FunctionDecl,
+  kind: 'function' | 'method',
+  path: string,
+  modPath: string,
+  isPublic: boolean,
+  items: CoverageItem[]
+): void {
+  for (const overload of fn.overloads || []) {
+    items.push(item(kind, path, modPath, overload.signature, isPublic, overloadMissing(overload)));
+  }
+}
+
+function overloadMissing(overload: FunctionOverload): string[] {
+  const missing = summaryMissing(overload);
+
+  for (const arg of overload.args || []) {
+    if (arg.name !== 'self' && !arg.description) missing.push(`arg \`${arg.name}\``);
+  }
+  for (const param of overload.parameters || []) {
+    if (!param.description) missing.push(`parameter \`${param.name}\``);
+  }
+  if (overload.returns && overload.returns.type !== 'None' && !overload.returns.doc) {
+    missing.push('returns');
+  }
+  if (overload.raises && !overload.raisesDoc) {
+    missing.push('raises');
+  }
+
+  return missing;
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+function summaryMissing(decl: { summary?: string }): string[] {
+  return decl.summary ? [] : ['summary'];
+}
+
+function item(
+  kind: CoverageItemKind,
+  path: string,
+  module: string,
+  signature: string | null,
+  isPublic: boolean,
+  missing: string[]
+): CoverageItem {
+  return { kind, path, module, signature, public: isPublic, missing };
+}
+
+function stats(items: CoverageItem[]): CoverageStats {
+  const documented = items.filter((i) => i.missing.length === 0).length;
+  const total = items.length;
+  const percent = total === 0 ? 100 : Math.round((documented / total) * 1000) / 10;
+  return { total, documented, percent };
+}
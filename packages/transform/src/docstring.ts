@@ -0,0 +1,232 @@
+/**
+ * Google-style docstring parser.
+ *
+ * Splits a docstring into its summary, free-form body and titled sections
+ * (Args, Returns, Examples, Notes, ...). Sections that list names - Args,
+ * Parameters, Raises, See Also - are further split into entries.
+ */
+
+import type { ParsedDocstring, DocSection, DocSectionKind, DocEntry } from './types.js';
+import { renderMarkdown, type IntraDocLinkResolver } from './markdown.js';
+
+/** Recognized section titles (lowercased) and the kind they map to. */
+const SECTION_KINDS: Record<string, DocSectionKind> = {
+  args: 'args',
+  arguments: 'args',
+  arg: 'args',
+  parameters: 'parameters',
+  parameter: 'parameters',
+  params: 'parameters',
+  returns: 'returns',
+  return: 'returns',
+  yields: 'returns',
+  raises: 'raises',
+  raise: 'raises',
+  throws: 'raises',
+  example: 'examples',
+  examples: 'examples',
+  note: 'notes',
+  notes: 'notes',
+  warning: 'warnings',
+  warnings: 'warnings',
+  caution: 'warnings',
+  'see also': 'see-also',
+  deprecated: 'deprecated',
+};
+
+/** Sections whose content is a list of `name: description` entries. */
+const ENTRY_SECTIONS: ReadonlySet<DocSectionKind> = new Set<DocSectionKind>([
+  'args',
+  'parameters',
+  'raises',
+  'see-also',
+]);
+
+const HEADER = /^(\s*)([A-Za-z][A-Za-z ]*?):\s*(.*)$/;
+const CUSTOM_TITLE = /^[A-Z][A-Za-z]*(?: [A-Za-z]+){0,2}$/;
+const ENTRY = /^(\*{0,2}[\w.]+)\s*(?:\(([^)]*)\))?\s*:\s*(.*)$/;
+const SEE_ALSO_ENTRY = /^(?:[-*]\s+)?`?([\w.]+(?:\(\))?)`?\s*(?::\s*(.*))?$/;
+
+/**
+ * Parse a Google-style docstring. The summary is the first paragraph, the
+ * body is every other paragraph outside a section. `resolveLink` resolves
+ * intra-doc links in the rendered HTML.
+ */
+export function parseDocstring(text: string, resolveLink?: IntraDocLinkResolver): ParsedDocstring {
+  const lines = dedent((text || '').replace(/\r\n/g, '\n')).split('\n');
+  const prose: string[] = [];
+  const sections: DocSection[] = [];
+
+  let i = 0;
+  let inFence = false;
+  while (i < lines.length) {
+    const header = inFence ? null : matchHeader(lines, i);
+    if (!header) {
+      if (isFence(lines[i])) inFence = !inFence;
+      prose.push(lines[i]);
+      i++;
+      continue;
+    }
+
+    const content: string[] = header.inline ? [header.inline] : [];
+    i++;
+    // Indented sections end at the first line back at the header's level,
+    // inline ones ("Note: ...") at the end of their paragraph, and unindented
+    // ones (e.g. a fenced example) at the next header.
+    const indented = header.inline === '' && firstIndent(lines, i) > header.indent;
+    for (; i < lines.length; i++) {
+      const line = lines[i];
+      if (isFence(line)) inFence = !inFence;
+      if (!inFence) {
+        if (header.inline && !line.trim()) break;
+        if (line.trim() && indented && indentOf(line) <= header.indent) break;
+        if (line.trim() && !indented && matchHeader(lines, i)) break;
+      }
+      content.push(line);
+    }
+
+    sections.push(
+      buildSection(header.kind, header.title, dedent(content.join('\n')).trim(), resolveLink)
+    );
+  }
+
+  const paragraphs = prose
+    .join('\n')
+    .trim()
+    .split(/\n\s*\n/);
+  const summary = paragraphs[0]?.trim() ?? '';
+  const body = paragraphs.slice(1).join('\n\n').trim();
+
+  return { summary, body, bodyHtml: renderMarkdown(body, resolveLink), sections };
+}
+
+/**
+ * First section of a kind, if the docstring has one.
+ */
+export function findDocSection(
+  docstring: ParsedDocstring,
+  kind: DocSectionKind
+): DocSection | undefined {
+  return docstring.sections.find((s) => s.kind === kind);
+}
+
+// ============================================================================
+// Sections
+// ============================================================================
+
+interface SectionHeader {
+  kind: DocSectionKind;
+  title: string;
+  indent: number;
+  /** Text after the colon on the header line ("Note: Be careful.") */
+  inline: string;
+}
+
+function matchHeader(lines: string[], index: number): SectionHeader | null {
+  const m = HEADER.exec(lines[index]);
+  if (!m) return null;
+
+  const [, lead, title, inline] = m;
+  const indent = lead.length;
+  const kind = SECTION_KINDS[title.toLowerCase()];
+  if (kind) {
+    // Entry sections never take inline text; "Args: x" is prose.
+    if (inline && ENTRY_SECTIONS.has(kind)) return null;
+    return { kind, title, indent, inline: inline.trim() };
+  }
+
+  // Any other capitalized title counts as a custom section only when followed
+  // by an indented block, so prose ending in a colon stays prose.
+  if (inline || !CUSTOM_TITLE.test(title)) return null;
+  if (firstIndent(lines, index + 1) <= indent) return null;
+  return { kind: 'custom', title, indent, inline: '' };
+}
+
+function buildSection(
+  kind: DocSectionKind,
+  title: string,
+  content: string,
+  resolveLink?: IntraDocLinkResolver
+): DocSection {
+  const markdown = kind === 'examples' ? exampleMarkdown(content) : content;
+  return {
+    kind,
+    title,
+    content,
+    contentHtml: renderMarkdown(markdown, resolveLink),
+    entries: ENTRY_SECTIONS.has(kind) ? parseEntries(kind, content, resolveLink) : [],
+  };
+}
+
+/**
+ * Split an entry section into entries. Returns no entries when the section is
+ * prose (e.g. "Raises:\n    If the file is missing.").
+ */
+function parseEntries(
+  kind: DocSectionKind,
+  content: string,
+  resolveLink?: IntraDocLinkResolver
+): DocEntry[] {
+  const pattern = kind === 'see-also' ? SEE_ALSO_ENTRY : ENTRY;
+  const entries: { name: string; type: string | null; lines: string[] }[] = [];
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    const m = indentOf(line) === 0 ? pattern.exec(line.trim()) : null;
+    if (m) {
+      const name = m[1];
+      const type = kind === 'see-also' ? null : m[2]?.trim() || null;
+      const rest = (kind === 'see-also' ? m[2] : m[3]) ?? '';
+      entries.push({ name, type, lines: rest ? [rest] : [] });
+    } else if (entries.length > 0 && indentOf(line) > 0) {
+      entries[entries.length - 1].lines.push(line.trim());
+    } else {
+      return [];
+    }
+  }
+
+  return entries.map((e) => {
+    const description = e.lines.join(' ');
+    return {
+      name: e.name,
+      type: e.type,
+      description,
+      descriptionHtml: renderMarkdown(description, resolveLink),
+    };
+  });
+}
+
+/**
+ * Examples without a fence are treated as Mojo code.
+ */
+function exampleMarkdown(content: string): string {
+  if (!content || content.includes('```')) return content;
+  return `\`\`\`mojo\n${content}\n\`\`\``;
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+function isFence(line: string): boolean {
+  return /^\s*(```|~~~)/.test(line);
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/** Indent of the first non-blank line at or after `start`, or -1. */
+function firstIndent(lines: string[], start: number): number {
+  for (let i = start; i < lines.length; i++) {
+    if (lines[i].trim()) return indentOf(lines[i]);
+  }
+  return -1;
+}
+
+function dedent(text: string): string {
+  const lines = text.split('\n');
+  const indents = lines.filter((l) => l.trim()).map(indentOf);
+  const min = indents.length > 0 ? Math.min(...indents) : 0;
+  return min === 0 ? text : lines.map((l) => l.slice(min)).join('\n');
+}
@@ -0,0 +1,238 @@
+/**
+ * Full-text search - an inverted index over item documentation.
+ *
+ * Each item (all overloads of a function together) is one document made of its
+ * name, summary, description, argument, return and field docs and example code.
+ * Text is split into lowercase words (`snake_case` and `camelCase` split too),
+ * stop words dropped and the rest stemmed. Queries are ranked with BM25; query
+ * terms missing from the index fall back to prefix and typo-tolerant matches.
+ *
+ * The renderer's search-scripts.ts holds the browser copy of the query side;
+ * tests run it against these functions.
+ */
+
+import type { FullTextIndex } from './types.js';
+
+export interface FullTextDocument {
+  id: string;
+  name: string;
+  summary: string;
+  /** Documentation text beyond the summary (markdown) */
+  body: string[];
+}
+
+export interface FullTextMatch {
+  id: string;
+  score: number;
+  /** Excerpt of the document text around the first matched term */
+  snippet: string;
+}
+
+/**
+ * Build the inverted index. Documents sharing an id are merged.
+ */
+export function buildFullTextIndex(documents: FullTextDocument[]): FullTextIndex {
+  const merged = new Map<string, { name: string; summary: string; parts: string[] }>();
+  for (const doc of documents) {
+    const entry = merged.get(doc.id) ?? { name: doc.name, summary: '', parts: [] };
+    entry.summary ||= plainText(doc.summary);
+    for (const part of doc.body.map(plainText)) {
+      if (part && part !== entry.summary && !entry.parts.includes(part)) entry.parts.push(part);
+    }
+    merged.set(doc.id, entry);
+  }
+
+  const index: FullTextIndex = { docs: [], texts: [], lengths: [], terms: {} };
+  for (const [id, { name, summary, parts }] of merged) {
+    const doc = index.docs.length;
+    const tokens = tokenize([name, summary, ...parts].join(' '));
+    const counts = new Map<string, number>();
+    for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1);
+    for (const [term, count] of counts) {
+      if (!Object.hasOwn(index.terms, term)) index.terms[term] = [];
+      index.terms[term].push(doc, count);
+    }
+
+    index.docs.push(id);
+    // The summary is shown in results already; snippets come from the rest
+    index.texts.push(parts.join(' '));
+    index.lengths.push(tokens.length);
+  }
+  return index;
+}
+
+/**
+ * Rank documents for a free-text query, best first.
+ */
+export function searchFullText(index: FullTextIndex, query: string): FullTextMatch[] {
+  const scores = new Map<number, number>();
+  const matched = new Set<string>();
+  const words = tokenize(query);
+  const averageLength = index.lengths.reduce((sum, n) => sum + n, 0) / (index.lengths.length || 1);
+
+  words.forEach((word, i) => {
+    // A document scores for its best expansion of each query word
+    const best = new Map<number, number>();
+    for (const [term, weight] of expandTerm(index, word, i === words.length - 1)) {
+      matched.add(term);
+      const postings = index.terms[term];
+      const count = postings.length / 2;
+      const idf = Math.log(1 + (index.docs.length - count + 0.5) / (count + 0.5));
+      for (let p = 0; p < postings.length; p += 2) {
+        const doc = postings[p];
+        const tf = postings[p + 1];
+        const norm = BM25_K1 * (1 - BM25_B + (BM25_B * index.lengths[doc]) / averageLength);
+        const score = (weight * idf * tf * (BM25_K1 + 1)) / (tf + norm);
+        best.set(doc, Math.max(best.get(doc) ?? 0, score));
+      }
+    }
+    for (const [doc, score] of best) scores.set(doc, (scores.get(doc) ?? 0) + score);
+  });
+
+  return [...scores]
+    .sort((a, b) => b[1] - a[1])
+    .map(([doc, score]) => ({
+      id: index.docs[doc],
+      score,
+      snippet: textSnippet(index.texts[doc], matched),
+    }));
+}
+
+/**
+ * Split text into index terms: lowercase, stemmed words without stop words.
+ */
+export function tokenize(text: string): string[] {
+  const words = text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .match(/[a-z0-9]+/g);
+  return (words || [])
+    .filter((word) => (word.length > 1 || /\d/.test(word)) && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+/**
+ * Reduce a word to its stem by stripping common English suffixes, so that
+ * "parse", "parses", "parsed" and "parsing" all index as "pars".
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || !/^[a-z]+$/.test(word)) return word;
+  let stemmed = word;
+  for (const group of STEM_SUFFIXES) {
+    const match = group.find(
+      ([suffix]) => stemmed.endsWith(suffix) && stemmed.length - suffix.length >= 3
+    );
+    if (match) stemmed = stemmed.slice(0, -match[0].length) + match[1];
+  }
+  return stemmed.length > 3 && stemmed.endsWith('e') ? stemmed.slice(0, -1) : stemmed;
+}
+
+/**
+ * Levenshtein distance, or `max + 1` as soon as it is known to exceed `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    if (Math.min(...current) > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/** Weights of inexact expansions of a query term */
+const PREFIX_WEIGHT = 0.7;
+const FUZZY_WEIGHT = 0.5;
+
+const SNIPPET_BEFORE = 40;
+const SNIPPET_LENGTH = 160;
+
+const STOP_WORDS = new Set(
+  'an and are as at be by for from if in is it of on or that the this to with'.split(' ')
+);
+
+/**
+ * Suffix → replacement groups: plurals, then verb and adverb endings. The first
+ * match of each group is stripped; the self-mappings keep "class" whole.
+ */
+const STEM_SUFFIXES: Array<Array<[string, string]>> = [
+  [
+    ['sses', 'ss'],
+    ['ies', 'y'],
+    ['ss', 'ss'],
+    ['us', 'us'],
+    ['is', 'is'],
+    ['s', ''],
+  ],
+  [
+    ['ied', 'y'],
+    ['ing', ''],
+    ['edly', ''],
+    ['ed', ''],
+    ['ly', ''],
+  ],
+];
+
+/**
+ * Index terms a query term stands for, with their weights: the term itself,
+ * terms it is a prefix of when it is the word being typed, and terms within
+ * one typo (two for long words) when it is not in the index.
+ */
+function expandTerm(index: FullTextIndex, term: string, last: boolean): Array<[string, number]> {
+  const expansions: Array<[string, number]> = [];
+  const exact = Object.hasOwn(index.terms, term);
+  if (exact) expansions.push([term, 1]);
+  const maxEdits = exact ? 0 : term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+  if (!last && maxEdits === 0) return expansions;
+
+  for (const candidate of Object.keys(index.terms)) {
+    if (candidate === term) continue;
+    if (last && term.length >= 2 && candidate.startsWith(term)) {
+      expansions.push([candidate, PREFIX_WEIGHT]);
+    } else if (maxEdits > 0 && editDistance(term, candidate, maxEdits) <= maxEdits) {
+      expansions.push([candidate, FUZZY_WEIGHT]);
+    }
+  }
+  return expansions;
+}
+
+/**
+ * Excerpt of `text` starting a little before the first word whose stem is one
+ * of `terms`; empty when none occurs.
+ */
+function textSnippet(text: string, terms: Set<string>): string {
+  for (const match of text.matchAll(/[A-Za-z0-9]+/g)) {
+    if (!tokenize(match[0]).some((token) => terms.has(token))) continue;
+    let start = Math.max(0, match.index - SNIPPET_BEFORE);
+    if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+    const end = Math.min(text.length, start + SNIPPET_LENGTH);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+  }
+  return '';
+}
+
+/**
+ * Markdown reduced to plain text: code fences, emphasis and link targets
+ * dropped, whitespace collapsed. Code inside fences is kept.
+ */
+function plainText(markdown: string): string {
+  return markdown
+    .replace(/^\s*(```|~~~).*$/gm, ' ')
+    .replace(/^\s*[#>]+\s*/gm, '')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/`+|\*{1,2}/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -8,3 +8,12 @@ export * from './markdown.js';
 export * from './nav-tree.js';
 export * from './search-index.js';
 export * from './public-api.js';
+export * from './traits.js';
+export * from './docstring.js';
+export * from './intra-doc-links.js';
+export * from './api-diff.js';
+export * from './semver.js';
+export * from './coverage.js';
+export * from './lint.js';
+export * from './source-links.js';
+export * from './full-text.js';
@@ -0,0 +1,138 @@
+/**
+ * Intra-doc links - rustdoc-style [`Name`] references inside docstrings.
+ *
+ * Every documented item is registered under its dotted path (`pkg.mod.Item`,
+ * `pkg.mod.Item.method`, and the `pkg.Item` re-exports of `__init__.mojo`);
+ * a link target is looked up relative to the item whose docstring holds it,
+ * then by unique suffix anywhere in the package.
+ */
+
+import type { PackageDecl, ModuleDecl, StructDecl, TraitDecl } from '@mojodoc/parser';
+import { toAnchor } from './nav-tree.js';
+import { aliasReExports, parseInitFile } from './public-api.js';
+
+/**
+ * Map of dotted item path → documentation URL.
+ */
+export type LinkTargets = Map<string, string>;
+
+export interface LinkResolution {
+  href: string | null;
+  /** Paths an ambiguous target could mean (empty when resolved or unknown) */
+  candidates: string[];
+}
+
+/**
+ * Register every package, module and item of a declaration tree. `moduleFiles`
+ * (relative path → source) supplies the `__init__.mojo` re-exports.
+ */
+export function collectLinkTargets(
+  decl: PackageDecl | ModuleDecl,
+  baseUrl: string,
+  moduleFiles: Map<string, string> = new Map()
+): LinkTargets {
+  const targets: LinkTargets = new Map();
+  if (decl.kind === 'package') {
+    registerPackage(decl, '', baseUrl, moduleFiles, targets);
+  } else {
+    registerModule(decl, decl.name, baseUrl, targets);
+  }
+  return targets;
+}
+
+/**
+ * Resolve a link target (the text inside [`...`]) as seen from `scope`, the
+ * dotted path of the documented item. Each enclosing scope is tried from the
+ * innermost out, then any path ending in the target.
+ */
+export function resolveLinkTarget(
+  targets: LinkTargets,
+  target: string,
+  scope: string
+): LinkResolution {
+  const name = target.replace(/\(\)$/, '');
+  const parts = scope ? scope.split('.') : [];
+  for (let i = parts.length; i >= 0; i--) {
+    const path = [...parts.slice(0, i), name].join('.');
+    const href = targets.get(path);
+    if (href) return { href, candidates: [] };
+  }
+
+  const matches = [...targets.keys()].filter((path) => path.endsWith(`.${name}`));
+  const hrefs = new Set(matches.map((path) => targets.get(path)));
+  if (hrefs.size === 1) return { href: targets.get(matches[0])!, candidates: [] };
+  return { href: null, candidates: matches };
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+function registerPackage(
+  pkg: PackageDecl,
+  parentPath: string,
+  baseUrl: string,
+  moduleFiles: Map<string, string>,
+  targets: LinkTargets
+): void {
+  const path = parentPath ? `${parentPath}.${pkg.name}` : pkg.name;
+  targets.set(path, `${baseUrl}${path.replace(/\./g, '/')}/index.html`);
+
+  // __init__ items have no page of their own; only re-exports point into it.
+  for (const mod of pkg.modules) {
+    if (mod.name !== '__init__') registerModule(mod, `${path}.${mod.name}`, baseUrl, targets);
+  }
+  for (const sub of pkg.packages) {
+    registerPackage(sub, path, baseUrl, moduleFiles, targets);
+  }
+
+  const initFile = [...path.split('.').slice(1), '__init__.mojo'].join('/');
+  const initContent = moduleFiles.get(initFile);
+  if (initContent) {
+    const reExports = parseInitFile(initContent).flatMap((imp) =>
+      imp.items.map((name) => ({ sourceModule: imp.module, name }))
+    );
+    aliasReExports(targets, path, reExports);
+  }
+}
+
+function registerModule(
+  mod: ModuleDecl,
+  fullPath: string,
+  baseUrl: string,
+  targets: LinkTargets
+): void {
+  const page = `${baseUrl}${fullPath.replace(/\./g, '/')}/index.html`;
+  targets.set(fullPath, page);
+
+  for (const fn of mod.functions) {
+    targets.set(`${fullPath}.${fn.name}`, `${page}#${toAnchor(fn.name)}`);
+  }
+  for (const owner of [...mod.structs, ...mod.traits]) {
+    registerOwner(owner, fullPath, page, targets);
+  }
+  for (const alias of mod.aliases) {
+    targets.set(`${fullPath}.${alias.name}`, `${page}#${toAnchor(alias.name)}`);
+  }
+}
+
+/** A struct or trait with its methods and (for structs) fields. */
+function registerOwner(
+  owner: StructDecl | TraitDecl,
+  modulePath: string,
+  page: string,
+  targets: LinkTargets
+): void {
+  const path = `${modulePath}.${owner.name}`;
+  const anchor = toAnchor(owner.name);
+  targets.set(path, `${page}#${anchor}`);
+
+  for (const fn of owner.functions || []) {
+    targets.set(`${path}.${fn.name}`, `${page}#${anchor}-${toAnchor(fn.name)}`);
+  }
+  if (owner.kind === 'struct') {
+    for (const field of owner.fields || []) {
+      targets.set(`${path}.${field.name}`, `${page}#${anchor}-${field.name}`);
+    }
+  }
+}
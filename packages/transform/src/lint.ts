@@ -0,0 +1,232 @@
+/**
+ * Docstring lint - check each function overload's documentation against its
+ * signature: Args/Parameters entries that match no argument, arguments with
+ * no documentation, and Returns/Raises docs that the signature contradicts.
+ */
+
+import type { MojoDocOutput, FunctionDecl, FunctionOverload } from '@mojodoc/parser';
+import { mapModulesByPath } from '@mojodoc/parser';
+import { parseDocstring } from './docstring.js';
+import { locateDeclarations } from './source-links.js';
+import type { SourceRanges } from './source-links.js';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintRule =
+  | 'unknown-arg'
+  | 'undocumented-arg'
+  | 'unknown-parameter'
+  | 'undocumented-parameter'
+  | 'returns-without-return-type'
+  | 'raises-without-raises';
+
+export interface LintRuleInfo {
+  severity: LintSeverity;
+  description: string;
+}
+
+/** Every lint rule with its default severity. */
+export const LINT_RULES: Record<LintRule, LintRuleInfo> = {
+  'unknown-arg': {
+    severity: 'error',
+    description: 'Args: documents an argument the function does not take',
+  },
+  'undocumented-arg': {
+    severity: 'warning',
+    description: 'Argument is missing from the Args: section',
+  },
+  'unknown-parameter': {
+    severity: 'error',
+    description: 'Parameters: documents a parameter the function does not take',
+  },
+  'undocumented-parameter': {
+    severity: 'warning',
+    description: 'Compile-time parameter is missing from the Parameters: section',
+  },
+  'returns-without-return-type': {
+    severity: 'error',
+    description: 'Returns: is documented but the function returns nothing',
+  },
+  'raises-without-raises': {
+    severity: 'error',
+    description: 'Raises: is documented but the function does not raise',
+  },
+};
+
+export interface LintDiagnostic {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  /** Dotted path of the function (e.g. "mypkg.core.Config.to_string") */
+  path: string;
+  /** Dotted path of the module */
+  module: string;
+  signature: string;
+  /** Source file relative to the package root (e.g. "net/socket.mojo") */
+  file: string;
+  /** 1-based line of the declaration, when the source was available */
+  line: number | null;
+}
+
+export interface LintOptions {
+  /** Map of relative file paths to their content, for line numbers */
+  moduleFiles?: Map<string, string>;
+}
+
+/**
+ * Lint every function, struct method and trait method in a `mojo doc` tree.
+ */
+export function lintDocstrings(doc: MojoDocOutput, options: LintOptions = {}): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+
+  for (const [modPath, mod] of mapModulesByPath(doc.decl)) {
+    const file = sourceFileOf(modPath);
+    const source = options.moduleFiles?.get(file);
+    const ctx: LintContext = {
+      module: modPath,
+      file,
+      lines: source?.split('\n') ?? [],
+      declarations: source ? locateDeclarations(source) : new Map(),
+    };
+
+    for (const fn of mod.functions || []) {
+      lintFunction(fn, fn.name, ctx, diagnostics);
+    }
+    for (const owner of [...(mod.structs || []), ...(mod.traits || [])]) {
+      for (const fn of owner.functions || []) {
+        lintFunction(fn, `${owner.name}.${fn.name}`, ctx, diagnostics);
+      }
+    }
+  }
+
+  return diagnostics;
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+interface LintContext {
+  module: string;
+  file: string;
+  /** Source lines of the module, empty when the source was not available */
+  lines: string[];
+  declarations: SourceRanges;
+}
+
+/**
+ * Lint the overloads of a function or method, `localPath` being its path within
+ * the module (e.g. "Config.__init__").
+ */
+function lintFunction(
+  fn: FunctionDecl,
+  localPath: string,
+  ctx: LintContext,
+  diagnostics: LintDiagnostic[]
+): void {
+  const path = `${ctx.module}.${localPath}`;
+  const line = declarationLine(ctx, localPath, fn.name);
+  for (const overload of fn.overloads || []) {
+    const report = (rule: LintRule, message: string) =>
+      diagnostics.push({
+        rule,
+        severity: LINT_RULES[rule].severity,
+        message,
+        path,
+        module: ctx.module,
+        signature: overload.signature,
+        file: ctx.file,
+        line,
+      });
+    lintOverload(overload, report);
+  }
+}
+
+function lintOverload(
+  overload: FunctionOverload,
+  report: (rule: LintRule, message: string) => void
+): void {
+  // mojo doc moves most sections into structured fields, but entries for
+  // names that do not exist in the signature stay behind in the text.
+  const sections = docSections(overload.description || '');
+
+  const args = (overload.args || []).filter((a) => a.name !== 'self');
+  const argNames = new Set(args.map((a) => stripStars(a.name)));
+  for (const name of sections.args) {
+    if (!argNames.has(name)) {
+      report('unknown-arg', `Args: documents \`${name}\`, which is not an argument`);
+    }
+  }
+  for (const arg of args) {
+    if (!arg.description && !sections.args.includes(stripStars(arg.name))) {
+      report('undocumented-arg', `argument \`${arg.name}\` is not documented`);
+    }
+  }
+
+  const params = overload.parameters || [];
+  const paramNames = new Set(params.map((p) => p.name));
+  for (const name of sections.parameters) {
+    if (!paramNames.has(name)) {
+      report('unknown-parameter', `Parameters: documents \`${name}\`, which is not a parameter`);
+    }
+  }
+  for (const param of params) {
+    if (!param.description && !sections.parameters.includes(param.name)) {
+      report('undocumented-parameter', `parameter \`${param.name}\` is not documented`);
+    }
+  }
+
+  const returnsNothing = !overload.returns || overload.returns.type === 'None';
+  if (returnsNothing && (overload.returns?.doc || sections.hasReturns)) {
+    report('returns-without-return-type', 'Returns: is documented but nothing is returned');
+  }
+
+  if (!overload.raises && (overload.raisesDoc || sections.hasRaises)) {
+    report('raises-without-raises', 'Raises: is documented but the function does not raise');
+  }
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+function docSections(description: string) {
+  const { sections } = parseDocstring(description);
+  const names = (kind: 'args' | 'parameters') =>
+    sections
+      .filter((s) => s.kind === kind)
+      .flatMap((s) => s.entries.map((e) => stripStars(e.name)));
+  return {
+    args: names('args'),
+    parameters: names('parameters'),
+    hasReturns: sections.some((s) => s.kind === 'returns'),
+    hasRaises: sections.some((s) => s.kind === 'raises'),
+  };
+}
+
+function stripStars(name: string): string {
+  return name.replace(/^\*+/, '');
+}
+
+/**
+ * Source file of a module relative to the package root, matching
+ * `Module.sourceFile`.
+ */
+function sourceFileOf(modPath: string): string {
+  const parts = modPath.split('.');
+  return (parts.length > 1 ? parts.slice(1).join('/') : parts[0]) + '.mojo';
+}
+
+/**
+ * Line of the `fn`/`def` keyword of a declaration, past any decorators its
+ * source range starts with.
+ */
+function declarationLine(ctx: LintContext, localPath: string, name: string): number | null {
+  const range = ctx.declarations.get(localPath);
+  if (!range) return null;
+  const pattern = new RegExp(`^\\s*(?:fn|def)\\s+${name}\\b`);
+  for (let line = range.start; line <= range.end; line++) {
+    if (pattern.test(ctx.lines[line - 1])) return line;
+  }
+  return range.start;
+}
@@ -31,14 +31,71 @@ marked.setOptions({
 // ============================================================================
 
 /**
- * A registry of known type names to their documentation URLs.
+ * A registry of known types, keyed by simple name; each name maps the
+ * fully-qualified paths that define it (`mypkg.net.Config`,
+ * `std.builtin.error.Error`) to their documentation URLs.
  * Built during transformation by scanning all path-bearing fields in the
  * mojo doc JSON output. For types that mojo doc doesn't provide paths for
  * (because they don't appear as arg/return/field types in the project),
  * inferStdlibUrl() provides a small set of pattern-based rules for stable
  * type families.
  */
-export type TypeRegistry = Map<string, string>;
+export type TypeRegistry = Map<string, Map<string, string>>;
+
+/**
+ * Resolves a type name in a signature to a URL, or null to leave it unlinked.
+ */
+export type TypeResolver = (name: string) => string | null;
+
+export interface TypeLookup {
+  href: string | null;
+  /** Qualified path of the definition found (null when none or ambiguous) */
+  path: string | null;
+  /** Qualified paths an ambiguous name could mean (empty otherwise) */
+  candidates: string[];
+}
+
+/**
+ * Look up a simple type name as seen from `scope`, the dotted path of the
+ * referencing item. The definition sharing the longest path prefix with the
+ * scope wins (same module, then same package, then elsewhere); a tie between
+ * definitions with different URLs is ambiguous.
+ */
+export function lookupType(registry: TypeRegistry, name: string, scope: string): TypeLookup {
+  const defs = registry.get(name);
+  if (!defs || defs.size === 0) return { href: null, path: null, candidates: [] };
+
+  const scopeParts = scope.split('.');
+  let best: string[] = [];
+  let bestDepth = -1;
+  for (const qualified of defs.keys()) {
+    const depth = commonPrefixLength(qualified.split('.').slice(0, -1), scopeParts);
+    if (depth > bestDepth) [best, bestDepth] = [[qualified], depth];
+    else if (depth === bestDepth) best.push(qualified);
+  }
+
+  const hrefs = new Set(best.map((qualified) => defs.get(qualified)));
+  if (hrefs.size === 1) return { href: defs.get(best[0])!, path: best[0], candidates: [] };
+  return { href: null, path: null, candidates: best };
+}
+
+/**
+ * A resolver over the registry for one scope, falling back to stdlib URL
+ * inference for names the registry doesn't know. `onAmbiguous` is called for
+ * names with more than one equally close definition; those stay unlinked.
+ */
+export function registryResolver(
+  registry: TypeRegistry,
+  scope: string,
+  onAmbiguous?: (name: string, candidates: string[]) => void
+): TypeResolver {
+  return (name) => {
+    const { href, candidates } = lookupType(registry, name, scope);
+    if (candidates.length > 0) onAmbiguous?.(name, candidates);
+    if (href || candidates.length > 0) return href;
+    return inferStdlibUrl(name);
+  };
+}
 
 const STDLIB_BASE = 'https://docs.modular.com/mojo/stdlib';
 
@@ -109,15 +166,25 @@ export function inferStdlibUrl(typeName: string): string | null {
 }
 
 /**
- * Convert markdown to HTML.
+ * Resolves an intra-doc link target (the text inside [`...`]) to a URL, or
+ * null when it names nothing known.
  */
-export function renderMarkdown(markdown: string): string {
+export type IntraDocLinkResolver = (target: string) => string | null;
+
+/** [`Name`], [`Type.method`], [`pkg.mod.func()`] - but not a [`x`](url) link. */
+const INTRA_DOC_LINK = /\[`([A-Za-z_][\w.]*(?:\(\))?)`\](?![([:])/g;
+
+/**
+ * Convert markdown to HTML. With a resolver, intra-doc links become links;
+ * unresolved ones are rendered as plain code.
+ */
+export function renderMarkdown(markdown: string, resolveLink?: IntraDocLinkResolver): string {
   if (!markdown || markdown.trim() === '') {
     return '';
   }
 
   // Preprocess the markdown for Mojo-specific patterns
-  const processed = preprocessDocstring(markdown);
+  const processed = preprocessDocstring(markdown, resolveLink);
 
   const result = marked.parse(processed);
   if (typeof result === 'string') {
@@ -134,8 +201,9 @@ export function renderMarkdown(markdown: string): string {
  * 1. Example: sections -> proper code blocks
  * 2. Mojo generic syntax [param=value] -> escaped to prevent markdown links
  * 3. Note: sections -> callout blocks
+ * 4. Intra-doc links [`Name`] -> links (when a resolver is given)
  */
-function preprocessDocstring(markdown: string): string {
+function preprocessDocstring(markdown: string, resolveLink?: IntraDocLinkResolver): string {
   let result = markdown;
 
   // Handle Example: sections FIRST - convert to proper code blocks
@@ -187,8 +255,16 @@ function preprocessDocstring(markdown: string): string {
     }
     if (inCodeBlock) return line;
 
+    let processed = line;
+    if (resolveLink) {
+      processed = processed.replace(INTRA_DOC_LINK, (_match, target: string) => {
+        const href = resolveLink(target);
+        return href ? `[\`${target}\`](${href})` : `\`${target}\``;
+      });
+    }
+
     // Escape Mojo generics outside code blocks
-    let processed = line.replace(/(\w+)\[([^\]]*[=:][^\]]*)\]\(([^)]+)\)/g, '`$1[$2]($3)`');
+    processed = processed.replace(/(\w+)\[([^\]]*[=:][^\]]*)\]\(([^)]+)\)/g, '`$1[$2]($3)`');
     processed = processed.replace(/(\w+)\[([^\]]*[=:"][^\]]*)\](?!\()/g, '`$1[$2]`');
     return processed;
   });
@@ -224,6 +300,27 @@ export function extractSummary(markdown: string): string {
   return summary;
 }
 
+// ============================================================================
+// Source file highlighting
+// ============================================================================
+
+/**
+ * Highlight a whole Mojo source file into one HTML string per line. Spans
+ * crossing a line break (multi-line strings) are closed and reopened.
+ */
+export function highlightSourceLines(source: string): string[] {
+  const html = hljs.highlight(source, { language: 'mojo' }).value;
+  const open: string[] = [];
+  return html.split('\n').map((line) => {
+    const reopened = open.join('');
+    for (const tag of line.match(/<span[^>]*>|<\/span>/g) || []) {
+      if (tag === '</span>') open.pop();
+      else open.push(tag);
+    }
+    return reopened + line + '</span>'.repeat(open.length);
+  });
+}
+
 // ============================================================================
 // Signature highlighting with type cross-references
 // ============================================================================
@@ -232,9 +329,9 @@ export function extractSummary(markdown: string): string {
  * Highlight a Mojo signature, optionally creating links for types.
  *
  * @param signature - The raw signature string
- * @param typeRegistry - Optional type registry for creating type links
+ * @param resolveType - Optional resolver for creating type links
  */
-export function highlightSignature(signature: string, typeRegistry?: TypeRegistry): string {
+export function highlightSignature(signature: string, resolveType?: TypeResolver): string {
   // Tokenize and highlight the signature
   const tokens = tokenizeSignature(signature);
   return tokens
@@ -246,12 +343,9 @@ export function highlightSignature(signature: string, typeRegistry?: TypeRegistr
           return `<span class="sig-name">${escapeHtml(token.value)}</span>`;
         case 'type': {
           const typeSpan = `<span class="sig-type">${escapeHtml(token.value)}</span>`;
-          // Try to link: 1) registry (from mojo doc JSON), 2) stdlib URL inference
-          if (typeRegistry) {
-            const href = typeRegistry.get(token.value) ?? inferStdlibUrl(token.value);
-            if (href) {
-              return `<a href="${escapeHtml(href)}" class="type-link">${typeSpan}</a>`;
-            }
+          const href = resolveType?.(token.value);
+          if (href) {
+            return `<a href="${escapeHtml(href)}" class="type-link">${typeSpan}</a>`;
           }
           return typeSpan;
         }
@@ -368,38 +462,47 @@ function tokenizeSignature(signature: string): SignatureToken[] {
  *
  * Complex types like `List[Value]` will have `List` and `Value` linked separately.
  * If a path is provided (from mojo doc JSON), it's used for the outermost type.
- * Inner types are resolved via the type registry.
+ * Inner types are resolved via the type resolver.
  *
  * @param type - The type name (e.g., "String", "Value", "List[Value]")
  * @param path - The mojo doc path for the outermost type
  * @param baseUrl - The base URL for local docs
  * @param packageName - The root package name
- * @param typeRegistry - Optional registry for resolving inner types
+ * @param resolveType - Optional resolver for inner types
  */
 export function highlightType(
   type: string,
   path?: string | null,
   baseUrl?: string,
   packageName?: string,
-  typeRegistry?: TypeRegistry
+  resolveType?: TypeResolver
 ): string {
-  // Build a local registry that merges the explicit path with the global registry
-  const mergedRegistry = new Map<string, string>(typeRegistry || []);
-
-  // If we have an explicit path from mojo doc, register the outermost type
-  if (path) {
-    const href = resolveTypePath(path, baseUrl || '/', packageName || '');
-    if (href) {
-      // Extract the outermost type name (before any [ or generic params)
-      const outerType = type.match(/^([A-Z][A-Za-z0-9_]*)/)?.[1];
-      if (outerType) {
-        mergedRegistry.set(outerType, href);
-      }
-    }
-  }
+  // An explicit path from mojo doc decides the outermost type
+  const href = path ? resolveTypePath(path, baseUrl || '/', packageName || '') : null;
+  const outerType = outerTypeName(type);
+  if (!href || !outerType) return highlightSignature(type, resolveType);
 
-  // Use the signature highlighter with the merged registry to get per-component links
-  return highlightSignature(type, mergedRegistry);
+  return highlightSignature(type, (name) =>
+    name === outerType ? href : (resolveType?.(name) ?? null)
+  );
+}
+
+/**
+ * The outermost name of a type (`List[Int]` → `List`), if it looks like a type.
+ */
+export function outerTypeName(type: string): string | null {
+  return type.match(/^([A-Z][A-Za-z0-9_]*)/)?.[1] ?? null;
+}
+
+/**
+ * Fully-qualified dotted path for a mojo doc type path
+ * (`/std/collections/list/List` → `std.collections.list.List`,
+ * `/mypkg/net/#Config` → `mypkg.net.Config`).
+ */
+export function qualifiedTypePath(path: string, typeName: string): string {
+  const segments = path.split(/[/#]+/).filter(Boolean);
+  if (segments[segments.length - 1] !== typeName) segments.push(typeName);
+  return segments.join('.');
 }
 
 /**
@@ -444,6 +547,12 @@ export function resolveTypePath(path: string, baseUrl: string, packageName: stri
   return null;
 }
 
+function commonPrefixLength(a: string[], b: string[]): number {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+}
+
 /**
  * Escape HTML special characters.
  */
@@ -204,6 +204,25 @@ export function buildPublicApi(
   return sections;
 }
 
+/**
+ * Alias `pkg.Item` (and its members) to `pkg.module.Item` in a map keyed by
+ * dotted path, for every item `pkg` re-exports.
+ */
+export function aliasReExports<T>(
+  paths: Map<string, T>,
+  packagePath: string,
+  reExports: Array<Pick<PublicApiItem, 'sourceModule' | 'name'>>
+): void {
+  for (const item of reExports) {
+    const source = `${packagePath}.${item.sourceModule}.${item.name}`;
+    for (const [path, value] of [...paths]) {
+      if (path !== source && !path.startsWith(`${source}.`)) continue;
+      const alias = `${packagePath}.${item.name}${path.slice(source.length)}`;
+      if (!paths.has(alias)) paths.set(alias, value);
+    }
+  }
+}
+
 /**
  * Extract the docstring from __init__.mojo.
  *
@@ -2,13 +2,33 @@
  * Build search index from documentation.
  */
 
-import type { Module, SearchIndex, SearchItem } from './types.js';
+import type { DocItemKind } from '@mojodoc/parser';
+import type { Module, ProcessedOverload, SearchIndex, SearchItem, SearchQuery } from './types.js';
+import type { PublicApiIndex } from './semver.js';
+import { buildFullTextIndex, searchFullText, type FullTextDocument } from './full-text.js';
 
 /**
- * Build search index from all modules.
+ * Query filter prefixes (`fn:load`, `struct:`) and the kinds they select.
  */
-export function buildSearchIndex(modules: Module[]): SearchIndex {
+export const SEARCH_KIND_FILTERS: Record<string, DocItemKind[]> = {
+  fn: ['function', 'method'],
+  struct: ['struct'],
+  trait: ['trait'],
+  alias: ['alias'],
+  field: ['field'],
+};
+
+/**
+ * Build search index from all modules. Items in `publicApi` (and their methods
+ * and fields) are marked public; with no public API, every item is.
+ */
+export function buildSearchIndex(
+  modules: Module[],
+  publicApi: PublicApiIndex = new Map()
+): SearchIndex {
   const items: SearchItem[] = [];
+  const documents: FullTextDocument[] = [];
+  const isPublic = (path: string) => publicApi.size === 0 || publicApi.has(path);
 
   for (const mod of modules) {
     // Index functions
@@ -25,6 +45,15 @@ export function buildSearchIndex(modules: Module[]): SearchIndex {
           summary: overload.summary || fn.overloads[0]?.summary || '',
           inputTypes: overload.args.map((a) => normalizeType(a.type)),
           outputType: overload.returns ? normalizeType(overload.returns.type) : null,
+          typeParams: overload.typeParams.map((p) => normalizeType(p.name)),
+          deprecated: overload.deprecated !== null,
+          public: isPublic(`${mod.fullPath}.${fn.name}`),
+        });
+        documents.push({
+          id: `${mod.fullPath}.${fn.name}`,
+          name: fn.name,
+          summary: overload.summary,
+          body: overloadText(overload),
         });
       }
     }
@@ -42,6 +71,15 @@ export function buildSearchIndex(modules: Module[]): SearchIndex {
         summary: struct.summary,
         inputTypes: [],
         outputType: null,
+        typeParams: [],
+        deprecated: struct.deprecated !== null,
+        public: isPublic(`${mod.fullPath}.${struct.name}`),
+      });
+      documents.push({
+        id: `${mod.fullPath}.${struct.name}`,
+        name: struct.name,
+        summary: struct.summary,
+        body: [struct.description],
       });
 
       // Index struct methods
@@ -56,8 +94,19 @@ export function buildSearchIndex(modules: Module[]): SearchIndex {
             anchor: `${struct.anchor}-${method.anchor}`,
             signature: overload.signature,
             summary: overload.summary,
-            inputTypes: overload.args.map((a) => normalizeType(a.type)),
-            outputType: overload.returns ? normalizeType(overload.returns.type) : null,
+            inputTypes: overload.args.map((a) => normalizeType(a.type, struct.name)),
+            outputType: overload.returns ? normalizeType(overload.returns.type, struct.name) : null,
+            typeParams: [...struct.typeParams, ...overload.typeParams].map((p) =>
+              normalizeType(p.name)
+            ),
+            deprecated: struct.deprecated !== null || overload.deprecated !== null,
+            public: isPublic(`${mod.fullPath}.${struct.name}`),
+          });
+          documents.push({
+            id: `${mod.fullPath}.${struct.name}.${method.name}`,
+            name: method.name,
+            summary: overload.summary,
+            body: overloadText(overload),
           });
         }
       }
@@ -75,6 +124,15 @@ export function buildSearchIndex(modules: Module[]): SearchIndex {
           summary: field.summary,
           inputTypes: [],
           outputType: normalizeType(field.type),
+          typeParams: [],
+          deprecated: struct.deprecated !== null,
+          public: isPublic(`${mod.fullPath}.${struct.name}`),
+        });
+        documents.push({
+          id: `${mod.fullPath}.${struct.name}.${field.name}`,
+          name: field.name,
+          summary: field.summary,
+          body: [field.description],
         });
       }
     }
@@ -92,6 +150,15 @@ export function buildSearchIndex(modules: Module[]): SearchIndex {
         summary: trait.summary,
         inputTypes: [],
         outputType: null,
+        typeParams: [],
+        deprecated: trait.deprecated !== null,
+        public: isPublic(`${mod.fullPath}.${trait.name}`),
+      });
+      documents.push({
+        id: `${mod.fullPath}.${trait.name}`,
+        name: trait.name,
+        summary: trait.summary,
+        body: [trait.description],
       });
     }
 
@@ -108,50 +175,145 @@ export function buildSearchIndex(modules: Module[]): SearchIndex {
         summary: alias.summary,
         inputTypes: [],
         outputType: null,
+        typeParams: [],
+        deprecated: alias.deprecated !== null,
+        public: isPublic(`${mod.fullPath}.${alias.name}`),
+      });
+      documents.push({
+        id: `${mod.fullPath}.${alias.name}`,
+        name: alias.name,
+        summary: alias.summary,
+        body: [alias.description],
       });
     }
   }
 
-  return { items };
+  return { items, fullText: buildFullTextIndex(documents) };
 }
 
 /**
- * Normalize a type string for search matching.
+ * Documentation of an overload beyond its summary: the description (with any
+ * examples) and the argument, return and raises docs.
  */
-function normalizeType(type: string): string {
-  return type
+function overloadText(overload: ProcessedOverload): string[] {
+  return [
+    overload.description,
+    ...overload.args.map((arg) => arg.description),
+    ...overload.typeParams.map((param) => param.description),
+    overload.returns?.description ?? '',
+    overload.raises?.description ?? '',
+  ];
+}
+
+function isSearchFilter(key: string): boolean {
+  return (
+    key === 'in' ||
+    key === 'deprecated' ||
+    key === 'public' ||
+    Object.hasOwn(SEARCH_KIND_FILTERS, key)
+  );
+}
+
+/** Scale of full-text ranks against the name match scores below */
+const FULL_TEXT_WEIGHT = 10;
+
+/**
+ * Normalize a type string for search matching. Inside a struct, `Self` is
+ * spelled out as the struct's name.
+ */
+function normalizeType(type: string, selfType?: string): string {
+  const spelled = selfType ? type.replace(/\bSelf\b(?!\.)/g, selfType) : type;
+  return spelled
     .toLowerCase()
     .replace(/\s+/g, '')
     .replace(/self\./gi, '');
 }
 
 /**
- * Search the index for a query.
+ * Split a search query into its text and filters: `fn:`, `struct:`, `trait:`,
+ * `alias:` and `field:` select kinds, `in:net.http` a module, `deprecated:`
+ * and `public:` flagged items. Text after a filter's colon stays in the query,
+ * so `struct:Parser` looks for structs named like "Parser".
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+  const parsed: SearchQuery = {
+    text: '',
+    kinds: [],
+    scope: null,
+    deprecated: false,
+    public: false,
+  };
+  const words: string[] = [];
+
+  for (const word of query.trim().split(/\s+/)) {
+    const filter = /^(\w+):(.*)$/.exec(word);
+    const key = filter?.[1].toLowerCase();
+    if (!filter || !key || !isSearchFilter(key)) {
+      words.push(word);
+      continue;
+    }
+    const value = filter[2];
+    if (key === 'in') {
+      parsed.scope = value || null;
+      continue;
+    }
+    if (key === 'deprecated' || key === 'public') parsed[key] = true;
+    else parsed.kinds.push(...SEARCH_KIND_FILTERS[key]);
+    if (value) words.push(value);
+  }
+
+  parsed.text = words.filter(Boolean).join(' ');
+  return parsed;
+}
+
+/**
+ * Whether an item passes a query's filters. A scope matches whole segments
+ * of the item's path, so `in:net` covers `pkg.net.http` but not `pkg.network`.
+ */
+export function matchesSearchFilters(item: SearchItem, query: SearchQuery): boolean {
+  if (query.kinds.length > 0 && !query.kinds.includes(item.kind)) return false;
+  if (query.deprecated && !item.deprecated) return false;
+  if (query.public && !item.public) return false;
+  if (query.scope && !`.${item.fullPath}.`.includes(`.${query.scope}.`)) return false;
+  return true;
+}
+
+/**
+ * Search the index for a query. A query of filters alone lists what they let
+ * through.
  */
 export function searchIndex(index: SearchIndex, query: string): SearchItem[] {
-  const normalizedQuery = query.toLowerCase().trim();
+  const parsed = parseSearchQuery(query);
+  const filtered = index.items.filter((item) => matchesSearchFilters(item, parsed));
+  const normalizedQuery = parsed.text.toLowerCase();
 
   if (!normalizedQuery) {
-    return [];
+    return query.trim() ? filtered.slice(0, 50) : [];
   }
 
+  const scoped = { ...index, items: filtered };
+
   // Check for type signature search (contains ->)
   if (normalizedQuery.includes('->')) {
-    return searchByTypeSignature(index, normalizedQuery);
+    return searchByTypeSignature(scoped, normalizedQuery);
   }
 
   // Regular name/content search
-  return searchByName(index, normalizedQuery);
+  return searchByName(scoped, normalizedQuery);
 }
 
 /**
- * Search by name/content.
+ * Search by name/content. Items whose docs mention the query's words score on
+ * top of that by their full-text rank.
  */
 function searchByName(index: SearchIndex, query: string): SearchItem[] {
   const results: Array<{ item: SearchItem; score: number }> = [];
+  const textScores = new Map(
+    searchFullText(index.fullText, query).map((match) => [match.id, match.score])
+  );
 
   for (const item of index.items) {
-    let score = 0;
+    let score = (textScores.get(item.id) ?? 0) * FULL_TEXT_WEIGHT;
 
     // Exact name match
     if (item.name.toLowerCase() === query) {
@@ -186,13 +348,13 @@ function searchByName(index: SearchIndex, query: string): SearchItem[] {
 }
 
 /**
- * Search by type signature (e.g., "String -> Int").
+ * Search functions and methods by type signature, Hoogle-style: `String -> Int`,
+ * `-> Value` or `List[Int] ->`. Query arguments match item arguments in any
+ * order; single-letter query types and the item's own parameters are type
+ * variables, bound consistently across the signature.
  */
 function searchByTypeSignature(index: SearchIndex, query: string): SearchItem[] {
-  const [inputPart, outputPart] = query.split('->').map((s) => s.trim());
-  const inputTypes = inputPart ? inputPart.split(',').map((t) => t.trim().toLowerCase()) : [];
-  const outputType = outputPart ? outputPart.toLowerCase() : null;
-
+  const typeQuery = parseTypeQuery(query);
   const results: Array<{ item: SearchItem; score: number }> = [];
 
   for (const item of index.items) {
@@ -200,25 +362,7 @@ function searchByTypeSignature(index: SearchIndex, query: string): SearchItem[]
       continue;
     }
 
-    let score = 0;
-
-    // Check output type
-    if (outputType && item.outputType) {
-      if (item.outputType.includes(outputType)) {
-        score += 50;
-      }
-    }
-
-    // Check input types
-    if (inputTypes.length > 0) {
-      const itemInputs = item.inputTypes.join(',');
-      for (const input of inputTypes) {
-        if (itemInputs.includes(input)) {
-          score += 25;
-        }
-      }
-    }
-
+    const score = scoreTypeSignature(typeQuery, item);
     if (score > 0) {
       results.push({ item, score });
     }
@@ -228,3 +372,148 @@ function searchByTypeSignature(index: SearchIndex, query: string): SearchItem[]
 
   return results.slice(0, 50).map((r) => r.item);
 }
+
+// ============================================================================
+// Type signature matching
+// ============================================================================
+
+/** A parsed type: `List[Int]` is `{ name: 'list', args: [{ name: 'int', args: [] }] }`. */
+interface TypeTerm {
+  name: string;
+  args: TypeTerm[];
+}
+
+interface TypeQuery {
+  inputs: TypeTerm[];
+  /** null when the query leaves the return type open (`List[Int] ->`) */
+  output: TypeTerm | null;
+}
+
+/** Type variable bindings: `?t` for query variables, `!t` for item parameters. */
+type Bindings = Map<string, string>;
+
+/** Match quality of one type: same type, bare `List` for `List[...]`, via a variable. */
+const EXACT = 1;
+const PARTIAL = 0.8;
+const VARIABLE = 0.6;
+
+/** Score lost per item argument the query does not mention. */
+const EXTRA_ARG_PENALTY = 0.1;
+
+function parseTypeQuery(query: string): TypeQuery {
+  const arrow = query.indexOf('->');
+  const inputPart = query.slice(0, arrow).trim();
+  const outputPart = query.slice(arrow + 2).trim();
+  return {
+    inputs: inputPart ? splitTopLevel(inputPart).map(parseType) : [],
+    output: outputPart ? parseType(outputPart) : null,
+  };
+}
+
+/**
+ * Score an item against a type query, from 0 (no match) to 100. Every
+ * argument and the return type in the query must match.
+ */
+function scoreTypeSignature(query: TypeQuery, item: SearchItem): number {
+  const vars = new Set(item.typeParams);
+  const inputs = item.inputTypes.map(parseType);
+  const output = item.outputType && item.outputType !== 'none' ? parseType(item.outputType) : null;
+  const parts = query.inputs.length + (query.output ? 1 : 0);
+  if (parts === 0 || query.inputs.length > inputs.length) return 0;
+
+  let best = 0;
+
+  // Try every assignment of query arguments to distinct item arguments
+  const assign = (i: number, used: Set<number>, total: number, bindings: Bindings) => {
+    if (i === query.inputs.length) {
+      let sum = total;
+      if (query.output) {
+        const quality = output ? unify(query.output, output, vars, new Map(bindings)) : 0;
+        if (quality === 0) return;
+        sum += quality;
+      }
+      const extra = inputs.length - query.inputs.length;
+      best = Math.max(best, (sum / parts - extra * EXTRA_ARG_PENALTY) * 100);
+      return;
+    }
+    inputs.forEach((input, j) => {
+      if (used.has(j)) return;
+      const next = new Map(bindings);
+      const quality = unify(query.inputs[i], input, vars, next);
+      if (quality > 0) assign(i + 1, new Set(used).add(j), total + quality, next);
+    });
+  };
+  assign(0, new Set(), 0, new Map());
+
+  return Math.max(0, best);
+}
+
+/**
+ * Unify a query type with an item type, extending `bindings`. Returns the
+ * match quality, or 0 when the types cannot match.
+ */
+function unify(query: TypeTerm, item: TypeTerm, vars: Set<string>, bindings: Bindings): number {
+  if (isQueryVariable(query)) return bind(`?${query.name}`, item, bindings);
+  if (item.args.length === 0 && vars.has(item.name)) return bind(`!${item.name}`, query, bindings);
+  if (query.name !== item.name) return 0;
+  if (query.args.length === 0) return item.args.length === 0 ? EXACT : PARTIAL;
+  if (query.args.length !== item.args.length) return 0;
+
+  let total = 0;
+  for (let i = 0; i < query.args.length; i++) {
+    const quality = unify(query.args[i], item.args[i], vars, bindings);
+    if (quality === 0) return 0;
+    total += quality;
+  }
+  return total / query.args.length;
+}
+
+function bind(variable: string, type: TypeTerm, bindings: Bindings): number {
+  const text = formatType(type);
+  const bound = bindings.get(variable);
+  if (bound !== undefined && bound !== text) return 0;
+  bindings.set(variable, text);
+  return VARIABLE;
+}
+
+/** Single-letter query types (`T`, `a`) stand for any type, as in Hoogle. */
+function isQueryVariable(term: TypeTerm): boolean {
+  return term.args.length === 0 && /^[a-z]$/.test(term.name);
+}
+
+/**
+ * Parse a type into a term, dropping reference and keyword parameters
+ * (`mut=True`, `origin=...`) that do not identify the type.
+ */
+function parseType(type: string): TypeTerm {
+  const text = type.toLowerCase().replace(/\s+/g, '');
+  const open = text.indexOf('[');
+  if (open === -1 || !text.endsWith(']')) return { name: text, args: [] };
+  const args = splitTopLevel(text.slice(open + 1, -1))
+    .filter((arg) => !/^\w+=/.test(arg))
+    .map(parseType);
+  return { name: text.slice(0, open), args };
+}
+
+function formatType(term: TypeTerm): string {
+  return term.args.length > 0 ? `${term.name}[${term.args.map(formatType).join(',')}]` : term.name;
+}
+
+/** Split on commas outside brackets. */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of text) {
+    if (ch === '[' || ch === '(') depth++;
+    else if (ch === ']' || ch === ')') depth--;
+    if (ch === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
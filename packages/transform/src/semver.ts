@@ -0,0 +1,234 @@
+/**
+ * Semantic versioning - classify API changes as major/minor/patch relative to
+ * the public API re-exported from __init__.mojo, and check that a version
+ * bump is large enough for them.
+ */
+
+import type { Package, PublicApiItem } from './types.js';
+import type { ApiChange, ApiChangeDetailKind, ApiDiff } from './api-diff.js';
+
+export type SemverLevel = 'major' | 'minor' | 'patch';
+
+export interface ClassifiedChange extends ApiChange {
+  level: SemverLevel;
+  /** Whether the item is part of the public API */
+  public: boolean;
+}
+
+/**
+ * Dotted item path (e.g. "mypkg.core.Config") → kind, for every item
+ * re-exported from the root __init__.mojo.
+ */
+export type PublicApiIndex = Map<string, PublicApiItem['kind']>;
+
+const LEVEL_RANK: Record<SemverLevel, number> = { patch: 1, minor: 2, major: 3 };
+
+/**
+ * Semver impact of each kind of change to an existing public item.
+ */
+const DETAIL_LEVELS: Record<ApiChangeDetailKind, SemverLevel> = {
+  'arg-added': 'major',
+  'optional-arg-added': 'minor',
+  'arg-removed': 'major',
+  'arg-type': 'major',
+  'arg-convention': 'major',
+  'default-added': 'minor',
+  'default-removed': 'major',
+  'default-changed': 'minor',
+  parameters: 'major',
+  'return-type': 'major',
+  'raises-added': 'major',
+  'raises-removed': 'minor',
+  'field-type': 'major',
+  'alias-value': 'major',
+  'trait-added': 'minor',
+  'trait-removed': 'major',
+  'parent-trait-added': 'major',
+  'required-method-added': 'major',
+  signature: 'major',
+  deprecation: 'minor',
+  'export-added': 'minor',
+  'export-removed': 'major',
+};
+
+/**
+ * Index the public API sections of a transformed root package.
+ */
+export function publicApiIndex(pkg: Package): PublicApiIndex {
+  const index: PublicApiIndex = new Map();
+  for (const section of pkg.publicApi) {
+    for (const item of section.items) {
+      index.set(`${pkg.fullPath}.${item.sourceModule}.${item.name}`, item.kind);
+    }
+  }
+  return index;
+}
+
+/**
+ * Classify each change of a diff. Changes to items outside the public API are
+ * patch-level; when neither version re-exports anything, every item counts
+ * as public. Items that stop (or start) being re-exported are reported even
+ * if their definition did not change.
+ */
+export function classifyApiChanges(
+  diff: ApiDiff,
+  oldPublic: PublicApiIndex,
+  newPublic: PublicApiIndex
+): ClassifiedChange[] {
+  const everyItemPublic = oldPublic.size === 0 && newPublic.size === 0;
+  const changes: ApiChange[] = [...diff.changes];
+  const touched = new Set(diff.changes.map((c) => `${c.kind}:${c.path}`));
+  const removedModules = diff.changes
+    .filter((c) => c.kind === 'removed' && c.itemKind === 'module')
+    .map((c) => c.path);
+
+  for (const [path, kind] of oldPublic) {
+    const moduleGone = removedModules.some((m) => path.startsWith(m + '.'));
+    if (!newPublic.has(path) && !touched.has(`removed:${path}`) && !moduleGone) {
+      changes.push(exportChange('removed', kind, path));
+    }
+  }
+  for (const [path, kind] of newPublic) {
+    if (!oldPublic.has(path) && !touched.has(`added:${path}`)) {
+      changes.push(exportChange('added', kind, path));
+    }
+  }
+
+  return changes.map((c) => {
+    const isPublic = everyItemPublic || isPublicChange(c, oldPublic, newPublic);
+    return { ...c, public: isPublic, level: isPublic ? changeLevel(c) : 'patch' };
+  });
+}
+
+/**
+ * Smallest bump that covers every change, or null when nothing changed.
+ */
+export function requiredBump(changes: Array<{ level: SemverLevel }>): SemverLevel | null {
+  let required: SemverLevel | null = null;
+  for (const c of changes) {
+    if (!required || LEVEL_RANK[c.level] > LEVEL_RANK[required]) required = c.level;
+  }
+  return required;
+}
+
+export interface VersionCheck {
+  ok: boolean;
+  /** Bump the API changes call for, after the 0.x adjustment */
+  required: SemverLevel | null;
+  /** Bump between the two versions ('none' when unchanged or lower) */
+  actual: SemverLevel | 'none';
+  /** Smallest acceptable new version */
+  minimum: string;
+}
+
+/**
+ * Check a version bump against the level the API changes require.
+ *
+ * Below 1.0.0 the levels shift down (as Cargo does): breaking changes need a
+ * minor bump and everything else a patch bump.
+ */
+export function checkVersionBump(
+  oldVersion: string,
+  newVersion: string,
+  level: SemverLevel | null
+): VersionCheck {
+  const oldParts = parseVersion(oldVersion);
+  const newParts = parseVersion(newVersion);
+
+  const required = level && oldParts[0] === 0 ? (level === 'major' ? 'minor' : 'patch') : level;
+
+  let actual: SemverLevel | 'none' = 'none';
+  if (newParts[0] !== oldParts[0]) {
+    actual = newParts[0] > oldParts[0] ? 'major' : 'none';
+  } else if (newParts[1] !== oldParts[1]) {
+    actual = newParts[1] > oldParts[1] ? 'minor' : 'none';
+  } else if (newParts[2] > oldParts[2]) {
+    actual = 'patch';
+  }
+
+  const ok = !required || (actual !== 'none' && LEVEL_RANK[actual] >= LEVEL_RANK[required]);
+  return { ok, required, actual, minimum: bumpVersion(oldParts, required) };
+}
+
+/**
+ * Parse "MAJOR.MINOR.PATCH", ignoring pre-release and build suffixes.
+ */
+export function parseVersion(version: string): [number, number, number] {
+  const match = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:[-+].*)?$/.exec(version.trim());
+  if (!match) {
+    throw new Error(`Invalid version "${version}": expected MAJOR.MINOR.PATCH`);
+  }
+  return [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)];
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+function changeLevel(c: ApiChange): SemverLevel {
+  switch (c.kind) {
+    case 'removed':
+      return 'major';
+    case 'added':
+    case 'deprecated':
+      // Additions are minor unless they demand more of users (e.g. a required trait method)
+      return requiredBump([{ level: 'minor' }, ...detailLevels(c)])!;
+    default:
+      return requiredBump(detailLevels(c)) ?? 'patch';
+  }
+}
+
+function detailLevels(c: ApiChange): Array<{ level: SemverLevel }> {
+  return c.details.map((d) => ({ level: DETAIL_LEVELS[d.kind] }));
+}
+
+/**
+ * Whether a change touches the public API: added items must be public in the
+ * new version, removed items in the old one, anything else in either.
+ */
+function isPublicChange(c: ApiChange, oldPublic: PublicApiIndex, newPublic: PublicApiIndex) {
+  if (c.itemKind === 'module') {
+    const index = c.kind === 'added' ? newPublic : oldPublic;
+    return [...index.keys()].some((path) => path.startsWith(c.path + '.'));
+  }
+
+  // Members (methods, fields, overloads) follow their top-level item.
+  const topLevel = `${c.module}.${c.path.slice(c.module.length + 1).split('.')[0]}`;
+  if (c.kind === 'added') return newPublic.has(topLevel);
+  if (c.kind === 'removed') return oldPublic.has(topLevel);
+  return oldPublic.has(topLevel) || newPublic.has(topLevel);
+}
+
+function exportChange(
+  kind: 'added' | 'removed',
+  itemKind: PublicApiItem['kind'],
+  path: string
+): ApiChange {
+  return {
+    kind,
+    itemKind,
+    path,
+    module: path.slice(0, path.lastIndexOf('.')),
+    before: null,
+    after: null,
+    details: [
+      kind === 'added'
+        ? { kind: 'export-added', message: 'now re-exported from __init__.mojo' }
+        : { kind: 'export-removed', message: 'no longer re-exported from __init__.mojo' },
+    ],
+  };
+}
+
+function bumpVersion(parts: [number, number, number], level: SemverLevel | null): string {
+  const [major, minor, patch] = parts;
+  switch (level) {
+    case 'major':
+      return `${major + 1}.0.0`;
+    case 'minor':
+      return `${major}.${minor + 1}.0`;
+    case 'patch':
+      return `${major}.${minor}.${patch + 1}`;
+    default:
+      return `${major}.${minor}.${patch}`;
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Source links - per-item `[src]` URLs with line ranges.
+ *
+ * Declarations are located in the module source by indentation: an item spans
+ * from its first decorator to the last code line before the source dedents back
+ * to its level. The URL comes from a forge template filled with the repository,
+ * git ref, in-repo file path and line range.
+ */
+
+export interface SourceRange {
+  /** 1-based first line (the first decorator, if any) */
+  start: number;
+  /** 1-based last line */
+  end: number;
+}
+
+/**
+ * Map of declaration path within a module (`Item`, `Item.method`) → lines.
+ */
+export type SourceRanges = Map<string, SourceRange>;
+
+export const SOURCE_FORGES = ['github', 'gitlab', 'gitea', 'bitbucket', 'sourcehut'] as const;
+export type SourceForge = (typeof SOURCE_FORGES)[number];
+
+/**
+ * URL templates per forge. `{repo}`, `{ref}` and `{path}` build the file URL;
+ * the part after `#` selects `{start}`-`{end}` and is dropped for whole files.
+ */
+export const SOURCE_URL_TEMPLATES: Record<SourceForge, string> = {
+  github: '{repo}/blob/{ref}/{path}#L{start}-L{end}',
+  gitlab: '{repo}/-/blob/{ref}/{path}#L{start}-{end}',
+  gitea: '{repo}/src/{ref}/{path}#L{start}-L{end}',
+  bitbucket: '{repo}/src/{ref}/{path}#lines-{start}:{end}',
+  sourcehut: '{repo}/tree/{ref}/item/{path}#L{start}-{end}',
+};
+
+/** Output directory of the rendered source pages, relative to the site root */
+export const SOURCE_PAGES_DIR = 'src';
+
+/**
+ * Template for links to the site's own rendered source pages
+ * (`src/<file>.mojo.html#L3-L11`); see `localSourceLinks`.
+ */
+export const LOCAL_SOURCE_URL_TEMPLATE = '{repo}/{path}.html#L{start}-L{end}';
+
+export interface SourceLinkOptions {
+  /** Repository URL (e.g. "https://github.com/user/repo") */
+  repository: string;
+  /** Commit SHA, tag or branch the links point at */
+  ref: string;
+  /** Directory of the package sources inside the repository ('' at the root) */
+  prefix: string;
+  /** URL template; the one for the forge detected from `repository` when omitted */
+  template?: string;
+}
+
+/**
+ * Source link options pointing at the rendered source pages of a site served
+ * from `baseUrl`, for packages without a public repository.
+ */
+export function localSourceLinks(baseUrl: string): SourceLinkOptions {
+  return {
+    repository: `${baseUrl}${SOURCE_PAGES_DIR}`,
+    ref: '',
+    prefix: '',
+    template: LOCAL_SOURCE_URL_TEMPLATE,
+  };
+}
+
+/**
+ * Guess the forge from the repository host. Unknown hosts get GitHub-style URLs.
+ */
+export function detectForge(repository: string): SourceForge {
+  const host = repository.replace(/^[a-z]+:\/\//, '').split('/')[0];
+  if (host.includes('gitlab')) return 'gitlab';
+  if (host.includes('bitbucket')) return 'bitbucket';
+  if (host.endsWith('sr.ht')) return 'sourcehut';
+  if (host.includes('gitea') || host === 'codeberg.org') return 'gitea';
+  return 'github';
+}
+
+/**
+ * Build the URL of a source file, narrowed to `range` when it is known.
+ * `file` is relative to the package root (`Module.sourceFile`).
+ */
+export function buildSourceUrl(
+  options: SourceLinkOptions,
+  file: string,
+  range: SourceRange | null = null
+): string {
+  const template = options.template || SOURCE_URL_TEMPLATES[detectForge(options.repository)];
+  const [fileTemplate, linesTemplate] = template.split('#');
+  const values: Record<string, string> = {
+    repo: options.repository.replace(/\/$/, ''),
+    ref: options.ref,
+    path: [options.prefix, file].filter(Boolean).join('/'),
+    start: String(range?.start ?? ''),
+    end: String(range?.end ?? ''),
+  };
+  const fill = (text: string) => text.replace(/\{(\w+)\}/g, (m, key: string) => values[key] ?? m);
+  return range && linesTemplate !== undefined
+    ? `${fill(fileTemplate)}#${fill(linesTemplate)}`
+    : fill(fileTemplate);
+}
+
+/**
+ * Find the line range of every top-level declaration and every struct or
+ * trait member in a module's source. Overloads keep the first range.
+ */
+export function locateDeclarations(source: string): SourceRanges {
+  const ranges: SourceRanges = new Map();
+  const open: OpenDeclaration[] = [];
+  let decorators: number | null = null;
+  let inString = false;
+  let depth = 0;
+  let lastCode = 0;
+
+  const close = (indent: number) => {
+    while (open.length > 0 && open[open.length - 1].indent >= indent) {
+      const decl = open.pop()!;
+      if (decl.path && !ranges.has(decl.path)) {
+        ranges.set(decl.path, { start: decl.start, end: lastCode });
+      }
+    }
+  };
+
+  source.split('\n').forEach((line, i) => {
+    const lineNo = i + 1;
+    const trimmed = line.trim();
+    const quotes = line.split('"""').length - 1;
+    const startsInString = inString;
+    if (quotes % 2 === 1) inString = !inString;
+
+    // Docstring bodies and continuation lines never open or close anything
+    if (startsInString || depth > 0) {
+      if (!startsInString) depth = Math.max(0, depth + bracketDelta(line));
+      if (trimmed) lastCode = lineNo;
+      return;
+    }
+    if (!trimmed || trimmed.startsWith('#')) return;
+
+    close(line.length - line.trimStart().length);
+    lastCode = lineNo;
+    if (quotes > 0) return;
+    depth = Math.max(0, bracketDelta(line));
+
+    if (trimmed.startsWith('@')) {
+      decorators ??= lineNo;
+      return;
+    }
+
+    const match = DECLARATION.exec(line);
+    if (match) {
+      const [, indent, kind, name] = match;
+      const parent = open[open.length - 1];
+      open.push({
+        path: !parent ? name : parent.container && parent.path ? `${parent.path}.${name}` : null,
+        indent: indent.length,
+        start: decorators ?? lineNo,
+        container: kind === 'struct' || kind === 'trait',
+      });
+    }
+    decorators = null;
+  });
+
+  close(0);
+  return ranges;
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+const DECLARATION = /^(\s*)(fn|def|struct|trait|alias|comptime)\s+(\w+)/;
+
+interface OpenDeclaration {
+  /** Path within the module, or null for items nested in function bodies */
+  path: string | null;
+  indent: number;
+  start: number;
+  /** Struct or trait, whose members get their own ranges */
+  container: boolean;
+}
+
+/**
+ * Net change in bracket nesting over a line, ignoring strings and comments.
+ */
+function bracketDelta(line: string): number {
+  const code = line.replace(/"[^"]*"|'[^']*'/g, '').replace(/#.*/, '');
+  let delta = 0;
+  for (const ch of code) {
+    if ('([{'.includes(ch)) delta++;
+    else if (')]}'.includes(ch)) delta--;
+  }
+  return delta;
+}
@@ -0,0 +1,208 @@
+/**
+ * Trait conformance - which traits a struct implements, which of its
+ * methods satisfy each trait's requirements, and the trait docs that
+ * undocumented implementations inherit.
+ */
+
+import type {
+  MojoDocOutput,
+  PackageDecl,
+  ModuleDecl,
+  TraitDecl,
+  FunctionDecl,
+  FunctionOverload,
+} from '@mojodoc/parser';
+import type { FunctionItem } from './types.js';
+
+/**
+ * Map of trait name → names of the methods the trait requires.
+ */
+export type TraitRequirements = Map<string, string[]>;
+
+/**
+ * Methods required by common stdlib traits. mojo doc only describes the
+ * traits declared in the documented package, so stdlib conformance is
+ * matched against these well-known dunder names.
+ */
+const STDLIB_TRAIT_METHODS: Record<string, string[]> = {
+  AnyType: ['__del__'],
+  Boolable: ['__bool__'],
+  Comparable: ['__lt__', '__le__', '__gt__', '__ge__', '__eq__', '__ne__'],
+  Copyable: ['__copyinit__'],
+  Defaultable: ['__init__'],
+  EqualityComparable: ['__eq__', '__ne__'],
+  ExplicitlyCopyable: ['copy'],
+  Hashable: ['__hash__'],
+  Intable: ['__int__'],
+  Movable: ['__moveinit__'],
+  Representable: ['__repr__'],
+  Sized: ['__len__'],
+  Stringable: ['__str__'],
+  Writable: ['write_to'],
+};
+
+/**
+ * Collect the required methods of every trait known to the build: the
+ * stdlib table above plus all traits declared in the package. A local
+ * trait's requirements include those inherited from its parent traits.
+ */
+export function collectTraitRequirements(decl: PackageDecl | ModuleDecl): TraitRequirements {
+  const localTraits = new Map<string, TraitDecl>();
+  collectLocalTraits(decl, localTraits);
+
+  const requirements: TraitRequirements = new Map(Object.entries(STDLIB_TRAIT_METHODS));
+
+  const resolve = (name: string, seen: Set<string>): string[] => {
+    const trait = localTraits.get(name);
+    if (!trait) return requirements.get(name) ?? [];
+    if (seen.has(name)) return [];
+    seen.add(name);
+
+    const methods = new Set<string>();
+    for (const pt of trait.parentTraits || []) {
+      for (const m of resolve(pt.name, seen)) methods.add(m);
+    }
+    for (const fn of trait.functions || []) methods.add(fn.name);
+    return [...methods];
+  };
+
+  for (const name of localTraits.keys()) {
+    requirements.set(name, resolve(name, new Set()));
+  }
+
+  return requirements;
+}
+
+/**
+ * Return the subset of a struct's method names that satisfy a trait's
+ * requirements, in the order the trait declares them.
+ */
+export function matchTraitMethods(
+  traitName: string,
+  methodNames: string[],
+  requirements: TraitRequirements
+): string[] {
+  const available = new Set(methodNames);
+  return (requirements.get(traitName) ?? []).filter((m) => available.has(m));
+}
+
+/**
+ * Whether a trait method has a default implementation ("provided"), as
+ * opposed to one conforming structs must write ("required").
+ */
+export function isProvidedMethod(fn: FunctionItem): boolean {
+  return fn.overloads.some((o) => o.hasDefaultImplementation);
+}
+
+// ============================================================================
+// Docstring inheritance
+// ============================================================================
+
+/**
+ * Map of trait name → declaration, for looking up documented trait methods.
+ */
+export type TraitDocs = Map<string, TraitDecl>;
+
+/**
+ * A documented trait method a struct method implements.
+ */
+export interface TraitMethodDocs {
+  trait: string;
+  method: FunctionDecl;
+}
+
+/**
+ * Collect the traits whose method docs struct methods can inherit: the
+ * package's own traits, then those of `extra` outputs (e.g. `mojo doc` run
+ * on the stdlib). Earlier declarations win.
+ */
+export function collectTraitDocs(
+  decl: PackageDecl | ModuleDecl,
+  extra: MojoDocOutput[] = []
+): TraitDocs {
+  const traits: TraitDocs = new Map();
+  collectLocalTraits(decl, traits);
+  for (const doc of extra) collectLocalTraits(doc.decl, traits);
+  return traits;
+}
+
+/**
+ * Find the documented trait method named `name` among `traitNames` and
+ * their parent traits, nearest trait first.
+ */
+export function findTraitMethodDocs(
+  name: string,
+  traitNames: string[],
+  traits: TraitDocs
+): TraitMethodDocs | null {
+  const queue = [...traitNames];
+  const seen = new Set<string>();
+  while (queue.length > 0) {
+    const traitName = queue.shift()!;
+    if (seen.has(traitName)) continue;
+    seen.add(traitName);
+
+    const trait = traits.get(traitName);
+    if (!trait) continue;
+    const method = (trait.functions || []).find((fn) => fn.name === name);
+    if (method && method.overloads.some((o) => o.summary || o.description)) {
+      return { trait: traitName, method };
+    }
+    queue.push(...(trait.parentTraits || []).map((pt) => pt.name));
+  }
+  return null;
+}
+
+/**
+ * Fill an overload's missing summary, description, argument, return and
+ * raises docs from the matching trait overload (same number of arguments,
+ * else the first). Returns null when there was nothing to fill.
+ */
+export function inheritOverloadDocs(
+  overload: FunctionOverload,
+  from: FunctionDecl
+): FunctionOverload | null {
+  const source =
+    from.overloads.find((o) => o.args.length === overload.args.length) ?? from.overloads[0];
+  if (!source) return null;
+
+  const undocumented = !overload.summary && !overload.description;
+  const inherited: FunctionOverload = {
+    ...overload,
+    summary: undocumented ? source.summary : overload.summary,
+    description: undocumented ? source.description : overload.description,
+    args: overload.args.map((arg) => {
+      if (arg.description) return arg;
+      const doc = source.args.find((a) => a.name === arg.name)?.description;
+      return doc ? { ...arg, description: doc } : arg;
+    }),
+    returns:
+      overload.returns && !overload.returns.doc && source.returns?.doc
+        ? { ...overload.returns, doc: source.returns.doc }
+        : overload.returns,
+    raisesDoc: overload.raisesDoc || (overload.raises ? source.raisesDoc : ''),
+  };
+
+  const changed =
+    inherited.summary !== overload.summary ||
+    inherited.description !== overload.description ||
+    inherited.returns !== overload.returns ||
+    inherited.raisesDoc !== overload.raisesDoc ||
+    inherited.args.some((arg, i) => arg !== overload.args[i]);
+  return changed ? inherited : null;
+}
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+function collectLocalTraits(decl: PackageDecl | ModuleDecl, out: Map<string, TraitDecl>): void {
+  if (decl.kind === 'package') {
+    for (const mod of decl.modules) collectLocalTraits(mod, out);
+    for (const sub of decl.packages) collectLocalTraits(sub, out);
+    return;
+  }
+  for (const trait of decl.traits || []) {
+    if (!out.has(trait.name)) out.set(trait.name, trait);
+  }
+}
@@ -27,6 +27,10 @@ import type {
   ProcessedTypeParam,
   ProcessedReturn,
   ProcessedField,
+  TraitImpl,
+  ParsedDocstring,
+  DocSectionKind,
+  PassingKind,
 } from './types.js';
 
 import {
@@ -35,16 +39,41 @@ import {
   highlightType,
   extractSummary,
   resolveTypePath,
+  registryResolver,
+  lookupType,
+  outerTypeName,
+  qualifiedTypePath,
   type TypeRegistry,
+  type TypeResolver,
+  type IntraDocLinkResolver,
 } from './markdown.js';
+import { parseDocstring, findDocSection } from './docstring.js';
 import { buildNavTree, toAnchor } from './nav-tree.js';
 import { buildSearchIndex } from './search-index.js';
+import { publicApiIndex } from './semver.js';
 import {
   parseInitFile,
   buildPublicApi,
   extractDocstring,
   extractModuleDocstring,
 } from './public-api.js';
+import {
+  collectTraitRequirements,
+  matchTraitMethods,
+  isProvidedMethod,
+  collectTraitDocs,
+  findTraitMethodDocs,
+  inheritOverloadDocs,
+  type TraitRequirements,
+  type TraitDocs,
+} from './traits.js';
+import { collectLinkTargets, resolveLinkTarget, type LinkTargets } from './intra-doc-links.js';
+import {
+  buildSourceUrl,
+  locateDeclarations,
+  type SourceLinkOptions,
+  type SourceRanges,
+} from './source-links.js';
 
 export interface TransformOptions {
   name?: string;
@@ -57,6 +86,13 @@ export interface TransformOptions {
   initFileContent?: string;
   /** Map of relative file paths to their content for extracting module docstrings */
   moduleFiles?: Map<string, string>;
+  /**
+   * Other mojo doc outputs (e.g. the stdlib's) whose trait method docs
+   * undocumented struct methods inherit
+   */
+  traitDocs?: MojoDocOutput[];
+  /** Where `[src]` links point; items get no source links when omitted */
+  sourceLinks?: SourceLinkOptions;
 }
 
 /**
@@ -67,8 +103,39 @@ interface TypeLinkContext {
   packageName: string;
   /** Registry of known types to their documentation URLs */
   typeRegistry: TypeRegistry;
+  /** Required method names per trait, for matching struct conformances */
+  traitRequirements: TraitRequirements;
+  /** Trait declarations whose method docs struct methods inherit */
+  traitDocs: TraitDocs;
+  /** Dotted item paths to their URLs, for intra-doc links */
+  linkTargets: LinkTargets;
+  /** Dotted path of the item being transformed; intra-doc links resolve from it */
+  scope: string;
+  /** Unresolved intra-doc links and ambiguous type names, shared by every scope */
+  warnings: Set<string>;
+  sourceLinks: SourceLinkOptions | null;
+  /** Source of the module being transformed, for per-item source links */
+  source: ModuleSource | null;
+}
+
+interface ModuleSource {
+  /** Dotted path of the module; item scopes below it key `ranges` */
+  modulePath: string;
+  file: string;
+  ranges: SourceRanges;
 }
 
+/**
+ * Display labels for argument passing kinds; plain positional-or-keyword
+ * arguments have none.
+ */
+export const PASSING_KIND_LABELS: Partial<Record<PassingKind, string>> = {
+  pos_only: 'positional-only',
+  kw_only: 'keyword-only',
+  variadic: 'variadic',
+  variadic_kw: 'variadic keyword',
+};
+
 /**
  * Transform mojo doc output into a DocSite structure.
  */
@@ -86,6 +153,13 @@ export function transform(doc: MojoDocOutput, options: TransformOptions = {}): D
     baseUrl,
     packageName,
     typeRegistry,
+    traitRequirements: collectTraitRequirements(decl),
+    traitDocs: collectTraitDocs(decl, options.traitDocs),
+    linkTargets: collectLinkTargets(decl, baseUrl, moduleFiles),
+    scope: decl.name,
+    warnings: new Set(),
+    sourceLinks: options.sourceLinks ?? null,
+    source: null,
   };
 
   // Handle both package and module at root level
@@ -112,6 +186,9 @@ export function transform(doc: MojoDocOutput, options: TransformOptions = {}): D
     allModules = [mod];
   }
 
+  // Cross-module pass: list each local trait's implementing structs
+  linkTraitImplementors(allModules);
+
   // Extract public API from __init__.mojo if provided.
   // Use allModules (not rootPackage.modules) so that symbols defined in
   // subpackage modules (e.g. flare.net.address.IpAddr) are resolved.
@@ -123,7 +200,7 @@ export function transform(doc: MojoDocOutput, options: TransformOptions = {}): D
     const docstring = extractDocstring(options.initFileContent);
     if (docstring) {
       rootPackage.description = docstring;
-      rootPackage.descriptionHtml = renderMarkdown(docstring);
+      rootPackage.descriptionHtml = renderDoc(docstring, { ...linkCtx, scope: rootPackage.path });
     }
   }
 
@@ -153,7 +230,7 @@ export function transform(doc: MojoDocOutput, options: TransformOptions = {}): D
         ];
 
   // Build search index
-  const searchIndex = buildSearchIndex(allModules);
+  const searchIndex = buildSearchIndex(allModules, publicApiIndex(rootPackage));
 
   return {
     config,
@@ -161,6 +238,7 @@ export function transform(doc: MojoDocOutput, options: TransformOptions = {}): D
     searchIndex,
     navTree,
     allModules,
+    warnings: [...linkCtx.warnings],
   };
 }
 
@@ -199,8 +277,7 @@ function buildTypeRegistry(
 }
 
 /**
- * Register a type name → URL mapping.
- * If the path from mojo doc is populated, resolve it.
+ * Register a type under its qualified path from mojo doc.
  * Extracts the simple type name from complex types (e.g., "List[Int]" → "List").
  */
 function registerType(
@@ -216,9 +293,9 @@ function registerType(
   if (!href) return;
 
   // Extract the outermost type name (before any [ or generic params)
-  const simpleName = typeName.match(/^([A-Z][A-Za-z0-9_]*)/)?.[1];
-  if (simpleName && !registry.has(simpleName)) {
-    registry.set(simpleName, href);
+  const simpleName = outerTypeName(typeName);
+  if (simpleName) {
+    addType(registry, simpleName, qualifiedTypePath(path, simpleName), href);
   }
 }
 
@@ -233,12 +310,22 @@ function registerLocalType(
   baseUrl: string,
   registry: TypeRegistry
 ): void {
-  if (!typeName || registry.has(typeName)) return;
+  if (!typeName) return;
 
   // Build URL: baseUrl + packageName/modulePath/index.html#anchor
   const anchor = toAnchor(typeName);
   const href = `${baseUrl}${packageName}/${modulePath}/index.html#${anchor}`;
-  registry.set(typeName, href);
+  addType(registry, typeName, `${packageName}.${modulePath.replace(/\//g, '.')}.${typeName}`, href);
+}
+
+/**
+ * Add a definition of a simple name. The first URL seen for a qualified path
+ * is kept.
+ */
+function addType(registry: TypeRegistry, name: string, qualifiedPath: string, href: string): void {
+  const defs = registry.get(name) ?? new Map<string, string>();
+  if (!defs.has(qualifiedPath)) defs.set(qualifiedPath, href);
+  registry.set(name, defs);
 }
 
 /**
@@ -402,13 +489,14 @@ function transformPackage(
   );
 
   const subpackages = pkg.packages.map((sub) => transformPackage(sub, path, moduleFiles, linkCtx));
+  const pkgCtx = { ...linkCtx, scope: path };
 
   // Resolve description from multiple sources (in priority order):
   // 1. mojo doc description field (if non-empty)
   // 2. __init__.mojo triple-quote docstring scanned from disk
   // 3. __init__ module's own description from mojo doc JSON
   let description = pkg.description || '';
-  let descriptionHtml = description ? renderMarkdown(description) : '';
+  let descriptionHtml = description ? renderDoc(description, pkgCtx) : '';
 
   if (!description) {
     // Look for __init__.mojo on disk using several candidate paths
@@ -428,7 +516,7 @@ function transformPackage(
       const docstring = extractModuleDocstring(initContent);
       if (docstring) {
         description = docstring;
-        descriptionHtml = renderMarkdown(docstring);
+        descriptionHtml = renderDoc(docstring, pkgCtx);
       }
     }
 
@@ -437,7 +525,7 @@ function transformPackage(
       const initModule = pkg.modules.find((m) => m.name === '__init__');
       if (initModule && initModule.description) {
         description = initModule.description;
-        descriptionHtml = renderMarkdown(description);
+        descriptionHtml = renderDoc(description, pkgCtx);
       }
     }
   }
@@ -473,18 +561,28 @@ function transformModule(
   const pathParts = fullPath.split('.');
   const sourceFile =
     pathParts.length > 1 ? pathParts.slice(1).join('/') + '.mojo' : mod.name + '.mojo';
+  const moduleContent = moduleFiles.get(sourceFile);
+
+  const modCtx: TypeLinkContext = {
+    ...linkCtx,
+    scope: fullPath,
+    source: {
+      modulePath: fullPath,
+      file: sourceFile,
+      ranges: moduleContent ? locateDeclarations(moduleContent) : new Map(),
+    },
+  };
 
   // Try to extract description from the module's source file if mojo doc didn't provide one
   let description = mod.description || '';
-  let descriptionHtml = renderMarkdown(description);
+  let descriptionHtml = renderDoc(description, modCtx);
 
   // Look for the module's source file to extract docstring
-  const moduleContent = moduleFiles.get(sourceFile);
   if (moduleContent && !description) {
     const docstring = extractModuleDocstring(moduleContent);
     if (docstring) {
       description = docstring;
-      descriptionHtml = renderMarkdown(docstring);
+      descriptionHtml = renderDoc(docstring, modCtx);
     }
   }
 
@@ -496,24 +594,38 @@ function transformModule(
     summary: mod.summary || extractSummary(description),
     description,
     descriptionHtml,
-    functions: mod.functions.map((fn) => transformFunction(fn, linkCtx)),
-    structs: mod.structs.map((s) => transformStruct(s, linkCtx)),
-    traits: mod.traits.map((t) => transformTrait(t, linkCtx)),
-    aliases: mod.aliases.map((a) => transformAlias(a, linkCtx)),
+    functions: mod.functions.map((fn) => transformFunction(fn, modCtx)),
+    structs: mod.structs.map((s) => transformStruct(s, modCtx)),
+    traits: mod.traits.map((t) => transformTrait(t, modCtx)),
+    aliases: mod.aliases.map((a) => transformAlias(a, modCtx)),
     parentPackage: parentPath,
     sourceFile,
+    sourceUrl: linkCtx.sourceLinks && buildSourceUrl(linkCtx.sourceLinks, sourceFile),
   };
 }
 
 /**
  * Transform a function declaration.
  */
-function transformFunction(fn: FunctionDecl, linkCtx: TypeLinkContext): FunctionItem {
+function transformFunction(
+  fn: FunctionDecl,
+  linkCtx: TypeLinkContext,
+  traitNames: string[] = []
+): FunctionItem {
+  const fnCtx = withScope(linkCtx, fn.name);
+  // Methods implementing a trait inherit whatever docs they leave out
+  const traitDocs = findTraitMethodDocs(fn.name, traitNames, linkCtx.traitDocs);
   return {
     kind: 'function',
     name: fn.name,
     anchor: toAnchor(fn.name),
-    overloads: fn.overloads.map((ov) => transformOverload(ov, linkCtx)),
+    sourceUrl: sourceUrl(fnCtx),
+    overloads: fn.overloads.map((ov) => {
+      const inherited = traitDocs && inheritOverloadDocs(ov, traitDocs.method);
+      return inherited
+        ? transformOverload(inherited, fnCtx, traitDocs.trait)
+        : transformOverload(ov, fnCtx);
+    }),
   };
 }
 
@@ -522,26 +634,56 @@ function transformFunction(fn: FunctionDecl, linkCtx: TypeLinkContext): Function
  */
 function transformOverload(
   overload: import('@mojodoc/parser').FunctionOverload,
-  linkCtx: TypeLinkContext
+  linkCtx: TypeLinkContext,
+  inheritedFrom: string | null = null
 ): ProcessedOverload {
+  // mojo doc moves documented Args/Returns/Raises into structured fields; the
+  // parsed sections fill in whatever it left behind in the description.
+  const docstring = parseDocstring(
+    joinDocstring(overload.summary, overload.description),
+    linkResolver(linkCtx)
+  );
+  const returnsDoc = overload.returns?.doc || sectionContent(docstring, 'returns');
+  const raisesDoc = overload.raisesDoc || sectionContent(docstring, 'raises');
+
   return {
     signature: overload.signature,
-    signatureHtml: highlightSignature(overload.signature, linkCtx.typeRegistry),
+    signatureHtml: highlightSignature(
+      overload.signature,
+      typeResolver(linkCtx, [
+        ...overload.args,
+        ...(overload.returns ? [overload.returns] : []),
+        ...overload.parameters.flatMap((p) => p.traits || []),
+      ])
+    ),
     summary: overload.summary || '',
     description: overload.description || '',
-    descriptionHtml: renderMarkdown(overload.description || ''),
-    args: overload.args.map((arg) => transformArg(arg, linkCtx)),
-    typeParams: overload.parameters.map(transformTypeParam),
-    returns: overload.returns ? transformReturn(overload.returns, linkCtx) : null,
+    descriptionHtml: renderDoc(overload.description || '', linkCtx),
+    args: overload.args.map((arg) => transformArg(withEntryDoc(arg, docstring, 'args'), linkCtx)),
+    typeParams: overload.parameters.map((p) =>
+      transformTypeParam(withEntryDoc(p, docstring, 'parameters'), linkCtx)
+    ),
+    returns: overload.returns
+      ? transformReturn({ ...overload.returns, doc: returnsDoc }, linkCtx)
+      : null,
     raises: overload.raises
       ? {
-          description: overload.raisesDoc || 'May raise an exception.',
-          descriptionHtml: renderMarkdown(overload.raisesDoc || 'May raise an exception.'),
+          description: raisesDoc || 'May raise an exception.',
+          descriptionHtml: renderDoc(raisesDoc || 'May raise an exception.', linkCtx),
         }
       : null,
     isStatic: overload.isStatic,
     isAsync: overload.async,
-    deprecated: overload.deprecated || null,
+    isDef: overload.isDef,
+    isImplicitConversion: overload.isImplicitConversion,
+    hasDefaultImplementation: overload.hasDefaultImplementation,
+    constraints: overload.constraints || null,
+    constraintsHtml: overload.constraints
+      ? highlightSignature(overload.constraints, typeResolver(linkCtx))
+      : '',
+    deprecated: overload.deprecated || sectionContent(docstring, 'deprecated') || null,
+    inheritedFrom,
+    docstring,
   };
 }
 
@@ -560,12 +702,13 @@ function transformArg(
       arg.path,
       linkCtx.baseUrl,
       linkCtx.packageName,
-      linkCtx.typeRegistry
+      typeResolver(linkCtx)
     ),
     typePath: arg.path || null,
     description: arg.description || '',
-    descriptionHtml: renderMarkdown(arg.description || ''),
+    descriptionHtml: renderDoc(arg.description || '', linkCtx),
     convention: arg.convention,
+    passingKind: arg.passingKind,
     default: arg.default || null,
   };
 }
@@ -574,13 +717,14 @@ function transformArg(
  * Transform a type parameter.
  */
 function transformTypeParam(
-  param: import('@mojodoc/parser').TypeParameterDecl
+  param: import('@mojodoc/parser').TypeParameterDecl,
+  linkCtx: TypeLinkContext
 ): ProcessedTypeParam {
   return {
     name: param.name || '',
     type: param.type || '',
     description: param.description || '',
-    descriptionHtml: renderMarkdown(param.description || ''),
+    descriptionHtml: renderDoc(param.description || '', linkCtx),
     constraints: (param.traits || []).map((t) => t.type),
   };
 }
@@ -599,11 +743,11 @@ function transformReturn(
       ret.path,
       linkCtx.baseUrl,
       linkCtx.packageName,
-      linkCtx.typeRegistry
+      typeResolver(linkCtx)
     ),
     typePath: ret.path || null,
     description: ret.doc || '',
-    descriptionHtml: renderMarkdown(ret.doc || ''),
+    descriptionHtml: renderDoc(ret.doc || '', linkCtx),
   };
 }
 
@@ -611,22 +755,68 @@ function transformReturn(
  * Transform a struct declaration.
  */
 function transformStruct(struct: StructDecl, linkCtx: TypeLinkContext): StructItem {
+  const structCtx = withScope(linkCtx, struct.name);
+  const docstring = parseDocstring(
+    joinDocstring(struct.summary, struct.description),
+    linkResolver(structCtx)
+  );
   return {
     kind: 'struct',
     name: struct.name,
     anchor: toAnchor(struct.name),
+    sourceUrl: sourceUrl(structCtx),
     signature: struct.signature || `struct ${struct.name}`,
     signatureHtml: highlightSignature(
       struct.signature || `struct ${struct.name}`,
-      linkCtx.typeRegistry
+      typeResolver(
+        structCtx,
+        (struct.parentTraits || []).map((pt) => ({ ...pt, type: pt.name }))
+      )
     ),
     summary: struct.summary || extractSummary(struct.description),
     description: struct.description || '',
-    descriptionHtml: renderMarkdown(struct.description || ''),
-    typeParams: (struct.parameters || []).map(transformTypeParam),
-    fields: (struct.fields || []).map((f) => transformField(f, linkCtx)),
-    methods: (struct.functions || []).map((fn) => transformFunction(fn, linkCtx)),
-    deprecated: struct.deprecated || null,
+    descriptionHtml: renderDoc(struct.description || '', structCtx),
+    typeParams: (struct.parameters || []).map((p) =>
+      transformTypeParam(withEntryDoc(p, docstring, 'parameters'), structCtx)
+    ),
+    fields: (struct.fields || []).map((f) => transformField(f, structCtx)),
+    methods: (struct.functions || []).map((fn) =>
+      transformFunction(
+        fn,
+        structCtx,
+        (struct.parentTraits || []).map((pt) => pt.name)
+      )
+    ),
+    traitImpls: (struct.parentTraits || []).map((pt) => transformTraitImpl(pt, struct, linkCtx)),
+    deprecated: struct.deprecated || sectionContent(docstring, 'deprecated') || null,
+    docstring,
+  };
+}
+
+/**
+ * Transform a struct's parent trait into a trait implementation entry.
+ */
+function transformTraitImpl(
+  pt: import('@mojodoc/parser').ParentTrait,
+  struct: StructDecl,
+  linkCtx: TypeLinkContext
+): TraitImpl {
+  const href =
+    (pt.path && resolveTypePath(pt.path, linkCtx.baseUrl, linkCtx.packageName)) ||
+    typeResolver(linkCtx)(pt.name);
+
+  return {
+    name: pt.name,
+    href: href || null,
+    path: pt.path
+      ? qualifiedTypePath(pt.path, pt.name)
+      : lookupType(linkCtx.typeRegistry, pt.name, linkCtx.scope).path,
+    methods: matchTraitMethods(
+      pt.name,
+      (struct.functions || []).map((fn) => fn.name),
+      linkCtx.traitRequirements
+    ),
+    inherited: [], // Populated by linkTraitImplementors once all modules exist
   };
 }
 
@@ -645,12 +835,12 @@ function transformField(
       field.path,
       linkCtx.baseUrl,
       linkCtx.packageName,
-      linkCtx.typeRegistry
+      typeResolver(linkCtx)
     ),
     typePath: field.path || null,
     summary: field.summary || '',
     description: field.description || '',
-    descriptionHtml: renderMarkdown(field.description || ''),
+    descriptionHtml: renderDoc(field.description || '', linkCtx),
   };
 }
 
@@ -658,21 +848,31 @@ function transformField(
  * Transform a trait declaration.
  */
 function transformTrait(trait: TraitDecl, linkCtx: TypeLinkContext): TraitItem {
+  const traitCtx = withScope(linkCtx, trait.name);
   return {
     kind: 'trait',
     name: trait.name,
     anchor: toAnchor(trait.name),
+    sourceUrl: sourceUrl(traitCtx),
     signature: trait.signature || `trait ${trait.name}`,
     signatureHtml: highlightSignature(
       trait.signature || `trait ${trait.name}`,
-      linkCtx.typeRegistry
+      typeResolver(
+        traitCtx,
+        trait.parentTraits.map((pt) => ({ ...pt, type: pt.name }))
+      )
     ),
     summary: trait.summary || extractSummary(trait.description),
     description: trait.description || '',
-    descriptionHtml: renderMarkdown(trait.description || ''),
-    typeParams: (trait.parameters || []).map(transformTypeParam),
-    methods: (trait.functions || []).map((fn) => transformFunction(fn, linkCtx)),
+    descriptionHtml: renderDoc(trait.description || '', traitCtx),
+    typeParams: (trait.parameters || []).map((p) => transformTypeParam(p, traitCtx)),
+    methods: (trait.functions || []).map((fn) => transformFunction(fn, traitCtx)),
+    implementors: [], // Populated by linkTraitImplementors once all modules exist
     deprecated: trait.deprecated || null,
+    docstring: parseDocstring(
+      joinDocstring(trait.summary, trait.description),
+      linkResolver(traitCtx)
+    ),
   };
 }
 
@@ -680,24 +880,71 @@ function transformTrait(trait: TraitDecl, linkCtx: TypeLinkContext): TraitItem {
  * Transform an alias declaration.
  */
 function transformAlias(alias: AliasDecl, linkCtx: TypeLinkContext): AliasItem {
+  const aliasCtx = withScope(linkCtx, alias.name);
   return {
     kind: 'alias',
     name: alias.name,
     anchor: toAnchor(alias.name),
+    sourceUrl: sourceUrl(aliasCtx),
     signature: alias.signature || `comptime ${alias.name}`,
     signatureHtml: highlightSignature(
       alias.signature || `comptime ${alias.name}`,
-      linkCtx.typeRegistry
+      typeResolver(aliasCtx)
     ),
     summary: alias.summary || extractSummary(alias.description),
     description: alias.description || '',
-    descriptionHtml: renderMarkdown(alias.description || ''),
+    descriptionHtml: renderDoc(alias.description || '', aliasCtx),
     value: alias.value || '',
-    typeParams: (alias.parameters || []).map(transformTypeParam),
+    typeParams: (alias.parameters || []).map((p) => transformTypeParam(p, aliasCtx)),
     deprecated: alias.deprecated || null,
+    docstring: parseDocstring(
+      joinDocstring(alias.summary, alias.description),
+      linkResolver(aliasCtx)
+    ),
   };
 }
 
+/**
+ * Fill in `implementors` on every local trait from the structs that list it
+ * in their parent traits, and the provided methods each struct inherits.
+ * Runs after all modules are transformed so that a struct in one module can
+ * implement a trait declared in another.
+ */
+function linkTraitImplementors(modules: Module[]): void {
+  const traitsByPath = new Map<string, { trait: TraitItem; mod: Module }>();
+  for (const mod of modules) {
+    for (const trait of mod.traits) {
+      traitsByPath.set(`${mod.fullPath}.${trait.name}`, { trait, mod });
+    }
+  }
+
+  for (const mod of modules) {
+    for (const struct of mod.structs) {
+      const overridden = new Set(struct.methods.map((m) => m.name));
+      for (const impl of struct.traitImpls) {
+        const local = impl.path ? traitsByPath.get(impl.path) : undefined;
+        if (!local) continue;
+        const { trait } = local;
+        impl.inherited = trait.methods
+          .filter((m) => isProvidedMethod(m) && !overridden.has(m.name))
+          .map((m) => ({
+            name: m.name,
+            summary: m.overloads[0]?.summary || '',
+            urlPath: local.mod.urlPath,
+            anchor: `${trait.anchor}-${m.anchor}`,
+          }));
+        trait.implementors.push({
+          name: struct.name,
+          fullPath: `${mod.fullPath}.${struct.name}`,
+          urlPath: mod.urlPath,
+          anchor: struct.anchor,
+          summary: struct.summary,
+        });
+      }
+    }
+  }
+}
+
 /**
  * Collect all modules from a package tree.
  */
@@ -710,3 +957,91 @@ function collectAllModules(pkg: Package): Module[] {
 
   return modules;
 }
+
+/**
+ * Rebuild a full docstring from mojo doc's separate summary and description.
+ */
+function joinDocstring(summary: string | undefined, description: string | undefined): string {
+  return [summary, description].filter((part) => part && part.trim()).join('\n\n');
+}
+
+function sectionContent(docstring: ParsedDocstring, kind: DocSectionKind): string {
+  return findDocSection(docstring, kind)?.content || '';
+}
+
+/**
+ * Use the docstring's entry for an undocumented argument or parameter.
+ */
+function withEntryDoc<T extends { name: string; description: string }>(
+  decl: T,
+  docstring: ParsedDocstring,
+  kind: 'args' | 'parameters'
+): T {
+  if (decl.description) return decl;
+  const name = decl.name.replace(/^\*+/, '');
+  const entry = findDocSection(docstring, kind)?.entries.find(
+    (e) => e.name.replace(/^\*+/, '') === name
+  );
+  return entry ? { ...decl, description: entry.description } : decl;
+}
+
+/**
+ * Link context for an item nested in the current scope.
+ */
+function withScope(linkCtx: TypeLinkContext, name: string): TypeLinkContext {
+  return { ...linkCtx, scope: `${linkCtx.scope}.${name}` };
+}
+
+/**
+ * Source link of the item in scope, narrowed to its lines when the
+ * declaration was found in the module source.
+ */
+function sourceUrl(linkCtx: TypeLinkContext): string | null {
+  const { sourceLinks, source } = linkCtx;
+  if (!sourceLinks || !source) return null;
+  const path = linkCtx.scope.slice(source.modulePath.length + 1);
+  return buildSourceUrl(sourceLinks, source.file, source.ranges.get(path) ?? null);
+}
+
+/**
+ * Resolve intra-doc links from the current scope, recording a warning for
+ * each one that names nothing or more than one item.
+ */
+function linkResolver(linkCtx: TypeLinkContext): IntraDocLinkResolver {
+  return (target) => {
+    const { href, candidates } = resolveLinkTarget(linkCtx.linkTargets, target, linkCtx.scope);
+    if (!href) {
+      const reason =
+        candidates.length > 0 ? `is ambiguous (${candidates.join(', ')})` : 'does not resolve';
+      linkCtx.warnings.add(`${linkCtx.scope}: intra-doc link [\`${target}\`] ${reason}`);
+    }
+    return href;
+  };
+}
+
+/**
+ * Resolve type names in the current scope. `declared` are the mojo doc
+ * type/path pairs of the item being rendered; their paths decide first.
+ */
+function typeResolver(
+  linkCtx: TypeLinkContext,
+  declared: { type: string; path?: string | null }[] = []
+): TypeResolver {
+  const known = new Map<string, string>();
+  for (const { type, path } of declared) {
+    const name = outerTypeName(type);
+    const href = path ? resolveTypePath(path, linkCtx.baseUrl, linkCtx.packageName) : null;
+    if (name && href && !known.has(name)) known.set(name, href);
+  }
+
+  const resolve = registryResolver(linkCtx.typeRegistry, linkCtx.scope, (name, candidates) => {
+    linkCtx.warnings.add(
+      `${linkCtx.scope}: type \`${name}\` is ambiguous (${candidates.join(', ')})`
+    );
+  });
+  return (name) => known.get(name) ?? resolve(name);
+}
+
+function renderDoc(markdown: string, linkCtx: TypeLinkContext): string {
+  return renderMarkdown(markdown, linkResolver(linkCtx));
+}
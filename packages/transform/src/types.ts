@@ -2,7 +2,7 @@
  * Internal representation types for rendering.
  */
 
-import type { DocItemKind } from '@mojodoc/parser';
+import type { ArgumentDecl, DocItemKind } from '@mojodoc/parser';
 
 // ============================================================================
 // Site-level types
@@ -14,6 +14,8 @@ export interface DocSite {
   searchIndex: SearchIndex;
   navTree: NavNode[];
   allModules: Module[];
+  /** Cross-reference problems found while transforming: broken intra-doc links, ambiguous types */
+  warnings: string[];
 }
 
 export interface SiteConfig {
@@ -77,6 +79,8 @@ export interface Module {
   parentPackage: string;
   /** Source file path relative to package root (e.g., "config.mojo") */
   sourceFile: string;
+  /** Link to the source file, when a repository is configured */
+  sourceUrl: string | null;
 }
 
 // ============================================================================
@@ -87,6 +91,8 @@ export interface FunctionItem {
   kind: 'function';
   name: string;
   anchor: string;
+  /** Link to the declaration's lines in the repository */
+  sourceUrl: string | null;
   overloads: ProcessedOverload[];
 }
 
@@ -102,9 +108,25 @@ export interface ProcessedOverload {
   raises: ProcessedRaises | null;
   isStatic: boolean;
   isAsync: boolean;
+  /** Declared with `def` rather than `fn` */
+  isDef: boolean;
+  /** An `@implicit` constructor */
+  isImplicitConversion: boolean;
+  /** A trait method with a default implementation */
+  hasDefaultImplementation: boolean;
+  /** Constraint clause (e.g. `where` bounds on parameters), if any */
+  constraints: string | null;
+  constraintsHtml: string;
   deprecated: string | null;
+  /** Trait whose method docs filled in what this overload left undocumented */
+  inheritedFrom: string | null;
+  /** Summary and description parsed into sections */
+  docstring: ParsedDocstring;
 }
 
+/** How an argument is passed: positional-only, keyword-only, variadic, ... */
+export type PassingKind = ArgumentDecl['passingKind'];
+
 export interface ProcessedArg {
   name: string;
   type: string;
@@ -113,6 +135,7 @@ export interface ProcessedArg {
   description: string;
   descriptionHtml: string;
   convention: string;
+  passingKind: PassingKind;
   default: string | null;
 }
 
@@ -141,6 +164,8 @@ export interface StructItem {
   kind: 'struct';
   name: string;
   anchor: string;
+  /** Link to the declaration's lines in the repository */
+  sourceUrl: string | null;
   signature: string;
   signatureHtml: string;
   summary: string;
@@ -149,7 +174,37 @@ export interface StructItem {
   typeParams: ProcessedTypeParam[];
   fields: ProcessedField[];
   methods: FunctionItem[];
+  /** Traits the struct conforms to ("Trait Implementations") */
+  traitImpls: TraitImpl[];
   deprecated: string | null;
+  docstring: ParsedDocstring;
+}
+
+/**
+ * A trait implemented by a struct.
+ */
+export interface TraitImpl {
+  name: string;
+  /** Qualified path of the trait (e.g. "mypkg.io.Reader"), if known */
+  path: string | null;
+  /** Documentation URL for the trait (local or stdlib), if known */
+  href: string | null;
+  /** Names of the struct's methods that satisfy the trait's requirements */
+  methods: string[];
+  /** Provided methods of a local trait that the struct does not override */
+  inherited: InheritedMethod[];
+}
+
+/**
+ * A trait's default method as seen from a struct, linking back to its docs.
+ */
+export interface InheritedMethod {
+  name: string;
+  summary: string;
+  /** Module page of the trait */
+  urlPath: string;
+  /** Anchor of the method on the trait's page */
+  anchor: string;
 }
 
 export interface ProcessedField {
@@ -166,6 +221,8 @@ export interface TraitItem {
   kind: 'trait';
   name: string;
   anchor: string;
+  /** Link to the declaration's lines in the repository */
+  sourceUrl: string | null;
   signature: string;
   signatureHtml: string;
   summary: string;
@@ -173,13 +230,30 @@ export interface TraitItem {
   descriptionHtml: string;
   typeParams: ProcessedTypeParam[];
   methods: FunctionItem[];
+  /** Local structs that conform to this trait, across all modules */
+  implementors: TraitImplementor[];
   deprecated: string | null;
+  docstring: ParsedDocstring;
+}
+
+/**
+ * A struct that implements a trait, with enough info to link to it.
+ */
+export interface TraitImplementor {
+  name: string;
+  /** Dotted path of the struct (e.g., "mypkg.net.TcpStream") */
+  fullPath: string;
+  urlPath: string;
+  anchor: string;
+  summary: string;
 }
 
 export interface AliasItem {
   kind: 'alias';
   name: string;
   anchor: string;
+  /** Link to the declaration's lines in the repository */
+  sourceUrl: string | null;
   signature: string;
   signatureHtml: string;
   summary: string;
@@ -188,6 +262,58 @@ export interface AliasItem {
   value: string;
   typeParams: ProcessedTypeParam[];
   deprecated: string | null;
+  docstring: ParsedDocstring;
+}
+
+// ============================================================================
+// Docstrings
+// ============================================================================
+
+export type DocSectionKind =
+  | 'args'
+  | 'parameters'
+  | 'returns'
+  | 'raises'
+  | 'examples'
+  | 'notes'
+  | 'warnings'
+  | 'see-also'
+  | 'deprecated'
+  | 'custom';
+
+/**
+ * A Google-style docstring split into its parts.
+ */
+export interface ParsedDocstring {
+  /** First paragraph */
+  summary: string;
+  /** Paragraphs outside any section, as markdown */
+  body: string;
+  bodyHtml: string;
+  sections: DocSection[];
+}
+
+/**
+ * A titled docstring section (e.g. "Args:", "Example:", or a custom "Safety:").
+ */
+export interface DocSection {
+  kind: DocSectionKind;
+  /** Title as written in the docstring */
+  title: string;
+  content: string;
+  contentHtml: string;
+  /** Entries of Args, Parameters, Raises and See Also sections; empty for prose */
+  entries: DocEntry[];
+}
+
+/**
+ * One `name (type): description` entry of a section.
+ */
+export interface DocEntry {
+  name: string;
+  type: string | null;
+  description: string;
+  descriptionHtml: string;
 }
 
 // ============================================================================
@@ -215,6 +341,8 @@ export interface NavItemRef {
 
 export interface SearchIndex {
   items: SearchItem[];
+  /** Inverted index over the items' documentation, for free-text queries */
+  fullText: FullTextIndex;
 }
 
 export interface SearchItem {
@@ -226,6 +354,37 @@ export interface SearchItem {
   anchor: string;
   signature: string;
   summary: string;
+  /** Normalized argument types, `Self` replaced by the owning struct */
   inputTypes: string[];
   outputType: string | null;
+  /** Compile-time parameter names, which type search treats as type variables */
+  typeParams: string[];
+  /** Deprecated itself or through its owning struct */
+  deprecated: boolean;
+  /** Re-exported from `__init__.mojo` itself or through its owning struct */
+  public: boolean;
+}
+
+/**
+ * A search query split into free text and filters (see `parseSearchQuery`).
+ */
+export interface SearchQuery {
+  text: string;
+  /** Kinds to keep; any kind when empty */
+  kinds: DocItemKind[];
+  /** Dotted module path the items must be inside */
+  scope: string | null;
+  deprecated: boolean;
+  public: boolean;
+}
+
+export interface FullTextIndex {
+  /** Item id (`SearchItem.id`) of each document */
+  docs: string[];
+  /** Plain documentation text of each document, for result snippets */
+  texts: string[];
+  /** Token count of each document */
+  lengths: number[];
+  /** Stemmed term → flat `[doc, termFrequency, doc, termFrequency, ...]` postings */
+  terms: Record<string, number[]>;
 }
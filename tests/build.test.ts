@@ -0,0 +1,60 @@
+/**
+ * End-to-end tests for `mojodoc build --from-json`.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, readFileSync, existsSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { build } from '../packages/cli/src/commands/build.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const SAMPLE_JSON = resolve(__dirname, './fixtures/sample.json');
+
+describe('build --from-json', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mojodoc-build-'));
+    writeFileSync(join(dir, '__init__.mojo'), 'from .core import greet\n');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('builds without running mojo', async () => {
+    const outDir = join(dir, 'out');
+    await build({ fromJson: SAMPLE_JSON, sourceDir: dir, path: dir, outDir, format: 'json' });
+
+    const doc = JSON.parse(readFileSync(join(outDir, 'docs.json'), 'utf-8'));
+    expect(doc.package.name).toBe('testlib');
+    expect(doc.package.publicApi[0].items.map((i: { name: string }) => i.name)).toEqual([
+      'greet',
+    ]);
+  });
+
+  it('renders the HTML site', async () => {
+    const outDir = join(dir, 'out');
+    await build({ fromJson: SAMPLE_JSON, sourceDir: dir, path: dir, outDir });
+
+    expect(existsSync(join(outDir, 'testlib', 'core', 'index.html'))).toBe(true);
+  });
+
+  it('renders highlighted source pages that [src] links point to', async () => {
+    const outDir = join(dir, 'out');
+    writeFileSync(
+      join(dir, 'core.mojo'),
+      'fn greet(name: String) -> String:\n    """Greets."""\n    return "Hello, " + name\n'
+    );
+    await build({ fromJson: SAMPLE_JSON, sourceDir: dir, path: dir, outDir });
+
+    const sourcePage = readFileSync(join(outDir, 'src', 'core.mojo.html'), 'utf-8');
+    expect(sourcePage).toContain('id="L3"');
+    expect(sourcePage).toContain('href="/testlib/core/index.html#greet"');
+
+    const modulePage = readFileSync(join(outDir, 'testlib', 'core', 'index.html'), 'utf-8');
+    expect(modulePage).toContain('href="/src/core.mojo.html#L1-L3"');
+  });
+});
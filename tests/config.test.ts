@@ -0,0 +1,100 @@
+/**
+ * Tests for CLI configuration loading.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  loadConfig,
+  readDeclaredVersion,
+  applyCliOverrides,
+  validateConfigTable,
+  ConfigError,
+} from '../packages/cli/src/config.js';
+
+describe('validateConfigTable', () => {
+  it('maps kebab-case keys onto config fields', () => {
+    const config = validateConfigTable(
+      { site: { 'base-url': '/pprint/', 'edit-link': true }, theme: { preset: 'minimal' } },
+      'mojodoc.toml'
+    );
+
+    expect(config.site).toEqual({ baseUrl: '/pprint/', editLink: true });
+    expect(config.theme).toEqual({ preset: 'minimal' });
+  });
+
+  it('reports every invalid key at once', () => {
+    let error: unknown;
+    try {
+      validateConfigTable(
+        { site: { baseUrl: '/x/', 'edit-link': 'yes' }, themes: {} },
+        'mojodoc.toml'
+      );
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ConfigError);
+    const issues = (error as ConfigError).issues;
+    expect(issues).toHaveLength(3);
+    expect(issues[0]).toContain('did you mean "base-url"');
+    expect(issues[1]).toContain('"site.edit-link" must be a boolean');
+    expect(issues[2]).toContain('unknown section "themes"');
+  });
+});
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mojodoc-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('merges pixi.toml [tool.mojodoc] and mojodoc.toml', async () => {
+    writeFileSync(
+      join(dir, 'pixi.toml'),
+      [
+        '[workspace]',
+        'name = "demo"',
+        'version = "1.2.3"',
+        '',
+        '[tool.mojodoc.site]',
+        'base-url = "/demo/"',
+        'repository = "https://github.com/me/demo"',
+      ].join('\n')
+    );
+    writeFileSync(join(dir, 'mojodoc.toml'), '[site]\nrepository = "https://gitlab.com/me/demo"\n');
+
+    const config = await loadConfig(undefined, dir);
+
+    expect(config.package.name).toBe('demo');
+    expect(config.package.version).toBe('1.2.3');
+    expect(config.site.baseUrl).toBe('/demo/');
+    expect(config.site.repository).toBe('https://gitlab.com/me/demo');
+  });
+
+  it('reads the declared version without the default', async () => {
+    expect(await readDeclaredVersion(undefined, dir)).toBeUndefined();
+    expect((await loadConfig(undefined, dir)).package.version).toBe('0.1.0');
+
+    writeFileSync(join(dir, 'pixi.toml'), '[workspace]\nname = "demo"\nversion = "1.2.3"\n');
+    expect(await readDeclaredVersion(undefined, dir)).toBe('1.2.3');
+
+    writeFileSync(join(dir, 'mojodoc.toml'), '[package]\nversion = "2.0.0"\n');
+    expect(await readDeclaredVersion(undefined, dir)).toBe('2.0.0');
+  });
+
+  it('lets CLI flags override file values', async () => {
+    writeFileSync(join(dir, 'mojodoc.toml'), '[output]\ndir = "docs"\n');
+
+    const config = applyCliOverrides(await loadConfig(undefined, dir), { outDir: 'site' });
+
+    expect(config.output.dir).toBe('site');
+  });
+});
@@ -6,12 +6,39 @@ import { describe, it, expect } from 'vitest';
 import { readFileSync } from 'fs';
 import { resolve, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import { parseJson, flattenModules, countItems } from '../packages/parser/src/index.js';
+import {
+  parseJson,
+  parseJsonWithWarnings,
+  ParseError,
+  parseMojoVersion,
+  flattenModules,
+  mapModulesByPath,
+  countItems,
+  isPackageDecl,
+} from '../packages/parser/src/index.js';
+import type {
+  ArgumentDecl,
+  FieldDecl,
+  FunctionOverload,
+  MojoDocOutput,
+  ModuleDecl,
+} from '../packages/parser/src/index.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
 const FIXTURES_DIR = resolve(__dirname, './fixtures');
 
+/** The fixture as raw JSON, to edit before parsing. */
+function loadSample(): MojoDocOutput {
+  return JSON.parse(readFileSync(resolve(FIXTURES_DIR, 'sample.json'), 'utf-8'));
+}
+
+/** The modules of a package-level doc. */
+function modules(output: MojoDocOutput): ModuleDecl[] {
+  if (!isPackageDecl(output.decl)) throw new Error('expected a package');
+  return output.decl.modules;
+}
+
 describe('parseJson', () => {
   it('parses valid JSON', () => {
     const json = readFileSync(resolve(FIXTURES_DIR, 'sample.json'), 'utf-8');
@@ -62,6 +89,16 @@ describe('flattenModules', () => {
   });
 });
 
+describe('mapModulesByPath', () => {
+  it('keys modules by dotted path', () => {
+    const json = readFileSync(resolve(FIXTURES_DIR, 'sample.json'), 'utf-8');
+    const result = parseJson(json);
+
+    const modules = mapModulesByPath(result.decl);
+    expect([...modules.keys()]).toEqual(['testlib.__init__', 'testlib.core', 'testlib.types']);
+  });
+});
+
 describe('countItems', () => {
   it('counts documented items', () => {
     const json = readFileSync(resolve(FIXTURES_DIR, 'sample.json'), 'utf-8');
@@ -74,3 +111,119 @@ describe('countItems', () => {
     }
   });
 });
+
+describe('schema validation', () => {
+  function parseError(data: unknown, mode?: 'strict' | 'lenient'): ParseError {
+    try {
+      parseJson(JSON.stringify(data), { mode });
+    } catch (e) {
+      return e as ParseError;
+    }
+    throw new Error('expected a ParseError');
+  }
+
+  it('accepts the fixture in strict mode without warnings', () => {
+    const json = readFileSync(resolve(FIXTURES_DIR, 'sample.json'), 'utf-8');
+    expect(parseJsonWithWarnings(json, { mode: 'strict' }).warnings).toEqual([]);
+  });
+
+  it('points at the offending value deep in the tree', () => {
+    const data = loadSample();
+    const arg = modules(data)[1].structs[0].functions[0].overloads[0].args[0];
+    Object.assign(arg, { convention: 42 });
+
+    const error = parseError(data);
+    expect(error).toBeInstanceOf(ParseError);
+    expect(error.path).toBe('decl.modules[1].structs[0].functions[0].overloads[0].args[0].convention');
+    expect(error.message).toContain('Expected string');
+  });
+
+  it('fills missing fields with defaults and warns in lenient mode', () => {
+    const data = loadSample();
+    const { overloads } = modules(data)[1].functions[0];
+    const overload: Partial<FunctionOverload> = overloads[0];
+    const arg: Partial<ArgumentDecl> = overloads[0].args[0];
+    delete overload.isDef;
+    delete arg.passingKind;
+
+    const { output, warnings } = parseJsonWithWarnings(JSON.stringify(data));
+    const parsed = modules(output)[1].functions[0].overloads[0];
+
+    expect(parsed.isDef).toBe(false);
+    expect(parsed.args[0].passingKind).toBe('pos_or_kw');
+    expect(warnings.map(w => w.path)).toEqual([
+      'decl.modules[1].functions[0].overloads[0].args[0].passingKind',
+      'decl.modules[1].functions[0].overloads[0].isDef',
+    ]);
+  });
+
+  it('rejects missing fields and unknown conventions in strict mode', () => {
+    const missing = loadSample();
+    const field: Partial<FieldDecl> = modules(missing)[2].structs[0].fields[1];
+    delete field.summary;
+    expect(parseError(missing, 'strict').path).toBe('decl.modules[2].structs[0].fields[1].summary');
+
+    const unknown = loadSample();
+    const arg = modules(unknown)[1].functions[1].overloads[0].args[0];
+    Object.assign(arg, { convention: 'borrowed' });
+    expect(parseError(unknown, 'strict').path).toBe(
+      'decl.modules[1].functions[1].overloads[0].args[0].convention'
+    );
+    expect(() => parseJson(JSON.stringify(unknown))).not.toThrow();
+  });
+});
+
+describe('schema adapters', () => {
+  it('reads both version schemes', () => {
+    expect(parseMojoVersion('0.26.2.0.dev2026020305')).toMatchObject({
+      major: 26,
+      minor: 2,
+      dev: 'dev2026020305',
+    });
+    expect(parseMojoVersion('24.5.0')).toMatchObject({ major: 24, minor: 5, patch: 0, dev: null });
+    expect(parseMojoVersion('nightly')).toBeNull();
+  });
+
+  it('upgrades inout and borrowed conventions from older releases', () => {
+    const data = loadSample();
+    data.version = '24.5.0';
+    const [, core] = modules(data);
+    Object.assign(core.structs[0].functions[0].overloads[0].args[0], { convention: 'inout' });
+    Object.assign(core.functions[0].overloads[0].args[0], { convention: 'borrowed' });
+
+    const { output, adapters, warnings } = parseJsonWithWarnings(JSON.stringify(data), {
+      mode: 'strict',
+    });
+    const upgraded = modules(output)[1];
+
+    expect(adapters).toEqual(['inout-borrowed-conventions']);
+    expect(upgraded.structs[0].functions[0].overloads[0].args[0].convention).toBe('mut');
+    expect(upgraded.functions[0].overloads[0].args[0].convention).toBe('read');
+    expect(warnings).toMatchObject([{ path: 'version' }]);
+    expect(warnings[0].message).toContain('outside the tested range');
+  });
+
+  it('maps comptime declarations onto aliases', () => {
+    const data = loadSample();
+    Object.assign(modules(data)[1], {
+      comptimes: [
+        {
+          kind: 'comptime',
+          name: 'MAX',
+          signature: 'comptime MAX = 10',
+          summary: 'Upper bound.',
+          description: '',
+          value: '10',
+          parameters: [],
+          path: '',
+          deprecated: '',
+        },
+      ],
+    });
+
+    const { output, adapters } = parseJsonWithWarnings(JSON.stringify(data), { mode: 'strict' });
+
+    expect(adapters).toEqual(['comptime-declarations']);
+    expect(modules(output)[1].aliases).toMatchObject([{ kind: 'alias', name: 'MAX' }]);
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * Tests for the renderer package.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { resolve, dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { isPackageDecl, parseJson } from '../packages/parser/src/index.js';
+import {
+  transform,
+  parseDocstring,
+  parseSearchQuery,
+  matchesSearchFilters,
+  searchFullText,
+  searchIndex,
+  tokenize,
+} from '../packages/transform/src/index.js';
+import type { FullTextIndex, SearchItem, SearchQuery } from '../packages/transform/src/index.js';
+import {
+  renderMarkdownSite,
+  renderJsonSite,
+  serializeDocSite,
+  DOC_JSON_SCHEMA_VERSION,
+  functionTemplate,
+  traitTemplate,
+  buildSearchIndexFiles,
+  layoutTemplate,
+  searchScripts,
+} from '../packages/renderer/src/index.js';
+import type { PackageDecl } from '../packages/parser/src/index.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const FIXTURES_DIR = resolve(__dirname, './fixtures');
+
+function loadSite() {
+  const json = readFileSync(resolve(FIXTURES_DIR, 'sample.json'), 'utf-8');
+  return transform(parseJson(json), { name: 'testlib' });
+}
+
+describe('renderMarkdownSite', () => {
+  let outDir: string;
+
+  beforeEach(() => {
+    outDir = mkdtempSync(join(tmpdir(), 'mojodoc-md-'));
+  });
+
+  afterEach(() => {
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('writes one page per package and module with front matter', async () => {
+    await renderMarkdownSite(loadSite(), outDir);
+
+    expect(existsSync(join(outDir, 'testlib/index.md'))).toBe(true);
+    const core = readFileSync(join(outDir, 'testlib/core.md'), 'utf-8');
+    expect(core.startsWith('---\ntitle: "core"\n')).toBe(true);
+    expect(core).toContain('<a id="greet"></a>');
+    expect(core).toContain('```mojo\ngreet(name: String) -> String\n```');
+  });
+
+  it('links local types relatively and stdlib types absolutely', async () => {
+    await renderMarkdownSite(loadSite(), outDir);
+
+    const types = readFileSync(join(outDir, 'testlib/types.md'), 'utf-8');
+    expect(types).toContain('[`Config`](core.md#config)');
+    expect(types).toContain('[`Result`](#result)');
+    expect(types).toContain('[`List`](https://docs.modular.com/mojo/stdlib/collections/list/List)');
+  });
+
+  it('links types by their mojo doc path, else to the nearest local definition', async () => {
+    const parsed = parseJson(readFileSync(resolve(FIXTURES_DIR, 'sample.json'), 'utf-8'));
+    const types = (parsed.decl as PackageDecl).modules.find((m) => m.name === 'types')!;
+    const item = types.structs.find((s) => s.name === 'Item')!;
+    types.structs.push({ ...item, name: 'String' }, { ...item, name: 'Config' });
+    item.fields.find((f) => f.name === 'config')!.path = '';
+    await renderMarkdownSite(transform(parsed, { name: 'testlib' }), outDir);
+
+    const core = readFileSync(join(outDir, 'testlib/core.md'), 'utf-8');
+    expect(core).toContain(
+      '[`String`](https://docs.modular.com/mojo/stdlib/collections/string/string/String)'
+    );
+    expect(core).not.toContain('types.md#string');
+    const typesPage = readFileSync(join(outDir, 'testlib/types.md'), 'utf-8');
+    expect(typesPage).toContain('[`Config`](#config)');
+    expect(typesPage).not.toContain('core.md#config');
+  });
+
+  it('escapes JSX syntax in MDX prose', async () => {
+    const site = loadSite();
+    site.allModules[1].description = 'Use {braces} and <T> but keep `{code}`.';
+    await renderMarkdownSite(site, outDir, { mdx: true });
+
+    const core = readFileSync(join(outDir, 'testlib/core.mdx'), 'utf-8');
+    expect(core).toContain('Use \\{braces\\} and &lt;T> but keep `{code}`.');
+  });
+});
+
+describe('JSON export', () => {
+  it('writes a versioned document without HTML strings by default', () => {
+    const doc = JSON.parse(serializeDocSite(loadSite()));
+
+    expect(doc.schemaVersion).toBe(DOC_JSON_SCHEMA_VERSION);
+    expect(doc.$schema).toBe('./docs.schema.json');
+    expect(doc.site.name).toBe('testlib');
+    const core = doc.package.modules.find((m: { name: string }) => m.name === 'core');
+    const greet = core.functions.find((f: { name: string }) => f.name === 'greet');
+    expect(greet.overloads[0].signature).toBe('greet(name: String) -> String');
+    expect(greet.overloads[0].signatureHtml).toBeUndefined();
+    expect(JSON.stringify(doc)).not.toMatch(/Html"/);
+  });
+
+  it('keeps HTML strings when asked', () => {
+    const doc = JSON.parse(serializeDocSite(loadSite(), { includeHtml: true }));
+    const core = doc.package.modules.find((m: { name: string }) => m.name === 'core');
+    expect(core.functions[0].overloads[0].signatureHtml).toContain('<span');
+  });
+
+  it('writes the schema next to the document', async () => {
+    const outDir = mkdtempSync(join(tmpdir(), 'mojodoc-json-'));
+    try {
+      await renderJsonSite(loadSite(), outDir);
+      const schema = JSON.parse(readFileSync(join(outDir, 'docs.schema.json'), 'utf-8'));
+      expect(schema.properties.schemaVersion.const).toBe(DOC_JSON_SCHEMA_VERSION);
+      expect(schema.$defs.StructItem.required).toContain('traitImpls');
+      expect(schema.$defs.StructItem.required).not.toContain('signatureHtml');
+      expect(existsSync(join(outDir, 'docs.json'))).toBe(true);
+    } finally {
+      rmSync(outDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('functionTemplate', () => {
+  it('shows constraints, passing kinds and def/@implicit badges', () => {
+    const parsed = parseJson(readFileSync(resolve(FIXTURES_DIR, 'sample.json'), 'utf-8'));
+    if (!isPackageDecl(parsed.decl)) throw new Error('expected a package');
+    const overload = parsed.decl.modules[1].functions[0].overloads[0];
+    overload.isDef = true;
+    overload.isImplicitConversion = true;
+    overload.constraints = 'size > 0';
+    overload.args[0].passingKind = 'kw_only';
+
+    const greet = transform(parsed, { name: 'testlib' }).allModules[1].functions[0];
+    expect(greet.overloads[0]).toMatchObject({ isDef: true, constraints: 'size > 0' });
+    expect(greet.overloads[0].args[0].passingKind).toBe('kw_only');
+
+    const html = functionTemplate(greet);
+    expect(html).toContain('<span class="modifier-badge def" title="Declared with def">def</span>');
+    expect(html).toContain('@implicit</span>');
+    expect(html).toContain('class="signature-constraints"');
+    expect(html).toContain('<span class="passing-badge kw_only">keyword-only</span>');
+  });
+
+  it('omits markers for plain fn overloads', () => {
+    const html = functionTemplate(loadSite().allModules[1].functions[0]);
+    expect(html).not.toContain('passing-badge');
+    expect(html).not.toContain('signature-constraints');
+    expect(html).not.toContain('modifier-badge');
+  });
+});
+
+describe('traitTemplate', () => {
+  it('splits required and provided methods', () => {
+    const method = loadSite().allModules[1].structs[0].methods[0];
+    const provided = {
+      ...method,
+      name: 'describe',
+      anchor: 'describe',
+      overloads: method.overloads.map((o) => ({ ...o, hasDefaultImplementation: true })),
+    };
+    const html = traitTemplate({
+      kind: 'trait',
+      name: 'Describable',
+      anchor: 'describable',
+      signature: 'trait Describable',
+      signatureHtml: '',
+      summary: '',
+      description: '',
+      descriptionHtml: '',
+      typeParams: [],
+      methods: [method, provided],
+      implementors: [],
+      deprecated: null,
+      sourceUrl: null,
+      docstring: parseDocstring(''),
+    });
+
+    const required = html.indexOf('<h4>Required Methods</h4>');
+    const providedAt = html.indexOf('<h4>Provided Methods</h4>');
+    expect(required).toBeGreaterThan(-1);
+    expect(providedAt).toBeGreaterThan(required);
+    expect(html.indexOf('id="describable-to-string"')).toBeLessThan(providedAt);
+    expect(html.indexOf('id="describable-describe"')).toBeGreaterThan(providedAt);
+  });
+});
+
+describe('search index files', () => {
+  it('writes one compact file that pages load instead of inlining', () => {
+    const site = loadSite();
+    const files = buildSearchIndexFiles(site.searchIndex);
+    const manifest = JSON.parse(files.get('search-index.json')!);
+
+    expect([...files.keys()]).toEqual(['search-index.json', 'search-text.json']);
+    expect(manifest.items).toHaveLength(site.searchIndex.items.length);
+    expect(manifest.items[0][manifest.fields.indexOf('name')]).toBe(site.searchIndex.items[0].name);
+
+    const page = layoutTemplate('', site, 'testlib');
+    expect(page).toContain(`window.SEARCH_INDEX_VERSION = "${manifest.version}"`);
+    expect(page).not.toContain(site.searchIndex.items[0].signature);
+  });
+
+  it('shards items by the first letter of their last name segment', () => {
+    const site = loadSite();
+    const files = buildSearchIndexFiles(site.searchIndex, true);
+    const manifest = JSON.parse(files.get('search-index.json')!);
+    const nameAt = manifest.fields.indexOf('name');
+
+    expect(manifest.items).toBeUndefined();
+    expect(manifest.shards.g).toBe(1);
+    const tShard = JSON.parse(files.get('search/t.json')!).map((row: unknown[]) => row[nameAt]);
+    expect(tShard).toContain('Config.to_string');
+
+    const total = Object.values(manifest.shards as Record<string, number>).reduce(
+      (a, b) => a + b,
+      0
+    );
+    expect(total).toBe(site.searchIndex.items.length);
+  });
+
+  it('carries filter flags and renders the filter chips', () => {
+    const site = loadSite();
+    const manifest = JSON.parse(buildSearchIndexFiles(site.searchIndex).get('search-index.json')!);
+
+    expect(manifest.fields).toEqual(expect.arrayContaining(['deprecated', 'public']));
+    const page = layoutTemplate('', site, 'testlib');
+    for (const filter of ['fn', 'struct', 'trait', 'public', 'deprecated']) {
+      expect(page).toContain(`data-filter="${filter}"`);
+    }
+    expect(page).toContain('data-group="module"');
+  });
+
+  it('writes the full-text index next to the items', () => {
+    const site = loadSite();
+    const text = JSON.parse(buildSearchIndexFiles(site.searchIndex, true).get('search-text.json')!);
+
+    expect(text.docs).toContain('testlib.core.add');
+    const add = text.docs.indexOf('testlib.core.add');
+    expect(text.terms.operand).toEqual([add, 2]);
+    expect(text.texts[add]).toContain('The second integer operand.');
+  });
+});
+
+describe('search scripts', () => {
+  /** The browser search functions, run outside the page */
+  interface BrowserSearch {
+    parseQuery(query: string): SearchQuery & { keys: Set<string> };
+    matchesFilters(item: SearchItem, query: SearchQuery): boolean;
+    prepareFullText(index: FullTextIndex): FullTextIndex;
+    searchFullText(
+      index: FullTextIndex,
+      query: string
+    ): { scores: Map<string, { score: number; doc: number }>; terms: Set<string> };
+    tokenize(text: string): string[];
+    searchByType(query: string, items: SearchItem[]): SearchItem[];
+  }
+
+  const browser = new Function(
+    `${searchScripts}
+    return { parseQuery, matchesFilters, prepareFullText, searchFullText, tokenize, searchByType };`
+  )() as BrowserSearch;
+  const site = loadSite();
+
+  it('parses and applies query filters like parseSearchQuery', () => {
+    const queries = ['greet', 'fn:add', 'struct: in:testlib.core', 'public: deprecated: x', 'in:'];
+    for (const query of queries) {
+      const { keys, ...parsed } = browser.parseQuery(query);
+      expect(keys).toBeInstanceOf(Set);
+      expect(parsed).toEqual(parseSearchQuery(query));
+      for (const item of site.searchIndex.items) {
+        expect(browser.matchesFilters(item, parsed)).toBe(matchesSearchFilters(item, parsed));
+      }
+    }
+  });
+
+  it('tokenizes and ranks docs like searchFullText', () => {
+    const index = site.searchIndex.fullText;
+    for (const text of [...index.texts, 'Parsing greetings quickly and HTTPServer_config']) {
+      expect(browser.tokenize(text)).toEqual(tokenize(text));
+    }
+
+    const prepared = browser.prepareFullText(structuredClone(index));
+    for (const query of ['greeting', 'integer operand', 'intger', 'conf', 'the sum of']) {
+      const expected = searchFullText(index, query);
+      const actual = [...browser.searchFullText(prepared, query).scores].sort(
+        (a, b) => b[1].score - a[1].score
+      );
+      expect(actual.map(([id]) => id)).toEqual(expected.map((m) => m.id));
+      actual.forEach(([, { score }], i) => expect(score).toBeCloseTo(expected[i].score, 10));
+    }
+  });
+
+  it('matches type signatures like searchIndex', () => {
+    const names = (items: SearchItem[]) => items.map((i) => i.name);
+    for (const query of ['String -> String', 'Config -> String', '-> Int', 'List ->', 'a -> a']) {
+      expect(names(browser.searchByType(query.toLowerCase(), site.searchIndex.items))).toEqual(
+        names(searchIndex(site.searchIndex, query))
+      );
+    }
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Tests for `mojodoc show`: name resolution and terminal formatting.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { parseJson } from '../packages/parser/src/index.js';
+import { transform } from '../packages/transform/src/index.js';
+import {
+  collectShowTargets,
+  resolveShowTarget,
+  formatShowTarget,
+  formatShowList,
+} from '../packages/cli/src/commands/show.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const SAMPLE_JSON = resolve(__dirname, './fixtures/sample.json');
+
+function loadTargets() {
+  const site = transform(parseJson(readFileSync(SAMPLE_JSON, 'utf-8')), {
+    initFileContent: 'from .core import Config\n',
+  });
+  return collectShowTargets(site);
+}
+
+describe('resolveShowTarget', () => {
+  const targets = loadTargets();
+  const resolved = (name: string) => resolveShowTarget(targets, name).target?.path;
+
+  it('resolves full paths, re-exports and partial names', () => {
+    expect(resolved('testlib.core.greet')).toBe('testlib.core.greet');
+    expect(resolved('testlib.Config.to_string')).toBe('testlib.core.Config.to_string');
+    expect(resolved('Config.to_string')).toBe('testlib.core.Config.to_string');
+    expect(resolved('process_items')).toBe('testlib.types.process_items');
+    expect(resolved('core.config')).toBe('testlib.core.Config');
+    expect(resolved('config')).toBe('testlib.types.Item.config');
+  });
+
+  it('tolerates typos and lists candidates for ambiguous names', () => {
+    expect(resolved('gret')).toBe('testlib.core.greet');
+    expect(resolved('Confg.to_strng')).toBe('testlib.core.Config.to_string');
+
+    const ambiguous = resolveShowTarget(targets, 'name');
+    expect(ambiguous.target).toBeNull();
+    expect(ambiguous.candidates).toEqual(['testlib.core.Config.name', 'testlib.types.Item.name']);
+    expect(resolveShowTarget(targets, 'xylophone')).toEqual({ target: null, candidates: [] });
+  });
+});
+
+describe('formatShowTarget', () => {
+  const targets = loadTargets();
+
+  it('prints the signature, docs, args table and links of a function', () => {
+    const text = formatShowTarget(targets.get('testlib.core.add')!, {
+      docsUrl: (urlPath, anchor) => `https://docs.example.com/${urlPath}/index.html#${anchor}`,
+    });
+
+    expect(text).toContain('fn add(a: Int, b: Int) -> Int');
+    expect(text).toContain('Add two integers together.');
+    expect(text).toMatch(/Args\n\s+a\s+Int\s+The first integer operand\.\n\s+b\s+Int\s+The second/);
+    expect(text).toMatch(/Returns\n\s+Int\s+The sum of a and b\./);
+    expect(text).toContain('Docs:   https://docs.example.com/testlib/core/index.html#add');
+  });
+
+  it('lists module and struct members', () => {
+    const module = formatShowList(targets.get('testlib.core')!);
+    expect(module).toMatch(
+      /Functions\n\s+fn greet\(name: String\) -> String\n\s+Return a greeting/
+    );
+    expect(module).toContain('struct Config');
+
+    const struct = formatShowList(targets.get('testlib.core.Config')!);
+    expect(struct).toContain('name: String');
+    expect(struct).toContain('fn to_string(self) -> String');
+  });
+});
@@ -6,19 +6,66 @@ import { describe, it, expect } from 'vitest';
 import { readFileSync } from 'fs';
 import { resolve, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import { parseJson } from '../packages/parser/src/index.js';
+import { isPackageDecl, parseJson } from '../packages/parser/src/index.js';
 import {
   transform,
   buildNavTree,
   buildSearchIndex,
+  searchIndex,
+  buildFullTextIndex,
+  searchFullText,
+  stem,
+  parseSearchQuery,
   parseInitFile,
   buildPublicApi,
+  diffApi,
+  classifyApiChanges,
+  publicApiIndex,
+  requiredBump,
+  checkVersionBump,
+  measureCoverage,
+  lintDocstrings,
+  parseDocstring,
+  locateDeclarations,
+  buildSourceUrl,
+  highlightSourceLines,
 } from '../packages/transform/src/index.js';
-import type { Module } from '../packages/transform/src/index.js';
+import type { Module, SearchIndex, SearchItem } from '../packages/transform/src/index.js';
+import type {
+  FunctionDecl,
+  MojoDocOutput,
+  PackageDecl,
+  TraitDecl,
+} from '../packages/parser/src/index.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const FIXTURES_DIR = resolve(__dirname, './fixtures');
 
+function loadSample(): MojoDocOutput {
+  return parseJson(readFileSync(resolve(FIXTURES_DIR, 'sample.json'), 'utf-8'));
+}
+
+/** A trait declaration with no docs, parameters or parent traits by default. */
+function traitDecl(
+  name: string,
+  functions: FunctionDecl[] = [],
+  overrides: Partial<TraitDecl> = {}
+): TraitDecl {
+  return {
+    kind: 'trait',
+    name,
+    signature: `trait ${name}`,
+    summary: '',
+    description: '',
+    parameters: [],
+    functions,
+    parentTraits: [],
+    deprecated: '',
+    path: '',
+    ...overrides,
+  };
+}
+
 describe('transform', () => {
   it('transforms parsed JSON into DocSite', () => {
     const json = readFileSync(resolve(FIXTURES_DIR, 'sample.json'), 'utf-8');
@@ -160,6 +207,103 @@ describe('type cross-referencing', () => {
   });
 });
 
+describe('trait implementations', () => {
+  /** sample.json with a local trait in core that Config conforms to. */
+  function withTraits(): MojoDocOutput {
+    const parsed = loadSample();
+    const core = (parsed.decl as PackageDecl).modules.find((m) => m.name === 'core')!;
+    const toString = core.structs[0].functions[0];
+
+    core.traits.push(
+      traitDecl(
+        'Describable',
+        [{ ...toString, overloads: toString.overloads.map((o) => ({ ...o })) }],
+        { summary: 'Types that can describe themselves.' }
+      )
+    );
+    core.structs[0].parentTraits = [
+      { name: 'Describable', path: '' },
+      { name: 'Copyable', path: '/std/builtin/value/Copyable' },
+    ];
+    return parsed;
+  }
+
+  it('lists implemented traits with links and satisfying methods', () => {
+    const site = transform(withTraits(), { name: 'testlib' });
+    const config = site.allModules.find((m) => m.name === 'core')?.structs[0];
+
+    expect(config?.traitImpls).toHaveLength(2);
+    expect(config?.traitImpls[0]).toEqual({
+      name: 'Describable',
+      path: 'testlib.core.Describable',
+      href: '/testlib/core/index.html#describable',
+      methods: ['to_string'],
+      inherited: [],
+    });
+    expect(config?.traitImpls[1].href).toContain('docs.modular.com/mojo/stdlib/builtin/value/Copyable');
+    expect(config?.traitImpls[1].methods).toEqual([]);
+  });
+
+  it('lists implementing structs on local trait pages', () => {
+    const site = transform(withTraits(), { name: 'testlib' });
+    const trait = site.allModules.find((m) => m.name === 'core')?.traits[0];
+
+    expect(trait?.implementors).toEqual([
+      {
+        name: 'Config',
+        fullPath: 'testlib.core.Config',
+        urlPath: 'testlib/core',
+        anchor: 'config',
+        summary: 'A configuration container.',
+      },
+    ]);
+  });
+
+  it('matches implementors to the trait at their parent trait path', () => {
+    const parsed = withTraits();
+    const modules = (parsed.decl as PackageDecl).modules;
+    const core = modules.find((m) => m.name === 'core')!;
+    const types = modules.find((m) => m.name === 'types')!;
+    types.traits.push({ ...core.traits[0], path: '/testlib/types/Describable' });
+    types.structs[0].parentTraits = [{ name: 'Describable', path: '/testlib/types/Describable' }];
+
+    const site = transform(parsed, { name: 'testlib' });
+    const implementors = (name: string) =>
+      site.allModules.find((m) => m.name === name)?.traits[0].implementors.map((i) => i.fullPath);
+
+    expect(implementors('core')).toEqual(['testlib.core.Config']);
+    expect(implementors('types')).toEqual([`testlib.types.${types.structs[0].name}`]);
+  });
+
+  it('lists provided trait methods the struct does not override as inherited', () => {
+    const parsed = withTraits();
+    const core = (parsed.decl as PackageDecl).modules.find((m) => m.name === 'core')!;
+    const toString = core.traits[0].functions[0];
+    core.traits[0].functions.push({
+      ...toString,
+      name: 'describe',
+      overloads: toString.overloads.map((o) => ({
+        ...o,
+        name: 'describe',
+        summary: 'Describe the value.',
+        hasDefaultImplementation: true,
+      })),
+    });
+
+    const site = transform(parsed, { name: 'testlib' });
+    const config = site.allModules.find((m) => m.name === 'core')?.structs[0];
+
+    expect(config?.traitImpls[0].inherited).toEqual([
+      {
+        name: 'describe',
+        summary: 'Describe the value.',
+        urlPath: 'testlib/core',
+        anchor: 'describable-describe',
+      },
+    ]);
+  });
+});
+
 describe('buildNavTree', () => {
   it('builds navigation tree', () => {
     const json = readFileSync(resolve(FIXTURES_DIR, 'sample.json'), 'utf-8');
@@ -187,6 +331,115 @@ describe('buildSearchIndex', () => {
     expect(greetItem).toBeDefined();
     expect(greetItem?.kind).toBe('function');
   });
+
+  it('searches by type signature', () => {
+    const site = transform(loadSample());
+    const names = (query: string) => searchIndex(site.searchIndex, query).map(i => i.name);
+
+    expect(names('String -> String')).toEqual(['greet']);
+    expect(names('Config -> String')).toEqual(['Config.to_string']);
+    expect(names('-> Int')).toEqual(['add']);
+    expect(names('List ->')).toEqual(['process_items']);
+    expect(names('Int -> String')).toEqual([]);
+  });
+
+  it('unifies type variables across the signature', () => {
+    const first: SearchItem = {
+      id: 'lib.first',
+      kind: 'function',
+      name: 'first',
+      fullPath: 'lib.first',
+      urlPath: 'lib',
+      anchor: 'first',
+      signature: 'first[T: Copyable](xs: List[T]) -> T',
+      summary: '',
+      inputTypes: ['list[t]'],
+      outputType: 't',
+      typeParams: ['t'],
+      deprecated: false,
+      public: false,
+    };
+    const index: SearchIndex = { items: [first], fullText: buildFullTextIndex([]) };
+
+    expect(searchIndex(index, 'List[Int] -> Int')).toHaveLength(1);
+    expect(searchIndex(index, 'List[a] -> a')).toHaveLength(1);
+    expect(searchIndex(index, 'List[Int] -> String')).toHaveLength(0);
+  });
+});
+
+describe('search filters', () => {
+  function loadSite(initFileContent?: string) {
+    const parsed = loadSample();
+    if (!isPackageDecl(parsed.decl)) throw new Error('expected a package');
+    parsed.decl.modules[1].functions[1].overloads[0].deprecated = 'Use `sum` instead.';
+    return transform(parsed, { initFileContent });
+  }
+
+  it('parses filters out of the query text', () => {
+    expect(parseSearchQuery('struct:Parser in:net.http deprecated:')).toEqual({
+      text: 'Parser',
+      kinds: ['struct'],
+      scope: 'net.http',
+      deprecated: true,
+      public: false,
+    });
+    expect(parseSearchQuery('fn: -> Int').kinds).toEqual(['function', 'method']);
+    expect(parseSearchQuery('url:http constructor:x').text).toBe('url:http constructor:x');
+  });
+
+  it('narrows results by kind, module and flags', () => {
+    const index = loadSite().searchIndex;
+    const names = (query: string) => searchIndex(index, query).map(i => i.name);
+
+    expect(names('fn: in:core')).toEqual(['greet', 'add', 'Config.to_string']);
+    expect(names('struct:conf')).toEqual(['Config']);
+    expect(names('trait:')).toEqual([]);
+    expect(names('in:types Item')[0]).toBe('Item');
+    expect(names('in:types').every(name => !name.startsWith('Config'))).toBe(true);
+    expect(names('deprecated:')).toEqual(['add']);
+    expect(names('fn: deprecated: -> Int')).toEqual(['add']);
+  });
+
+  it('marks items re-exported from __init__.mojo as public', () => {
+    const index = loadSite('from .core import Config\n').searchIndex;
+
+    expect(searchIndex(index, 'public:').map(i => i.name)).toEqual([
+      'Config',
+      'Config.to_string',
+      'Config.name',
+      'Config.value',
+    ]);
+    expect(loadSite().searchIndex.items.every(item => item.public)).toBe(true);
+  });
+});
+
+describe('full-text search', () => {
+  function loadIndex() {
+    const site = transform(loadSample());
+    return site.searchIndex;
+  }
+
+  it('indexes descriptions and argument docs with snippets', () => {
+    const index = loadIndex();
+    const [best] = searchFullText(index.fullText, 'integer operand');
+
+    expect(best.id).toBe('testlib.core.add');
+    expect(best.snippet).toContain('The first integer operand.');
+    expect(searchIndex(index, 'operand').map(i => i.name)).toEqual(['add']);
+  });
+
+  it('matches stems, prefixes and typos', () => {
+    const index = loadIndex();
+    const ids = (query: string) => searchFullText(index.fullText, query).map(m => m.id);
+
+    expect(['parse', 'parses', 'parsed', 'parsing'].map(stem)).toEqual(Array(4).fill('pars'));
+    expect(stem('classes')).toBe('class');
+    expect(ids('greetings')).toEqual(['testlib.core.greet']);
+    expect(ids('persona')).toEqual(['testlib.core.greet']);
+    expect(ids('persn to greet')).toEqual(['testlib.core.greet']);
+    expect(ids('operand xylophone')[0]).toBe('testlib.core.add');
+    expect(ids('xylophone')).toEqual([]);
+  });
 });
 
 describe('parseInitFile – subpackage dotted paths', () => {
@@ -256,8 +509,9 @@ describe('buildPublicApi – subpackage modules', () => {
       descriptionHtml: '',
       parentPackage,
       sourceFile: `${parts.slice(1).join('/')}.mojo`,
-      functions: kind === 'function' ? [{ kind: 'function', name: itemName, anchor, overloads: [{ signature: `${itemName}()`, signatureHtml: '', summary: `Summary of ${itemName}`, description: '', descriptionHtml: '', args: [], typeParams: [], returns: null, raises: null, isStatic: false, isAsync: false, deprecated: null }] }] : [],
-      structs: kind === 'struct' ? [{ ...baseItem, kind: 'struct', signature: `struct ${itemName}`, signatureHtml: '', description: '', descriptionHtml: '', typeParams: [], fields: [], methods: [], deprecated: null }] : [],
+      sourceUrl: null,
+      functions: kind === 'function' ? [{ kind: 'function', name: itemName, anchor, overloads: [{ signature: `${itemName}()`, signatureHtml: '', summary: `Summary of ${itemName}`, description: '', descriptionHtml: '', args: [], typeParams: [], returns: null, raises: null, isStatic: false, isAsync: false, isDef: false, isImplicitConversion: false, hasDefaultImplementation: false, constraints: null, constraintsHtml: '', deprecated: null, inheritedFrom: null, docstring: parseDocstring('') }], sourceUrl: null }] : [],
+      structs: kind === 'struct' ? [{ ...baseItem, kind: 'struct', signature: `struct ${itemName}`, signatureHtml: '', description: '', descriptionHtml: '', typeParams: [], fields: [], methods: [], traitImpls: [], deprecated: null, sourceUrl: null, docstring: parseDocstring('') }] : [],
       traits: [],
       aliases: [],
     };
@@ -328,3 +582,600 @@ describe('transform – subpackage public API via initFileContent', () => {
     expect(mathSection.items[0].name).toBe('add');
   });
 });
+
+describe('diffApi', () => {
+  function coreOf(doc: MojoDocOutput) {
+    return (doc.decl as PackageDecl).modules.find((m) => m.name === 'core')!;
+  }
+
+  it('reports no changes for identical outputs', () => {
+    expect(diffApi(loadSample(), loadSample()).changes).toEqual([]);
+  });
+
+  it('reports removed, added and changed items with details', () => {
+    const oldDoc = loadSample();
+    const newDoc = loadSample();
+    const core = coreOf(newDoc);
+
+    core.functions = core.functions.filter((f) => f.name !== 'add');
+    const greet = core.functions.find((f) => f.name === 'greet')!.overloads[0];
+    greet.args[0].convention = 'owned';
+    greet.args.push({
+      kind: 'argument',
+      name: 'loud',
+      type: 'Bool',
+      description: '',
+      convention: 'read',
+      passingKind: 'pos_or_kw',
+      path: '',
+      default: 'False',
+    });
+    greet.signature = 'greet(owned name: String, loud: Bool = False) -> String';
+    core.structs[0].fields[1].type = 'Float64';
+
+    const changes = diffApi(oldDoc, newDoc).changes;
+
+    expect(changes).toContainEqual(
+      expect.objectContaining({ kind: 'removed', itemKind: 'function', path: 'testlib.core.add' })
+    );
+    const greetChange = changes.find((c) => c.path === 'testlib.core.greet')!;
+    expect(greetChange.kind).toBe('changed');
+    expect(greetChange.before).toBe('greet(name: String) -> String');
+    expect(greetChange.details.map((d) => d.kind)).toEqual(['arg-convention', 'optional-arg-added']);
+    expect(changes).toContainEqual(
+      expect.objectContaining({
+        kind: 'changed',
+        itemKind: 'field',
+        path: 'testlib.core.Config.value',
+      })
+    );
+  });
+
+  it('reports new overloads and deprecations', () => {
+    const oldDoc = loadSample();
+    const newDoc = loadSample();
+    const add = coreOf(newDoc).functions.find((f) => f.name === 'add')!;
+    add.overloads.push({
+      ...add.overloads[0],
+      signature: 'add(a: Float64, b: Float64) -> Float64',
+      args: add.overloads[0].args.map((a) => ({ ...a, name: `${a.name}2`, type: 'Float64' })),
+    });
+    add.overloads[0].deprecated = 'Use `sum` instead.';
+
+    const changes = diffApi(oldDoc, newDoc).changes;
+
+    expect(changes).toContainEqual(
+      expect.objectContaining({
+        kind: 'added',
+        itemKind: 'overload',
+        after: 'add(a: Float64, b: Float64) -> Float64',
+      })
+    );
+    expect(changes).toContainEqual(
+      expect.objectContaining({ kind: 'deprecated', path: 'testlib.core.add' })
+    );
+  });
+});
+
+describe('semver classification', () => {
+  function publicOf(doc: MojoDocOutput, init: string) {
+    return publicApiIndex(transform(doc, { initFileContent: init }).rootPackage);
+  }
+
+  it('treats public removals and convention changes as major, internal ones as patch', () => {
+    const oldDoc = loadSample();
+    const newDoc = loadSample();
+    const core = (newDoc.decl as PackageDecl).modules.find((m) => m.name === 'core')!;
+    core.functions.find((f) => f.name === 'greet')!.overloads[0].args[0].convention = 'owned';
+    core.functions = core.functions.filter((f) => f.name !== 'add');
+
+    const init = 'from .core import greet\n';
+    const changes = classifyApiChanges(
+      diffApi(oldDoc, newDoc),
+      publicOf(oldDoc, init),
+      publicOf(newDoc, init)
+    );
+
+    expect(changes.find((c) => c.path === 'testlib.core.greet')).toMatchObject({
+      public: true,
+      level: 'major',
+    });
+    expect(changes.find((c) => c.path === 'testlib.core.add')).toMatchObject({
+      public: false,
+      level: 'patch',
+    });
+    expect(requiredBump(changes)).toBe('major');
+  });
+
+  it('treats new overloads and dropped re-exports by their impact', () => {
+    const oldDoc = loadSample();
+    const newDoc = loadSample();
+    const core = (newDoc.decl as PackageDecl).modules.find((m) => m.name === 'core')!;
+    const add = core.functions.find((f) => f.name === 'add')!;
+    add.overloads.push({ ...add.overloads[0], signature: 'add(a: Float64) -> Float64', args: [] });
+
+    const changes = classifyApiChanges(
+      diffApi(oldDoc, newDoc),
+      publicOf(oldDoc, 'from .core import greet, add\n'),
+      publicOf(newDoc, 'from .core import add\n')
+    );
+
+    expect(changes.find((c) => c.itemKind === 'overload')).toMatchObject({ level: 'minor' });
+    expect(changes.find((c) => c.path === 'testlib.core.greet')).toMatchObject({
+      kind: 'removed',
+      level: 'major',
+    });
+  });
+
+  it('treats new required trait methods and parent traits as major', () => {
+    function withTrait(): MojoDocOutput {
+      const doc = loadSample();
+      const core = (doc.decl as PackageDecl).modules.find((m) => m.name === 'core')!;
+      core.traits.push(traitDecl('Describable'));
+      return doc;
+    }
+
+    const oldDoc = withTrait();
+    const newDoc = withTrait();
+    const core = (newDoc.decl as PackageDecl).modules.find((m) => m.name === 'core')!;
+    const toString = core.structs[0].functions[0];
+    const trait = core.traits[0];
+    trait.functions.push(
+      { ...toString, name: 'describe' },
+      {
+        ...toString,
+        name: 'summary',
+        overloads: toString.overloads.map((o) => ({ ...o, hasDefaultImplementation: true })),
+      }
+    );
+    trait.parentTraits = [{ name: 'Copyable', path: '/std/builtin/value/Copyable' }];
+    core.structs[0].parentTraits = [{ name: 'Copyable', path: '/std/builtin/value/Copyable' }];
+
+    const init = 'from .core import Config, Describable\n';
+    const changes = classifyApiChanges(
+      diffApi(oldDoc, newDoc),
+      publicOf(oldDoc, init),
+      publicOf(newDoc, init)
+    );
+    const levelOf = (path: string) => changes.find((c) => c.path === path)?.level;
+
+    expect(levelOf('testlib.core.Describable.describe')).toBe('major');
+    expect(levelOf('testlib.core.Describable.summary')).toBe('minor');
+    expect(levelOf('testlib.core.Describable')).toBe('major');
+    expect(levelOf('testlib.core.Config')).toBe('minor');
+  });
+
+  it('checks the version bump, shifting levels below 1.0', () => {
+    expect(checkVersionBump('1.2.3', '1.3.0', 'major')).toMatchObject({
+      ok: false,
+      minimum: '2.0.0',
+    });
+    expect(checkVersionBump('1.2.3', '2.0.0', 'major').ok).toBe(true);
+    expect(checkVersionBump('0.3.1', '0.4.0', 'major').ok).toBe(true);
+    expect(checkVersionBump('0.3.1', '0.3.2', 'major')).toMatchObject({
+      ok: false,
+      required: 'minor',
+      minimum: '0.4.0',
+    });
+    expect(checkVersionBump('1.0.0', '1.0.0', null).ok).toBe(true);
+    expect(checkVersionBump('1.0.0', '1.0.0', 'patch').ok).toBe(false);
+  });
+});
+
+describe('measureCoverage', () => {
+  it('counts every overload, struct and field of the fixture as documented', () => {
+    const report = measureCoverage(loadSample());
+
+    expect(report.total).toEqual({ total: 13, documented: 13, percent: 100 });
+    expect(report.modules.map((m) => m.module)).toEqual(['testlib.core', 'testlib.types']);
+  });
+
+  it('lists missing docs and splits public from internal items', () => {
+    const doc = loadSample();
+    const core = (doc.decl as PackageDecl).modules.find((m) => m.name === 'core')!;
+    const add = core.functions.find((f) => f.name === 'add')!.overloads[0];
+    add.summary = '';
+    add.args[1].description = '';
+    add.returns!.doc = '';
+
+    const report = measureCoverage(doc, { initFileContent: 'from .core import greet, add\n' });
+    const addItem = report.items.find((i) => i.path === 'testlib.core.add')!;
+
+    expect(addItem.missing).toEqual(['summary', 'arg `b`', 'returns']);
+    expect(addItem.public).toBe(true);
+    expect(report.public).toEqual({ total: 2, documented: 1, percent: 50 });
+    expect(report.internal.total).toBe(11);
+    expect(report.total.percent).toBe(92.3);
+  });
+});
+
+describe('lintDocstrings', () => {
+  it('finds nothing to report in the fixture', () => {
+    expect(lintDocstrings(loadSample())).toEqual([]);
+  });
+
+  it('flags docs that disagree with the signature', () => {
+    const doc = loadSample();
+    const core = (doc.decl as PackageDecl).modules.find((m) => m.name === 'core')!;
+    const add = core.functions.find((f) => f.name === 'add')!.overloads[0];
+    add.args[1].description = '';
+    add.description = ['Adds.', '', 'Args:', '    c: Not an argument.', '        More text.'].join(
+      '\n'
+    );
+    add.raisesDoc = 'Never.';
+    const greet = core.functions.find((f) => f.name === 'greet')!.overloads[0];
+    greet.returns = { type: 'None', doc: 'A greeting string.', path: '' };
+
+    const source =
+      'fn greet(name: String) -> String:\n    pass\n\nfn add(a: Int, b: Int) -> Int:\n';
+    const diagnostics = lintDocstrings(doc, { moduleFiles: new Map([['core.mojo', source]]) });
+
+    expect(diagnostics.map((d) => [d.path, d.rule])).toEqual([
+      ['testlib.core.greet', 'returns-without-return-type'],
+      ['testlib.core.add', 'unknown-arg'],
+      ['testlib.core.add', 'undocumented-arg'],
+      ['testlib.core.add', 'raises-without-raises'],
+    ]);
+    expect(diagnostics[1]).toMatchObject({ file: 'core.mojo', line: 4, severity: 'error' });
+  });
+
+  it('points method findings at the method of their own struct', () => {
+    const doc = loadSample();
+    const core = (doc.decl as PackageDecl).modules.find((m) => m.name === 'core')!;
+    core.structs[0].functions[0].overloads[0].raisesDoc = 'Never.';
+
+    const source = [
+      'struct Other:',
+      '    fn to_string(self) -> String:',
+      '        pass',
+      '',
+      'struct Config:',
+      '    @always_inline',
+      '    fn to_string(self) -> String:',
+      '        pass',
+    ].join('\n');
+    const diagnostics = lintDocstrings(doc, { moduleFiles: new Map([['core.mojo', source]]) });
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ path: 'testlib.core.Config.to_string', line: 7 });
+  });
+});
+
+describe('parseDocstring', () => {
+  const text = [
+    'Read a file.',
+    '',
+    'Reads the whole file at once.',
+    '',
+    'Args:',
+    '    path (String): The path.',
+    '        Relative to the cwd.',
+    '',
+    'Example:',
+    '```mojo',
+    'var text = read("a.txt")',
+    '```',
+    '',
+    'Note: Not buffered.',
+    '',
+    'See Also:',
+    '    `write`: Write a file.',
+    '',
+    'Safety:',
+    '    Not thread-safe.',
+    '',
+    'For example: this stays prose.',
+  ].join('\n');
+
+  it('splits summary, body and sections', () => {
+    const doc = parseDocstring(text);
+
+    expect(doc.summary).toBe('Read a file.');
+    expect(doc.body).toBe('Reads the whole file at once.\n\nFor example: this stays prose.');
+    expect(doc.sections.map((s) => [s.kind, s.title])).toEqual([
+      ['args', 'Args'],
+      ['examples', 'Example'],
+      ['notes', 'Note'],
+      ['see-also', 'See Also'],
+      ['custom', 'Safety'],
+    ]);
+  });
+
+  it('parses entries of list sections', () => {
+    const doc = parseDocstring(text);
+
+    expect(doc.sections[0].entries).toMatchObject([
+      { name: 'path', type: 'String', description: 'The path. Relative to the cwd.' },
+    ]);
+    expect(doc.sections[3].entries).toMatchObject([{ name: 'write', description: 'Write a file.' }]);
+    expect(parseDocstring('Raises:\n    If the file is missing.').sections[0].entries).toEqual([]);
+  });
+
+  it('renders unfenced examples as Mojo code', () => {
+    const doc = parseDocstring('Example:\n    var x = add(1, 2)');
+    expect(doc.sections[0].contentHtml).toContain('language-mojo');
+  });
+
+  it('fills undocumented overload fields from leftover sections', () => {
+    const doc = loadSample();
+    const core = (doc.decl as PackageDecl).modules.find((m) => m.name === 'core')!;
+    const add = core.functions.find((f) => f.name === 'add')!.overloads[0];
+    add.args[1].description = '';
+    add.description = 'Args:\n    b: The addend.\n\nDeprecated: Use `sum` instead.';
+
+    const site = transform(doc);
+    const overload = site.allModules
+      .find((m) => m.name === 'core')!
+      .functions.find((f) => f.name === 'add')!.overloads[0];
+
+    expect(overload.docstring.summary).toBe('Add two integers together.');
+    expect(overload.args[1].description).toBe('The addend.');
+    expect(overload.deprecated).toBe('Use `sum` instead.');
+  });
+});
+
+describe('intra-doc links', () => {
+  function withLinks(): MojoDocOutput {
+    const json = readFileSync(resolve(FIXTURES_DIR, 'sample.json'), 'utf-8');
+    const parsed = parseJson(json);
+    const core = (parsed.decl as PackageDecl).modules.find((m) => m.name === 'core')!;
+    core.structs[0].description = 'Render it with [`to_string`]; the [`value`] field is optional.';
+    core.functions[0].overloads[0].description =
+      'Uses [`Config`], [`types.process_items()`] and [`testlib.types.Item`] but not [`Missing`].';
+    return parsed;
+  }
+
+  it('resolves items, methods and fields relative to the docstring', () => {
+    const site = transform(withLinks(), { name: 'testlib' });
+    const core = site.allModules.find((m) => m.name === 'core')!;
+
+    const structHtml = core.structs[0].descriptionHtml;
+    expect(structHtml).toContain('href="/testlib/core/index.html#config-to-string"');
+    expect(structHtml).toContain('href="/testlib/core/index.html#config-value"');
+
+    const fnHtml = core.functions[0].overloads[0].descriptionHtml;
+    expect(fnHtml).toContain('<a href="/testlib/core/index.html#config"><code>Config</code></a>');
+    expect(fnHtml).toContain('href="/testlib/types/index.html#process-items"');
+    expect(fnHtml).toContain('href="/testlib/types/index.html#item"');
+    expect(fnHtml).toContain('but not <code>Missing</code>');
+  });
+
+  it('reports unresolved links as warnings', () => {
+    const site = transform(withLinks(), { name: 'testlib' });
+    expect(site.warnings).toEqual(['testlib.core.greet: intra-doc link [`Missing`] does not resolve']);
+  });
+
+  it('resolves re-exports from __init__.mojo', () => {
+    const parsed = withLinks();
+    const core = (parsed.decl as PackageDecl).modules.find((m) => m.name === 'core')!;
+    core.functions[1].overloads[0].description = 'See [`testlib.Config.to_string`].';
+    const site = transform(parsed, {
+      name: 'testlib',
+      moduleFiles: new Map([['__init__.mojo', 'from .core import Config\n']]),
+    });
+
+    expect(site.allModules.find((m) => m.name === 'core')!.functions[1].overloads[0].descriptionHtml).toContain(
+      'href="/testlib/core/index.html#config-to-string"'
+    );
+  });
+});
+
+describe('qualified type registry', () => {
+  /** sample.json with a second Config in types and a util module using it. */
+  function withCollidingConfig(): MojoDocOutput {
+    const json = readFileSync(resolve(FIXTURES_DIR, 'sample.json'), 'utf-8');
+    const parsed = parseJson(json);
+    const pkg = parsed.decl as PackageDecl;
+    const core = pkg.modules.find((m) => m.name === 'core')!;
+    const types = pkg.modules.find((m) => m.name === 'types')!;
+
+    const usesConfig = (name: string) => ({
+      ...core.functions[0],
+      name,
+      overloads: [
+        {
+          ...core.functions[0].overloads[0],
+          name,
+          signature: `${name}() -> Config`,
+          args: [],
+          returns: { type: 'Config', doc: '', path: '' },
+        },
+      ],
+    });
+
+    types.structs.push({ ...core.structs[0], path: '', functions: [] });
+    types.functions.push(usesConfig('configure'));
+    pkg.modules.push({ ...types, name: 'util', structs: [], functions: [usesConfig('load')] });
+    return parsed;
+  }
+
+  it('prefers the definition in the referencing module', () => {
+    const site = transform(withCollidingConfig(), { name: 'testlib' });
+    const types = site.allModules.find((m) => m.name === 'types')!;
+    const core = site.allModules.find((m) => m.name === 'core')!;
+
+    const configure = types.functions.find((f) => f.name === 'configure')!;
+    expect(configure.overloads[0].signatureHtml).toContain('testlib/types/index.html#config');
+    expect(core.structs[0].signatureHtml).toContain('testlib/core/index.html#Config');
+  });
+
+  it('lets the mojo doc path decide over scope', () => {
+    const site = transform(withCollidingConfig(), { name: 'testlib' });
+    const item = site.allModules.find((m) => m.name === 'types')!.structs.find((s) => s.name === 'Item')!;
+
+    expect(item.fields.find((f) => f.name === 'config')?.typeHtml).toContain('testlib/core/index.html#Config');
+  });
+
+  it('leaves ambiguous names unlinked and reports them', () => {
+    const site = transform(withCollidingConfig(), { name: 'testlib' });
+    const load = site.allModules.find((m) => m.name === 'util')!.functions[0];
+
+    expect(load.overloads[0].signatureHtml).not.toContain('type-link');
+    expect(site.warnings).toEqual([
+      'testlib.util.load: type `Config` is ambiguous (testlib.core.Config, testlib.types.Config)',
+    ]);
+  });
+});
+
+describe('docstring inheritance', () => {
+  function undocumented(parsed: MojoDocOutput) {
+    const core = (parsed.decl as PackageDecl).modules.find((m) => m.name === 'core')!;
+    const method = core.structs[0].functions[0];
+    const documented = structuredClone(method);
+    for (const ov of method.overloads) {
+      ov.summary = '';
+      ov.description = '';
+      ov.returns = ov.returns && { ...ov.returns, doc: '' };
+    }
+    return { core, method, documented };
+  }
+
+  it('fills undocumented methods from a local trait', () => {
+    const parsed = loadSample();
+    const { core, documented } = undocumented(parsed);
+    core.traits.push(traitDecl('Describable', [documented]));
+    core.structs[0].parentTraits = [{ name: 'Describable', path: '' }];
+
+    const site = transform(parsed, { name: 'testlib' });
+    const overload = site.allModules.find((m) => m.name === 'core')!.structs[0].methods[0].overloads[0];
+
+    expect(overload.inheritedFrom).toBe('Describable');
+    expect(overload.summary).toBe(documented.overloads[0].summary);
+    expect(overload.returns?.description).toBe(documented.overloads[0].returns?.doc);
+  });
+
+  it('inherits from traits in supplied mojo doc output', () => {
+    const parsed = loadSample();
+    const { core, documented } = undocumented(parsed);
+    core.structs[0].parentTraits = [{ name: 'Stringable', path: '/std/builtin/str/Stringable' }];
+
+    const stdlib: MojoDocOutput = {
+      version: parsed.version,
+      decl: {
+        kind: 'module',
+        name: 'str',
+        summary: '',
+        description: '',
+        functions: [],
+        structs: [],
+        aliases: [],
+        traits: [traitDecl('Stringable', [documented], { path: '/std/builtin/str/Stringable' })],
+      },
+    };
+
+    const method = (site: ReturnType<typeof transform>) =>
+      site.allModules.find((m) => m.name === 'core')!.structs[0].methods[0].overloads[0];
+
+    expect(method(transform(structuredClone(parsed), { name: 'testlib' })).inheritedFrom).toBeNull();
+    expect(method(transform(parsed, { name: 'testlib', traitDocs: [stdlib] })).inheritedFrom).toBe('Stringable');
+  });
+
+  it("keeps a method's own docs", () => {
+    const parsed = loadSample();
+    const core = (parsed.decl as PackageDecl).modules.find((m) => m.name === 'core')!;
+    core.traits.push(traitDecl('Describable', [structuredClone(core.structs[0].functions[0])]));
+    core.structs[0].parentTraits = [{ name: 'Describable', path: '' }];
+
+    const site = transform(parsed, { name: 'testlib' });
+    expect(site.allModules.find((m) => m.name === 'core')!.structs[0].methods[0].overloads[0].inheritedFrom).toBeNull();
+  });
+});
+
+describe('source links', () => {
+  const source = [
+    '"""Core module."""',
+    '',
+    'fn greet(',
+    '    name: String,',
+    ') -> String:',
+    '    """Greets.',
+    '',
+    'Returns:',
+    '    A greeting.',
+    '    """',
+    '    return "Hello, " + name',
+    '',
+    '',
+    '@fieldwise_init',
+    'struct Config(Copyable):',
+    '    var name: String',
+    '',
+    '    fn to_string(self) -> String:',
+    '        fn inner() -> String:',
+    '            return self.name',
+    '        return inner()',
+    '',
+    '# trailing comment',
+    'comptime MAX = 10',
+  ].join('\n');
+
+  it('locates declarations and struct members by indentation', () => {
+    const ranges = locateDeclarations(source);
+
+    expect(ranges.get('greet')).toEqual({ start: 3, end: 11 });
+    expect(ranges.get('Config')).toEqual({ start: 14, end: 21 });
+    expect(ranges.get('Config.to_string')).toEqual({ start: 18, end: 21 });
+    expect(ranges.get('MAX')).toEqual({ start: 24, end: 24 });
+    expect(ranges.has('Config.to_string.inner')).toBe(false);
+    expect(ranges.has('inner')).toBe(false);
+  });
+
+  it('fills forge templates', () => {
+    const range = { start: 3, end: 11 };
+    const link = (repository: string, template?: string) =>
+      buildSourceUrl({ repository, ref: 'v1.0.0', prefix: 'src/testlib', template }, 'core.mojo', range);
+
+    expect(link('https://github.com/me/testlib/')).toBe(
+      'https://github.com/me/testlib/blob/v1.0.0/src/testlib/core.mojo#L3-L11'
+    );
+    expect(link('https://gitlab.com/me/testlib')).toBe(
+      'https://gitlab.com/me/testlib/-/blob/v1.0.0/src/testlib/core.mojo#L3-11'
+    );
+    expect(link('https://codeberg.org/me/testlib')).toBe(
+      'https://codeberg.org/me/testlib/src/v1.0.0/src/testlib/core.mojo#L3-L11'
+    );
+    expect(link('https://bitbucket.org/me/testlib')).toBe(
+      'https://bitbucket.org/me/testlib/src/v1.0.0/src/testlib/core.mojo#lines-3:11'
+    );
+    expect(link('https://git.sr.ht/~me/testlib')).toBe(
+      'https://git.sr.ht/~me/testlib/tree/v1.0.0/item/src/testlib/core.mojo#L3-11'
+    );
+    expect(link('https://git.example.com/me/testlib', '{repo}/raw/{ref}/{path}?from={start}')).toBe(
+      'https://git.example.com/me/testlib/raw/v1.0.0/src/testlib/core.mojo?from=3'
+    );
+    expect(buildSourceUrl({ repository: 'https://github.com/me/testlib', ref: 'abc123', prefix: '' }, 'core.mojo')).toBe(
+      'https://github.com/me/testlib/blob/abc123/core.mojo'
+    );
+  });
+
+  it('links every item to its lines', () => {
+    const parsed = loadSample();
+    const site = transform(parsed, {
+      name: 'testlib',
+      moduleFiles: new Map([['core.mojo', source]]),
+      sourceLinks: { repository: 'https://github.com/me/testlib', ref: 'abc123', prefix: 'testlib' },
+    });
+    const core = site.allModules.find(m => m.name === 'core')!;
+    const types = site.allModules.find(m => m.name === 'types')!;
+
+    expect(core.sourceUrl).toBe('https://github.com/me/testlib/blob/abc123/testlib/core.mojo');
+    expect(core.functions[0].sourceUrl).toBe(`${core.sourceUrl}#L3-L11`);
+    expect(core.structs[0].methods[0].sourceUrl).toBe(`${core.sourceUrl}#L18-L21`);
+    // Without the source, items still link to their file
+    expect(types.functions[0].sourceUrl).toBe('https://github.com/me/testlib/blob/abc123/testlib/types.mojo');
+
+    expect(transform(parsed, { name: 'testlib' }).allModules[1].functions[0].sourceUrl).toBeNull();
+  });
+});
+
+describe('highlightSourceLines', () => {
+  it('keeps one balanced line per source line', () => {
+    const lines = highlightSourceLines('fn f():\n    """Doc\n    more."""\n    pass');
+
+    expect(lines).toHaveLength(4);
+    expect(lines[2]).toMatch(/^<span class="hljs-string">\s*more\.(&quot;){3}<\/span>$/);
+    for (const line of lines) {
+      expect(line.split('<span').length).toBe(line.split('</span>').length);
+    }
+  });
+});
@@ -1,5 +1,6 @@
 import { defineConfig } from 'vitest/config';
 import tsconfigPaths from 'vite-tsconfig-paths';
+import { fileURLToPath } from 'url';
 
 export default defineConfig({
   plugins: [tsconfigPaths()],
@@ -14,9 +15,13 @@ export default defineConfig({
   },
   resolve: {
     alias: {
-      '@mojodoc/parser': './packages/parser/src/index.ts',
-      '@mojodoc/transform': './packages/transform/src/index.ts',
-      '@mojodoc/renderer': './packages/renderer/src/index.ts',
+      '@mojodoc/parser': fileURLToPath(new URL('./packages/parser/src/index.ts', import.meta.url)),
+      '@mojodoc/transform': fileURLToPath(
+        new URL('./packages/transform/src/index.ts', import.meta.url)
+      ),
+      '@mojodoc/renderer': fileURLToPath(
+        new URL('./packages/renderer/src/index.ts', import.meta.url)
+      ),
     },
   },
 });